@@ -18,11 +18,14 @@ import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context'
 import { Ionicons } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
 import { useTheme, Theme } from '../context/ThemeContext';
-import { storage, Chat, Message, CodeDiff, CustomModel, MessageAttachment, ImageAttachment, FileAttachment } from '../utils/storage';
-import { aiService } from '../utils/aiService';
+import { storage, Chat, Message, CodeDiff, CustomModel, MessageAttachment, ImageAttachment, FileAttachment, DryRunChangeSet, AgentSettings } from '../utils/storage';
+import { aiService, AIImagePart, AIMessage } from '../utils/aiService';
 import { codeParser } from '../utils/codeParser';
 import { fileManager, FileNode } from '../utils/fileManager';
-import { autonomousAgent, AgentStep } from '../utils/autonomousAgent';
+import { autonomousAgent, AgentStep, AgentRunOptions, ExecutionPlan, PlanReviewDecision, PartialChangesDecision, DEFAULT_MAX_TURNS, DEFAULT_MAX_STEPS } from '../utils/autonomousAgent';
+import { FileOverlay, FileChange } from '../utils/fileOverlay';
+import { toolRegistry, Tool } from '../utils/toolRegistry';
+import { prepareImagesForUpload } from '../utils/imageAttachments';
 import { ModelSwitcher } from '../components/ModelSwitcher';
 import { ChatHistory } from '../components/ChatHistory';
 import { CodeDiffViewer } from '../components/CodeDiffViewer';
@@ -31,7 +34,10 @@ import { CodeViewerPanel } from '../components/CodeViewerPanel';
 import { FileSearch } from '../components/FileSearch';
 import { FileOperationApproval, FileOperation } from '../components/FileOperationApproval';
 import { MCPManager } from '../components/MCPManager';
-import { TaskTracker } from '../components/TaskTracker';
+import { ApprovalRulesManager } from '../components/ApprovalRulesManager';
+import { ProjectMemoryEditor } from '../components/ProjectMemoryEditor';
+import { ChangeSetViewer } from '../components/ChangeSetViewer';
+import { TaskTracker, PlanReviewRequest } from '../components/TaskTracker';
 import { GitPanel } from '../components/GitPanel';
 import { FileAttachmentPicker } from '../components/FileAttachmentPicker';
 import { HTMLPreview } from '../components/HTMLPreview';
@@ -52,6 +58,27 @@ import {
 } from '../utils/localLlama';
 import { previewBus, PreviewRequest } from '../utils/previewBus';
 import { backgroundTaskManager, BackgroundTask } from '../utils/backgroundTask';
+import { usageTracker, formatUsage, hasKnownPrice, UsageSummary } from '../utils/usageTracker';
+import { contextManager, estimateTokens } from '../utils/contextManager';
+import { secrets } from '../utils/secrets';
+import { AGENT_MODES, DEFAULT_AGENT_MODE, AgentMode } from '../utils/agentModes';
+
+// Tools the agent may use in chat
+const AGENT_TOOLS = [
+  'read_file', 'write_file', 'edit_file', 'create_file', 'delete_file', 'list_directory', 'search_files', 'replace_in_files', 'run_command',
+  'find_files', 'append_file', 'remember', 'file_info', 'count_lines', 'list_imports', 'find_symbol', 'find_references',
+  'create_component', 'npm_info', 'npm_install', 'update_package_json', 'init_project',
+  'git_init', 'git_status', 'git_add', 'git_commit', 'git_log', 'git_set_remote', 'git_clone', 'git_pull', 'git_push',
+  'open_html_preview', 'open_react_preview', 'open_component_preview', 'list_preview_components'
+];
+
+// Choices for the agent limits in settings; tapping moves to the next one
+const MAX_TURNS_CHOICES = [3, DEFAULT_MAX_TURNS, 10, 15];
+const MAX_STEPS_CHOICES = [15, DEFAULT_MAX_STEPS, 50, 100];
+
+const nextChoice = (choices: number[], current: number) => choices[(choices.indexOf(current) + 1) % choices.length];
+
+type ModelKeys = { apiKey?: string; hfApiKey?: string; geminiApiKey?: string };
 
 export default function ChatScreen() {
   const { theme, isDarkMode, toggleTheme } = useTheme();
@@ -102,6 +129,8 @@ export default function ChatScreen() {
   const [showFileApproval, setShowFileApproval] = useState(false);
   const [agentSteps, setAgentSteps] = useState<AgentStep[]>([]);
   const [showMCPManager, setShowMCPManager] = useState(false);
+  const [showApprovalRules, setShowApprovalRules] = useState(false);
+  const [showProjectMemory, setShowProjectMemory] = useState(false);
   const [showTaskTracker, setShowTaskTracker] = useState(false);
   const [showGitPanel, setShowGitPanel] = useState(false);
   const [showToolsHelp, setShowToolsHelp] = useState(false);
@@ -122,8 +151,19 @@ export default function ChatScreen() {
   const [showCodeArena, setShowCodeArena] = useState(false);
   const [openRouterKey, setOpenRouterKey] = useState('');
   const [backgroundTask, setBackgroundTask] = useState<BackgroundTask | null>(null);
+  const [usageSummary, setUsageSummary] = useState<UsageSummary | null>(null);
+  const [secretsLocked, setSecretsLocked] = useState(false);
+  const [reviewPlans, setReviewPlans] = useState(true);
+  const [dryRun, setDryRun] = useState(false);
+  const [agentSettings, setAgentSettings] = useState<AgentSettings>({});
+  const [dryRunMessageId, setDryRunMessageId] = useState<string | null>(null);
+  const [planReview, setPlanReview] = useState<PlanReviewRequest | null>(null);
   const scrollViewRef = useRef<ScrollView>(null);
   const approvalResolverRef = useRef<((value: boolean) => void) | null>(null);
+  const fileApprovalResolverRef = useRef<((value: boolean) => void) | null>(null);
+  // Parallel agent steps wait here so only one approval is pending (and resolvable) at a time
+  const approvalQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+  const planReviewResolverRef = useRef<((decision: PlanReviewDecision) => void) | null>(null);
   const messageCounterRef = useRef(0);
   const abortControllerRef = useRef<AbortController | null>(null);
 
@@ -165,7 +205,7 @@ export default function ChatScreen() {
       }
 
       // If task is completed or failed, clear it after showing result
-      if (task.status === 'completed' || task.status === 'failed') {
+      if (task.status === 'completed' || task.status === 'failed' || task.status === 'cancelled') {
         setTimeout(() => {
           setBackgroundTask(null);
           // Clear agent steps after task is fully complete
@@ -183,6 +223,12 @@ export default function ChatScreen() {
     }
   }, [currentChat]);
 
+  useEffect(() => {
+    if (showSettings) {
+      usageTracker.getSummary(currentChat?.id || null).then(setUsageSummary);
+    }
+  }, [showSettings]);
+
   const formatBytes = (bytes: number) => {
     if (!bytes) return '0 B';
     const units = ['B', 'KB', 'MB', 'GB'];
@@ -287,9 +333,68 @@ export default function ChatScreen() {
     setGlmKey(glmKey);
     const orKey = await storage.getOpenRouterKey();
     setOpenRouterKey(orKey);
+    setSecretsLocked(await secrets.isLocked());
+    setReviewPlans(await storage.getReviewPlans());
+    setDryRun(await storage.getDryRun());
+    setAgentSettings(await storage.getAgentSettings());
 
     await refreshLocalModelInfo();
     await ensureSampleWebsite();
+    await checkInterruptedRun();
+  };
+
+  /**
+   * Offer to resume an agent run that was cut off when the app was killed
+   */
+  const checkInterruptedRun = async () => {
+    const task = await backgroundTaskManager.getInterruptedTask();
+    if (!task?.journal) return;
+
+    const steps = task.agentSteps || [];
+    const done = steps.filter((s) => s.status === 'completed').length;
+    Alert.alert(
+      'Resume Agent Task?',
+      `The app closed while the agent was working on "${task.journal.goal}". ${done} of ${steps.length} steps had finished.`,
+      [
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => backgroundTaskManager.discardInterruptedTask(),
+        },
+        { text: 'Resume', onPress: () => resumeAgentRun(task) },
+      ]
+    );
+  };
+
+  const resumeAgentRun = async (task: BackgroundTask) => {
+    const journal = task.journal!;
+    // Read from storage: this runs before the settings state from loadInitialData is applied
+    const chat = (await storage.getChats()).find((c) => c.id === journal.chatId) || null;
+    if (chat) {
+      setCurrentChat(chat);
+    }
+    setIsTyping(true);
+    setAgentSteps((task.agentSteps || []).filter((s) => s.tool !== 'plan'));
+    streamingMessageIdRef.current = null;
+    usageTracker.setActiveChat(journal.chatId);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    try {
+      if (journal.model === LOCAL_MODEL_ID) {
+        await ensureLocalModelReady();
+      }
+      await runAgent(
+        journal.userRequest,
+        [],
+        journal.model,
+        await storage.getCustomModels(),
+        await getModelKeys(journal.model),
+        { signal: abortController.signal, chatId: journal.chatId || undefined, resumeFrom: task }
+      );
+    } catch (error) {
+      handleAgentError(error);
+    }
   };
 
   const ensureSampleWebsite = async () => {
@@ -501,8 +606,420 @@ export default function ChatScreen() {
       abortControllerRef.current.abort();
       abortControllerRef.current = null;
     }
+    // Deny any approval the agent is waiting on so the run can wind down
+    if (approvalResolverRef.current) {
+      approvalResolverRef.current(false);
+      approvalResolverRef.current = null;
+    }
+    if (fileApprovalResolverRef.current) {
+      fileApprovalResolverRef.current(false);
+      fileApprovalResolverRef.current = null;
+      setShowFileApproval(false);
+      setPendingFileOperations([]);
+    }
+    if (planReviewResolverRef.current) {
+      handlePlanReviewDecision({ action: 'cancel' });
+    }
+    setIsTyping(false);
+  };
+
+  /**
+   * Show the plan in the task tracker and wait for Run plan, Re-plan or Cancel
+   */
+  const requestPlanReview = (plan: ExecutionPlan): Promise<PlanReviewDecision> => {
+    return new Promise((resolve) => {
+      planReviewResolverRef.current = resolve;
+      setPlanReview({
+        plan,
+        tools: AGENT_TOOLS.map((name) => toolRegistry.getTool(name)).filter((tool): tool is Tool => !!tool),
+        onDecision: handlePlanReviewDecision,
+      });
+      setShowTaskTracker(true);
+    });
+  };
+
+  const handlePlanReviewDecision = (decision: PlanReviewDecision) => {
+    setPlanReview(null);
+    if (decision.action !== 'run') {
+      setShowTaskTracker(false);
+    }
+    if (planReviewResolverRef.current) {
+      planReviewResolverRef.current(decision);
+      planReviewResolverRef.current = null;
+    }
+  };
+
+  const handleToggleReviewPlans = async () => {
+    await storage.setReviewPlans(!reviewPlans);
+    setReviewPlans(!reviewPlans);
+  };
+
+  const handleToggleDryRun = async () => {
+    await storage.setDryRun(!dryRun);
+    setDryRun(!dryRun);
+  };
+
+  const maxTurns = agentSettings.maxTurns ?? DEFAULT_MAX_TURNS;
+  const maxSteps = agentSettings.maxSteps ?? DEFAULT_MAX_STEPS;
+
+  const updateAgentSettings = async (updates: AgentSettings) => {
+    const next = { ...agentSettings, ...updates };
+    setAgentSettings(next);
+    await storage.setAgentSettings(next);
+  };
+
+  // The mode is stored on the chat, so switching chats restores it
+  const agentMode = currentChat?.mode || DEFAULT_AGENT_MODE;
+
+  const handleModeChange = (mode: AgentMode) => {
+    setCurrentChat((prev) => (prev ? { ...prev, mode } : prev));
+  };
+
+  const dryRunMessage = currentChat?.messages.find((m) => m.id === dryRunMessageId && m.dryRun);
+  const dryRunChanges = useMemo(
+    () => (dryRunMessage?.dryRun ? new FileOverlay(dryRunMessage.dryRun.snapshot).getChanges() : []),
+    [dryRunMessage?.dryRun?.snapshot]
+  );
+
+  const setDryRunStatus = (messageId: string, status: 'applied' | 'discarded', gitCheckpointHash?: string) => {
+    setCurrentChat((prev) => {
+      if (!prev) return prev;
+      return {
+        ...prev,
+        messages: prev.messages.map((m) => (m.id === messageId && m.dryRun
+          ? { ...m, dryRun: { ...m.dryRun, status }, gitCheckpointHash: gitCheckpointHash || m.gitCheckpointHash }
+          : m)),
+      };
+    });
+  };
+
+  /**
+   * Write a dry run's changeset to the project, checking first for files edited since the run
+   */
+  const handleApplyDryRun = async (message: Message) => {
+    if (!message.dryRun) return;
+    const overlay = new FileOverlay(message.dryRun.snapshot);
+    const apply = async () => {
+      try {
+        const changes = await overlay.commit();
+        const { gitService } = await import('../utils/gitService');
+        const hash = await gitService.createCheckpoint(`Agent: ${message.dryRun!.goal}`).catch(() => null);
+        setDryRunStatus(message.id, 'applied', hash || undefined);
+        setDryRunMessageId(null);
+        Alert.alert('Changes Applied', `${changes.length} file${changes.length === 1 ? '' : 's'} updated.`);
+      } catch (error: any) {
+        Alert.alert('Error', `Could not apply the changes; the project is unchanged. ${error.message || error}`);
+      }
+    };
+
+    const conflicts = await overlay.findConflicts();
+    if (conflicts.length === 0) {
+      await apply();
+      return;
+    }
+    Alert.alert(
+      'Files Changed Since Dry Run',
+      `${conflicts.join('\n')}\n\nApplying overwrites these files with the dry run's version.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Apply Anyway', style: 'destructive', onPress: apply },
+      ]
+    );
+  };
+
+  const handleDiscardDryRun = (message: Message) => {
+    setDryRunStatus(message.id, 'discarded');
+    setDryRunMessageId(null);
+  };
+
+  const toDryRunChangeSet = (result: any): DryRunChangeSet | undefined =>
+    result.dryRun && result.changes?.length > 0
+      ? { goal: result.plan?.goal || '', snapshot: result.dryRun, status: 'pending' }
+      : undefined;
+
+  /**
+   * Report a cancelled run; its staged file changes were already kept or rolled back
+   */
+  const handleCancelledRun = (result: any) => {
+    const cancelMsg: Message = {
+      id: `cancelled-${Date.now()}`,
+      role: 'assistant',
+      content: result.finalOutput,
+      timestamp: new Date(),
+      codeDiff: result.changeDiff,
+      dryRun: toDryRunChangeSet(result),
+    };
+    setCurrentChat((prev) => {
+      if (!prev) return null;
+      return {
+        ...prev,
+        messages: [...prev.messages, cancelMsg],
+        updatedAt: new Date(),
+      };
+    });
+  };
+
+  /**
+   * Ask whether to keep the file changes of a run whose steps did not all succeed
+   */
+  const confirmPartialChanges = (changes: FileChange[], problems: AgentStep[]): Promise<PartialChangesDecision> => {
+    const files = changes.slice(0, 5).map((c) => `• ${c.path} (${c.type})`).join('\n');
+    const more = changes.length > 5 ? `\n…and ${changes.length - 5} more` : '';
+    return new Promise((resolve) => {
+      Alert.alert(
+        'Keep Partial Changes?',
+        `${problems.length} step${problems.length === 1 ? '' : 's'} did not complete. The steps that ran changed ${changes.length} file${changes.length === 1 ? '' : 's'}:\n${files}${more}`,
+        [
+          { text: 'Roll Back', style: 'destructive', onPress: () => resolve('rollback') },
+          { text: 'Keep Partial', onPress: () => resolve('keep') },
+        ],
+        { cancelable: false }
+      );
+    });
+  };
+
+  /**
+   * Provider keys for a model, read from the secure store
+   */
+  const getModelKeys = async (model: string): Promise<ModelKeys> => {
+    if (model.startsWith('gpt')) {
+      return { apiKey: (await storage.getOpenAIKey()) || undefined };
+    } else if (model.startsWith('claude') || model.startsWith('anthropic')) {
+      return { apiKey: (await storage.getAnthropicKey()) || undefined };
+    } else if (model.startsWith('gemini')) {
+      return { geminiApiKey: (await storage.getGeminiKey()) || undefined };
+    } else if (model.startsWith('glm')) {
+      return { apiKey: (await storage.getGlmKey()) || undefined };
+    }
+    return {};
+  };
+
+    const handleAgentStream = (token: string) => {
+      setCurrentChat((prev) => {
+        if (!prev) return null;
+
+        let newMessages = [...prev.messages];
+
+        if (!streamingMessageIdRef.current) {
+          // Create new message for the stream
+          streamingMessageIdRef.current = `assistant-${Date.now()}`;
+          newMessages.push({
+            id: streamingMessageIdRef.current,
+            role: 'assistant',
+            content: token,
+            timestamp: new Date(),
+          });
+        } else {
+          // Update existing message
+          const msgIndex = newMessages.findIndex(m => m.id === streamingMessageIdRef.current);
+          if (msgIndex >= 0) {
+            newMessages[msgIndex] = {
+              ...newMessages[msgIndex],
+              content: newMessages[msgIndex].content + token,
+            };
+          } else {
+            // Fallback if message lost (unlikely)
+            newMessages.push({
+              id: streamingMessageIdRef.current,
+              role: 'assistant',
+              content: token,
+              timestamp: new Date(),
+            });
+          }
+        }
+
+        return {
+          ...prev,
+          messages: newMessages,
+        };
+      });
+    };
+
+  /**
+   * Run the agent for a request (or resume an interrupted run) and post the result to the chat
+   */
+  const runAgent = async (
+    agentInput: string,
+    historyMessages: AIMessage[],
+    model: string,
+    models: CustomModel[],
+    keys: ModelKeys,
+    options: AgentRunOptions
+  ) => {
+    // Read from storage, not state, so runs resumed at launch get the saved limits too
+    const limits = await storage.getAgentSettings();
+
+    // Show one approval to the user; runs one at a time through approvalQueueRef
+    const requestApproval = (step: AgentStep, diff?: CodeDiff | null): Promise<boolean> => {
+      // Tools with a preview (e.g. edit_file) are approved from their diff
+      if (diff) {
+        return new Promise((resolve) => {
+          fileApprovalResolverRef.current = resolve;
+          setPendingFileOperations([{
+            type: 'edit',
+            file: { filename: diff.filename, content: diff.newCode, language: diff.language },
+            reason: step.description,
+            diff,
+          }]);
+          setShowFileApproval(true);
+        });
+      }
+
+      // Approval callback - show inline approval card in chat
+      return new Promise((resolve) => {
+        approvalResolverRef.current = resolve;
+        const approvalMessageId = `approval-${Date.now()}`;
+        const approvalMessage: Message = {
+          id: approvalMessageId,
+          role: 'assistant',
+          content: `Approval required: ${step.tool}`,
+          timestamp: new Date(),
+          approval: {
+            id: step.id,
+            description: step.description,
+            tool: step.tool,
+            parameters: step.parameters,
+            status: 'pending',
+          },
+        };
+        setCurrentChat((prev) => {
+          if (!prev) return null;
+          return {
+            ...prev,
+            messages: [...prev.messages, approvalMessage],
+            updatedAt: new Date(),
+          };
+        });
+      });
+    };
+
+    const result: any = await autonomousAgent.executeTask(
+      agentInput,
+      AGENT_TOOLS,
+      async (step, allSteps) => {
+        // Progress callback - update task tracker
+        // Filter out the 'plan' metadata step - only show actual tool steps
+        const toolSteps = allSteps.filter(s => s.tool !== 'plan');
+        setAgentSteps(toolSteps);
+        setCurrentGoal(toolSteps.length > 0 ? 'Processing tasks...' : agentInput);
+
+        // Don't add progress messages to chat - keep it clean
+        // Progress is shown in the task tracker badge instead
+      },
+      (step, diff) => {
+        const approval = approvalQueueRef.current.then(() =>
+          // Steps still waiting when the user stops the run are denied without asking
+          options.signal?.aborted ? false : requestApproval(step, diff)
+        );
+        approvalQueueRef.current = approval.catch(() => undefined);
+        return approval;
+      },
+      model,
+      models,
+      keys.apiKey,
+      keys.hfApiKey,
+      keys.geminiApiKey,
+      handleAgentStream, // Pass the streaming callback
+      historyMessages,
+      { ...limits, ...options, onPartialChanges: confirmPartialChanges }
+    );
+
+    if (result.cancelled) {
+      console.log('=== AGENT EXECUTION CANCELLED ===');
+      handleCancelledRun(result);
+      setIsTyping(false);
+      return;
+    }
+
+    console.log('=== AGENT EXECUTION COMPLETE ===');
+    console.log('Success:', result.success);
+    console.log('Steps completed:', result.stepsCompleted);
+    console.log('Steps failed:', result.stepsFailed);
+    console.log('Final output length:', result.finalOutput?.length || 0);
+    console.log('Final output preview:', result.finalOutput?.substring(0, 300) || 'No output');
+    console.log('Has conversational response:', !!result.plan?.conversationalResponse);
+    console.log('Has tool steps:', result.plan?.steps?.length || 0);
+
+    // Complete the background task - it will handle cleanup after 5 seconds
+    backgroundTaskManager.completeTask({ success: result.success, result });
+
+    // Store the goal for task tracker
+    if (result.plan?.goal) {
+      setCurrentGoal(result.plan.goal);
+    }
+
+    // Ensure we have at least one response if nothing was streamed (fallback)
+    if (!streamingMessageIdRef.current && (!result.plan?.steps.length || result.planOnly)) {
+      const finalContent = result.plan?.conversationalResponse || result.finalOutput || 'Done!';
+      console.log('Creating fallback message, content length:', finalContent.length);
+      const summaryMsg: Message = {
+        id: `summary-${Date.now()}`,
+        role: 'assistant',
+        content: finalContent,
+        timestamp: new Date(),
+        gitCheckpointHash: result.gitCheckpointHash,
+        codeDiff: result.changeDiff,
+        dryRun: toDryRunChangeSet(result),
+      };
+      setCurrentChat((prev) => {
+        if (!prev) return null;
+        return {
+          ...prev,
+          messages: [...prev.messages, summaryMsg],
+          updatedAt: new Date(),
+        };
+      });
+    } else if (streamingMessageIdRef.current) {
+      // Update the streamed message with final output and checkpoint hash
+      setCurrentChat((prev) => {
+        if (!prev) return null;
+        const messages = prev.messages.map(m => {
+          if (m.id === streamingMessageIdRef.current) {
+            // Append final output summary to the existing message
+            const updatedContent = result.finalOutput
+              ? `${m.content}\n\n${result.finalOutput}`
+              : m.content;
+            return {
+              ...m,
+              content: updatedContent,
+              gitCheckpointHash: result.gitCheckpointHash,
+              codeDiff: result.changeDiff,
+              dryRun: toDryRunChangeSet(result),
+            };
+          }
+          return m;
+        });
+        return { ...prev, messages };
+      });
+    }
+
+    setIsTyping(false);
+  };
+
+  const handleAgentError = (error: unknown) => {
+    console.error('=== AGENT EXECUTION FAILED ===');
+    console.error('Error:', error);
+
+    // Fail the background task
+    backgroundTaskManager.failTask((error as Error).message || 'Unknown error');
+
+    // Show error message to user
+    const errorMsg: Message = {
+      id: `error-${Date.now()}`,
+      role: 'assistant',
+      content: `Sorry, something went wrong: ${(error as Error).message || 'Unknown error'}`,
+      timestamp: new Date(),
+    };
+    setCurrentChat((prev) => {
+      if (!prev) return null;
+      return {
+        ...prev,
+        messages: [...prev.messages, errorMsg],
+        updatedAt: new Date(),
+      };
+    });
+
     setIsTyping(false);
-    setAgentSteps([]);
   };
 
   const sendMessage = async () => {
@@ -548,74 +1065,34 @@ export default function ChatScreen() {
     setInputText('');
     setIsTyping(true);
     streamingMessageIdRef.current = null;
+    // Bill every AI call of this run (plans, steps, summaries) to this chat
+    usageTracker.setActiveChat(updatedChat.id);
 
     // Create new abort controller for this request
-    abortControllerRef.current = new AbortController();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
 
     const attachmentContext = await buildAttachmentContext();
     const agentInput = attachmentContext ? `${attachmentContext}User request:\n${userInput}` : userInput;
+
+    // Downscale and encode images so vision models can see them
+    let images: AIImagePart[] = [];
+    if (attachedImages.length > 0) {
+      try {
+        images = await prepareImagesForUpload(attachedImages);
+      } catch (error) {
+        console.error('Failed to prepare images:', error);
+        Alert.alert('Image Error', 'Could not process the attached images. Sending the message without them.');
+      }
+    }
     setAttachedFiles([]);
     setAttachedImages([]);
 
     // Always use autonomous agent - AI decides when to use tools
     setAgentSteps([]);
 
-    let result: any;
     try {
-      // Determine which API key to use based on the selected model
-      let apiKey: string | undefined;
-      let hfApiKey: string | undefined;
-      let geminiApiKey: string | undefined;
-      if (selectedModel.startsWith('gpt')) {
-        apiKey = openAIKey || undefined;
-      } else if (selectedModel.startsWith('claude') || selectedModel.startsWith('anthropic')) {
-        apiKey = anthropicKey || undefined;
-      } else if (selectedModel.startsWith('gemini')) {
-        geminiApiKey = geminiKey || undefined;
-      } else if (selectedModel.startsWith('glm')) {
-        apiKey = glmKey || undefined;
-      }
-
-      const handleStream = (token: string) => {
-        setCurrentChat((prev) => {
-          if (!prev) return null;
-
-          let newMessages = [...prev.messages];
-
-          if (!streamingMessageIdRef.current) {
-            // Create new message for the stream
-            streamingMessageIdRef.current = `assistant-${Date.now()}`;
-            newMessages.push({
-              id: streamingMessageIdRef.current,
-              role: 'assistant',
-              content: token,
-              timestamp: new Date(),
-            });
-          } else {
-            // Update existing message
-            const msgIndex = newMessages.findIndex(m => m.id === streamingMessageIdRef.current);
-            if (msgIndex >= 0) {
-              newMessages[msgIndex] = {
-                ...newMessages[msgIndex],
-                content: newMessages[msgIndex].content + token,
-              };
-            } else {
-              // Fallback if message lost (unlikely)
-              newMessages.push({
-                id: streamingMessageIdRef.current,
-                role: 'assistant',
-                content: token,
-                timestamp: new Date(),
-              });
-            }
-          }
-
-          return {
-            ...prev,
-            messages: newMessages,
-          };
-        });
-      };
+      const keys = await getModelKeys(selectedModel);
 
       if (selectedModel === LOCAL_MODEL_ID) {
         try {
@@ -627,158 +1104,40 @@ export default function ChatScreen() {
         }
       }
 
-      const historyMessages = updatedMessages
+      const chatHistory = updatedMessages
         .slice(0, -1)
         .filter((m) => (m.role === 'user' || m.role === 'assistant') && !m.approval)
         .filter((m) => m.content && !m.id.startsWith('progress-'))
         // Filter out error messages that pollute context
-        .filter((m) => !m.content.includes('"error"') && !m.content.includes('RESOURCE_EXHAUSTED'))
-        .slice(-8)  // History limit for agent context
-        .map((m) => ({
-          role: m.role,
-          content: m.content,
-        }));
-
-      result = await autonomousAgent.executeTask(
-        agentInput,
-        [
-          'read_file', 'write_file', 'create_file', 'delete_file', 'list_directory', 'search_files', 'run_command',
-          'find_files', 'append_file', 'file_info', 'count_lines', 'list_imports',
-          'create_component', 'npm_info', 'npm_install', 'update_package_json', 'init_project',
-          'git_init', 'git_status', 'git_add', 'git_commit', 'git_log', 'git_set_remote', 'git_clone', 'git_pull', 'git_push',
-          'open_html_preview', 'open_react_preview', 'open_component_preview', 'list_preview_components'
-        ],
-        async (step, allSteps) => {
-          // Progress callback - update task tracker
-          // Filter out the 'plan' metadata step - only show actual tool steps
-          const toolSteps = allSteps.filter(s => s.tool !== 'plan');
-          setAgentSteps(toolSteps);
-          setCurrentGoal(toolSteps.length > 0 ? 'Processing tasks...' : inputText.trim());
+        .filter((m) => !m.content.includes('"error"') && !m.content.includes('RESOURCE_EXHAUSTED'));
 
-          // Don't add progress messages to chat - keep it clean
-          // Progress is shown in the task tracker badge instead
-        },
-        async (step) => {
-          // Approval callback - show inline approval card in chat
-          return new Promise((resolve) => {
-            approvalResolverRef.current = resolve;
-            const approvalMessageId = `approval-${Date.now()}`;
-            const approvalMessage: Message = {
-              id: approvalMessageId,
-              role: 'assistant',
-              content: `Approval required: ${step.tool}`,
-              timestamp: new Date(),
-              approval: {
-                id: step.id,
-                description: step.description,
-                tool: step.tool,
-                parameters: step.parameters,
-                status: 'pending',
-              },
-            };
-            setCurrentChat((prev) => {
-              if (!prev) return null;
-              return {
-                ...prev,
-                messages: [...prev.messages, approvalMessage],
-                updatedAt: new Date(),
-              };
-            });
-          });
-        },
-        selectedModel,
-        customModels,
-        apiKey,
-        hfApiKey,
-        geminiApiKey,
-        handleStream, // Pass the streaming callback
-        historyMessages
+      // Fold older turns into the chat's rolling summary when the history nears the context limit
+      const { history: historyMessages, summary: contextSummary } = await contextManager.prepareChatHistory(
+        chatHistory,
+        updatedChat.contextSummary,
+        {
+          model: selectedModel,
+          customModels,
+          ...keys,
+          reserveTokens: estimateTokens(agentInput),
+          signal: abortController.signal,
+        }
       );
-
-      console.log('=== AGENT EXECUTION COMPLETE ===');
-      console.log('Success:', result.success);
-      console.log('Steps completed:', result.stepsCompleted);
-      console.log('Steps failed:', result.stepsFailed);
-      console.log('Final output length:', result.finalOutput?.length || 0);
-      console.log('Final output preview:', result.finalOutput?.substring(0, 300) || 'No output');
-      console.log('Has conversational response:', !!result.plan?.conversationalResponse);
-      console.log('Has tool steps:', result.plan?.steps?.length || 0);
-
-      // Complete the background task - it will handle cleanup after 5 seconds
-      backgroundTaskManager.completeTask({ success: result.success, result });
-
-      // Store the goal for task tracker
-      if (result.plan?.goal) {
-        setCurrentGoal(result.plan.goal);
-      }
-
-      // Ensure we have at least one response if nothing was streamed (fallback)
-      if (!streamingMessageIdRef.current && !result.plan?.steps.length) {
-        const finalContent = result.plan?.conversationalResponse || result.finalOutput || 'Done!';
-        console.log('Creating fallback message, content length:', finalContent.length);
-        const summaryMsg: Message = {
-          id: `summary-${Date.now()}`,
-          role: 'assistant',
-          content: finalContent,
-          timestamp: new Date(),
-          gitCheckpointHash: result.gitCheckpointHash,
-        };
-        setCurrentChat((prev) => {
-          if (!prev) return null;
-          return {
-            ...prev,
-            messages: [...prev.messages, summaryMsg],
-            updatedAt: new Date(),
-          };
-        });
-      } else if (streamingMessageIdRef.current) {
-        // Update the streamed message with final output and checkpoint hash
-        setCurrentChat((prev) => {
-          if (!prev) return null;
-          const messages = prev.messages.map(m => {
-            if (m.id === streamingMessageIdRef.current) {
-              // Append final output summary to the existing message
-              const updatedContent = result.finalOutput
-                ? `${m.content}\n\n${result.finalOutput}`
-                : m.content;
-              return {
-                ...m,
-                content: updatedContent,
-                gitCheckpointHash: result.gitCheckpointHash,
-              };
-            }
-            return m;
-          });
-          return { ...prev, messages };
-        });
+      if (contextSummary !== updatedChat.contextSummary) {
+        setCurrentChat((prev) => (prev ? { ...prev, contextSummary } : prev));
       }
 
+      await runAgent(agentInput, historyMessages, selectedModel, customModels, keys, {
+        images,
+        signal: abortController.signal,
+        chatId: updatedChat.id,
+        onPlanReview: reviewPlans ? requestPlanReview : undefined,
+        dryRun,
+        mode: agentMode,
+      });
       console.log('=== SEND MESSAGE COMPLETE ===');
-      setIsTyping(false);
     } catch (error) {
-      console.error('=== AGENT EXECUTION FAILED ===');
-      console.error('Error:', error);
-
-      // Fail the background task
-      backgroundTaskManager.failTask((error as Error).message || 'Unknown error');
-
-      // Show error message to user
-      const errorMsg: Message = {
-        id: `error-${Date.now()}`,
-        role: 'assistant',
-        content: `Sorry, something went wrong: ${(error as Error).message || 'Unknown error'}`,
-        timestamp: new Date(),
-      };
-      setCurrentChat((prev) => {
-        if (!prev) return null;
-        return {
-          ...prev,
-          messages: [...prev.messages, errorMsg],
-          updatedAt: new Date(),
-        };
-      });
-
-      setIsTyping(false);
+      handleAgentError(error);
     }
   };
 
@@ -870,6 +1229,37 @@ export default function ChatScreen() {
     );
   };
 
+  const handleToggleSecretsLock = async () => {
+    try {
+      await secrets.setLocked(!secretsLocked);
+      setSecretsLocked(!secretsLocked);
+    } catch (error: any) {
+      Alert.alert('Lock Secrets', error.message || 'Could not change the lock.');
+    }
+  };
+
+  const handleTogglePin = (messageId: string) => {
+    setCurrentChat((prev) => {
+      if (!prev) return prev;
+      return {
+        ...prev,
+        messages: prev.messages.map((m) => (m.id === messageId ? { ...m, pinned: !m.pinned } : m)),
+      };
+    });
+  };
+
+  // Secret writes throw when the secure store refuses them
+  const saveSecret = async (save: () => Promise<void>, savedMessage: string): Promise<boolean> => {
+    try {
+      await save();
+      Alert.alert('Success', savedMessage);
+      return true;
+    } catch (error: any) {
+      Alert.alert('Not Saved', error.message || 'Failed to save the key.');
+      return false;
+    }
+  };
+
   const handleAddCustomModel = async () => {
     if (!newModelName.trim() || !newModelEndpoint.trim() || !newModelApiKey.trim()) {
       Alert.alert('Error', 'Please fill in all fields');
@@ -884,7 +1274,12 @@ export default function ChatScreen() {
       createdAt: new Date(),
     };
 
-    await storage.saveCustomModel(newModel);
+    try {
+      await storage.saveCustomModel(newModel);
+    } catch (error: any) {
+      Alert.alert('Not Saved', error.message || 'Failed to save the custom model.');
+      return;
+    }
     setCustomModels([newModel, ...customModels]);
     setNewModelName('');
     setNewModelEndpoint('');
@@ -953,6 +1348,14 @@ export default function ChatScreen() {
 
   const handleFileOperationApproval = async (approvedOps: FileOperation[]) => {
     setShowFileApproval(false);
+
+    // Agent step approval: the agent applies the change itself
+    if (fileApprovalResolverRef.current) {
+      fileApprovalResolverRef.current(approvedOps.length > 0);
+      fileApprovalResolverRef.current = null;
+      setPendingFileOperations([]);
+      return;
+    }
     const createdFiles: string[] = [];
 
     for (const op of approvedOps) {
@@ -991,6 +1394,10 @@ export default function ChatScreen() {
   const handleFileOperationReject = () => {
     setShowFileApproval(false);
     setPendingFileOperations([]);
+    if (fileApprovalResolverRef.current) {
+      fileApprovalResolverRef.current(false);
+      fileApprovalResolverRef.current = null;
+    }
   };
 
   return (
@@ -1058,12 +1465,13 @@ export default function ChatScreen() {
                 onApprovalAction={handleInlineApproval}
                 onCopy={handleCopyMessage}
                 onRewind={handleRewindToMessage}
+                onTogglePin={handleTogglePin}
               />
               {message.codeDiff && showDiffs[message.id] && (
                 <CodeDiffViewer
                   diff={message.codeDiff}
                   onClose={() => toggleDiff(message.id)}
-                  onApply={handleApplyCodeDiff}
+                  onApply={message.codeDiff.files ? undefined : handleApplyCodeDiff}
                 />
               )}
               {message.codeDiff && !showDiffs[message.id] && (
@@ -1075,6 +1483,19 @@ export default function ChatScreen() {
                   <Text style={styles.diffButtonText}>View Code Diff</Text>
                 </TouchableOpacity>
               )}
+              {message.dryRun && (
+                <TouchableOpacity
+                  style={styles.diffButton}
+                  onPress={() => setDryRunMessageId(message.id)}
+                >
+                  <Ionicons name="flask-outline" size={14} color={theme.accent} />
+                  <Text style={styles.diffButtonText}>
+                    {message.dryRun.status === 'pending'
+                      ? 'Review Dry Run Changes'
+                      : `Dry Run ${message.dryRun.status === 'applied' ? 'Applied' : 'Discarded'}`}
+                  </Text>
+                </TouchableOpacity>
+              )}
             </View>
           ))}
           {isTyping && <TypingIndicator styles={styles} theme={theme} />}
@@ -1103,6 +1524,27 @@ export default function ChatScreen() {
             </ScrollView>
           )}
 
+          <View style={styles.modeRow}>
+            {Object.values(AGENT_MODES).map((mode) => (
+              <TouchableOpacity
+                key={mode.id}
+                style={[styles.modeChip, agentMode === mode.id && styles.modeChipActive]}
+                onPress={() => handleModeChange(mode.id)}
+                disabled={isTyping}
+              >
+                <Ionicons
+                  name={mode.icon as any}
+                  size={12}
+                  color={agentMode === mode.id ? theme.accent : theme.textSecondary}
+                />
+                <Text style={[styles.modeChipText, agentMode === mode.id && styles.modeChipTextActive]}>
+                  {mode.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+            <Text style={styles.modeDescription} numberOfLines={1}>{AGENT_MODES[agentMode].description}</Text>
+          </View>
+
           <View style={styles.inputRow}>
             <TouchableOpacity onPress={() => setShowModelPicker(true)} style={styles.modelIconButton}>
               <Ionicons name="sparkles" size={16} color={theme.accent} />
@@ -1169,7 +1611,9 @@ export default function ChatScreen() {
                   <Ionicons name={model.icon as any} size={18} color={selectedModel === model.id ? theme.accent : theme.text} />
                   <View style={styles.pickerOptionText}>
                     <Text style={[styles.pickerName, selectedModel === model.id && { color: theme.accent }]}>{model.name}</Text>
-                    <Text style={styles.pickerDesc}>{model.description}</Text>
+                    <Text style={styles.pickerDesc}>
+                      {model.description}{hasKnownPrice(model.id) ? '' : ' · No cost estimate'}
+                    </Text>
                   </View>
                 </TouchableOpacity>
               ))}
@@ -1182,7 +1626,7 @@ export default function ChatScreen() {
                   <Ionicons name="key" size={18} color={selectedModel === model.id ? theme.accent : theme.text} />
                   <View style={styles.pickerOptionText}>
                     <Text style={[styles.pickerName, selectedModel === model.id && { color: theme.accent }]}>{model.name}</Text>
-                    <Text style={styles.pickerDesc}>Custom model</Text>
+                    <Text style={styles.pickerDesc}>Custom model · No cost estimate</Text>
                   </View>
                 </TouchableOpacity>
               ))}
@@ -1291,11 +1735,31 @@ export default function ChatScreen() {
         onClose={() => setShowMCPManager(false)}
       />
 
+      <ApprovalRulesManager
+        visible={showApprovalRules}
+        onClose={() => setShowApprovalRules(false)}
+      />
+
+      <ProjectMemoryEditor
+        visible={showProjectMemory}
+        onClose={() => setShowProjectMemory(false)}
+      />
+
+      <ChangeSetViewer
+        visible={!!dryRunMessage}
+        title={dryRunMessage?.dryRun?.goal || ''}
+        changes={dryRunChanges}
+        onClose={() => setDryRunMessageId(null)}
+        onApply={dryRunMessage?.dryRun?.status === 'pending' ? () => handleApplyDryRun(dryRunMessage) : undefined}
+        onDiscard={dryRunMessage?.dryRun?.status === 'pending' ? () => handleDiscardDryRun(dryRunMessage) : undefined}
+      />
+
       <TaskTracker
         visible={showTaskTracker}
         onClose={() => setShowTaskTracker(false)}
         steps={agentSteps}
         goal={currentGoal || 'No active task'}
+        review={planReview}
       />
 
       <GitPanel
@@ -1390,9 +1854,9 @@ export default function ChatScreen() {
                     <TouchableOpacity
                       style={styles.saveButton}
                       onPress={async () => {
-                        await storage.setOpenAIKey(openAIKey);
-                        setShowOpenAIInput(false);
-                        Alert.alert('Success', 'OpenAI API key saved');
+                        if (await saveSecret(() => storage.setOpenAIKey(openAIKey), 'OpenAI API key saved')) {
+                          setShowOpenAIInput(false);
+                        }
                       }}
                     >
                       <Text style={styles.saveButtonText}>Save</Text>
@@ -1424,10 +1888,7 @@ export default function ChatScreen() {
                   />
                   <TouchableOpacity
                     style={styles.saveButton}
-                    onPress={async () => {
-                      await storage.setAnthropicKey(anthropicKey);
-                      Alert.alert('Success', 'Anthropic API key saved');
-                    }}
+                    onPress={() => saveSecret(() => storage.setAnthropicKey(anthropicKey), 'Anthropic API key saved')}
                   >
                     <Text style={styles.saveButtonText}>Save</Text>
                   </TouchableOpacity>
@@ -1457,10 +1918,7 @@ export default function ChatScreen() {
                   />
                   <TouchableOpacity
                     style={styles.saveButton}
-                    onPress={async () => {
-                      await storage.setGeminiKey(geminiKey);
-                      Alert.alert('Success', 'Gemini API key saved');
-                    }}
+                    onPress={() => saveSecret(() => storage.setGeminiKey(geminiKey), 'Gemini API key saved')}
                   >
                     <Text style={styles.saveButtonText}>Save</Text>
                   </TouchableOpacity>
@@ -1490,10 +1948,7 @@ export default function ChatScreen() {
                   />
                   <TouchableOpacity
                     style={styles.saveButton}
-                    onPress={async () => {
-                      await storage.setOpenRouterKey(openRouterKey);
-                      Alert.alert('Success', 'OpenRouter key saved');
-                    }}
+                    onPress={() => saveSecret(() => storage.setOpenRouterKey(openRouterKey), 'OpenRouter key saved')}
                   >
                     <Text style={styles.saveButtonText}>Save</Text>
                   </TouchableOpacity>
@@ -1523,10 +1978,7 @@ export default function ChatScreen() {
                   />
                   <TouchableOpacity
                     style={styles.saveButton}
-                    onPress={async () => {
-                      await storage.setGlmKey(glmKey);
-                      Alert.alert('Success', 'GLM API key saved');
-                    }}
+                    onPress={() => saveSecret(() => storage.setGlmKey(glmKey), 'GLM API key saved')}
                   >
                     <Text style={styles.saveButtonText}>Save</Text>
                   </TouchableOpacity>
@@ -1724,6 +2176,151 @@ export default function ChatScreen() {
                 </View>
               </View>
 
+              <View style={styles.settingSection}>
+                <Text style={styles.sectionTitle}>Agent</Text>
+                <TouchableOpacity style={styles.settingItem} onPress={handleToggleReviewPlans}>
+                  <Ionicons name="list" size={20} color={theme.accent} />
+                  <View style={styles.settingInfo}>
+                    <Text style={styles.settingLabel}>Review Plans</Text>
+                    <Text style={styles.settingValue}>
+                      {reviewPlans
+                        ? 'On - in Plan mode, edit the plan in the task tracker and tap Run plan'
+                        : 'Off - Plan mode replies with the plan as a message'}
+                    </Text>
+                  </View>
+                  <View style={styles.switchContainer}>
+                    <View style={[styles.switch, reviewPlans && styles.switchActive]}>
+                      <View style={[styles.switchKnob, reviewPlans && styles.switchKnobActive]} />
+                    </View>
+                  </View>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.settingItem} onPress={handleToggleDryRun}>
+                  <Ionicons name="flask-outline" size={20} color={theme.accent} />
+                  <View style={styles.settingInfo}>
+                    <Text style={styles.settingLabel}>Dry Run</Text>
+                    <Text style={styles.settingValue}>
+                      {dryRun
+                        ? 'On - runs change an in-memory copy; review and apply the result'
+                        : 'Off - runs write to the project'}
+                    </Text>
+                  </View>
+                  <View style={styles.switchContainer}>
+                    <View style={[styles.switch, dryRun && styles.switchActive]}>
+                      <View style={[styles.switchKnob, dryRun && styles.switchKnobActive]} />
+                    </View>
+                  </View>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.settingItem}
+                  onPress={() => updateAgentSettings({ maxTurns: nextChoice(MAX_TURNS_CHOICES, maxTurns) })}
+                >
+                  <Ionicons name="repeat" size={20} color={theme.accent} />
+                  <View style={styles.settingInfo}>
+                    <Text style={styles.settingLabel}>Max Turns</Text>
+                    <Text style={styles.settingValue}>{maxTurns} planning rounds per run; tap to change</Text>
+                  </View>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.settingItem}
+                  onPress={() => updateAgentSettings({ maxSteps: nextChoice(MAX_STEPS_CHOICES, maxSteps) })}
+                >
+                  <Ionicons name="footsteps-outline" size={20} color={theme.accent} />
+                  <View style={styles.settingInfo}>
+                    <Text style={styles.settingLabel}>Max Steps</Text>
+                    <Text style={styles.settingValue}>{maxSteps} tool steps per run; tap to change</Text>
+                  </View>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.settingItem} onPress={() => setShowApprovalRules(true)}>
+                  <Ionicons name="shield-checkmark" size={20} color={theme.accent} />
+                  <View style={styles.settingInfo}>
+                    <Text style={styles.settingLabel}>Approval Rules</Text>
+                    <Text style={styles.settingValue}>Choose which steps run, ask first or are refused</Text>
+                  </View>
+                  <Ionicons name="chevron-forward" size={20} color={theme.textSecondary} />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.settingItem} onPress={() => setShowProjectMemory(true)}>
+                  <Ionicons name="bulb" size={20} color={theme.accent} />
+                  <View style={styles.settingInfo}>
+                    <Text style={styles.settingLabel}>Project Memory</Text>
+                    <Text style={styles.settingValue}>Instructions and facts loaded into every conversation</Text>
+                  </View>
+                  <Ionicons name="chevron-forward" size={20} color={theme.textSecondary} />
+                </TouchableOpacity>
+              </View>
+
+              <View style={styles.settingSection}>
+                <Text style={styles.sectionTitle}>Security</Text>
+                <TouchableOpacity style={styles.settingItem} onPress={handleToggleSecretsLock}>
+                  <Ionicons
+                    name={secretsLocked ? 'lock-closed' : 'lock-open-outline'}
+                    size={20}
+                    color={secretsLocked ? theme.accent : theme.textSecondary}
+                  />
+                  <View style={styles.settingInfo}>
+                    <Text style={styles.settingLabel}>Lock Secrets</Text>
+                    <Text style={styles.settingValue}>
+                      {!secrets.isEncrypted()
+                        ? 'Web - keys are stored unencrypted in browser storage'
+                        : secretsLocked
+                          ? 'On - the agent needs Face ID, fingerprint or passcode to push'
+                          : 'Off - keys are encrypted on device; tap to require authentication for pushes'}
+                    </Text>
+                  </View>
+                </TouchableOpacity>
+              </View>
+
+              <View style={styles.settingSection}>
+                <Text style={styles.sectionTitle}>Usage</Text>
+                <View style={styles.settingItem}>
+                  <Ionicons name="chatbubble-ellipses" size={20} color={theme.accent} />
+                  <View style={styles.settingInfo}>
+                    <Text style={styles.settingLabel}>This Chat</Text>
+                    <Text style={styles.settingValue}>{formatUsage(usageSummary?.chat || null)}</Text>
+                  </View>
+                </View>
+                <View style={styles.settingItem}>
+                  <Ionicons name="today" size={20} color={theme.accent} />
+                  <View style={styles.settingInfo}>
+                    <Text style={styles.settingLabel}>Today</Text>
+                    <Text style={styles.settingValue}>{formatUsage(usageSummary?.today || null)}</Text>
+                  </View>
+                </View>
+                <View style={styles.settingItem}>
+                  <Ionicons name="calendar" size={20} color={theme.accent} />
+                  <View style={styles.settingInfo}>
+                    <Text style={styles.settingLabel}>Last 7 Days</Text>
+                    <Text style={styles.settingValue}>{formatUsage(usageSummary?.last7Days || null)}</Text>
+                  </View>
+                </View>
+                {!!usageSummary && usageSummary.last7Days.unpricedRequests > 0 && (
+                  <Text style={styles.usageNote}>
+                    Costs are estimates from list prices. "+" means some requests used models marked "No cost estimate" in the model list.
+                  </Text>
+                )}
+                <TouchableOpacity
+                  style={styles.settingItem}
+                  onPress={() => {
+                    Alert.alert('Reset Usage', 'Clear all recorded token usage and cost totals?', [
+                      { text: 'Cancel', style: 'cancel' },
+                      {
+                        text: 'Reset',
+                        style: 'destructive',
+                        onPress: async () => {
+                          await usageTracker.reset();
+                          setUsageSummary(await usageTracker.getSummary(currentChat?.id || null));
+                        },
+                      },
+                    ]);
+                  }}
+                >
+                  <Ionicons name="refresh" size={20} color={theme.textSecondary} />
+                  <View style={styles.settingInfo}>
+                    <Text style={styles.settingLabel}>Reset Usage</Text>
+                    <Text style={styles.settingValue}>Clear token and cost totals</Text>
+                  </View>
+                </TouchableOpacity>
+              </View>
+
               <View style={styles.settingSection}>
                 <Text style={styles.sectionTitle}>Storage</Text>
                 <TouchableOpacity
@@ -1770,6 +2367,7 @@ function MessageBubble({
   onApprovalAction,
   onCopy,
   onRewind,
+  onTogglePin,
 }: {
   message: Message;
   styles: any;
@@ -1777,6 +2375,7 @@ function MessageBubble({
   onApprovalAction: (messageId: string, approved: boolean) => void;
   onCopy: (content: string) => void;
   onRewind: (messageId: string) => void;
+  onTogglePin: (messageId: string) => void;
 }) {
   const isUser = message.role === 'user';
   const isApproval = !!message.approval;
@@ -1848,6 +2447,19 @@ function MessageBubble({
           >
             <Ionicons name="arrow-undo-outline" size={14} color={theme.textSecondary} />
           </TouchableOpacity>
+          {!isApproval && (
+            <TouchableOpacity
+              style={styles.messageActionButton}
+              onPress={() => onTogglePin(message.id)}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Ionicons
+                name={message.pinned ? 'pin' : 'pin-outline'}
+                size={14}
+                color={message.pinned ? theme.accent : theme.textSecondary}
+              />
+            </TouchableOpacity>
+          )}
         </View>
       </View>
     </View>
@@ -1883,16 +2495,21 @@ function ApprovalInlineCard({
     const nameMap: Record<string, string> = {
       'read_file': '📂 Reading file',
       'write_file': '✍️ Writing file',
+      'edit_file': '✏️ Editing file',
       'create_file': '📝 Creating file',
       'delete_file': '🗑️ Deleting file',
       'list_directory': '📋 Listing folder',
       'search_files': '🔍 Searching files',
+      'replace_in_files': '🔁 Replacing in files',
       'run_command': '⚡ Running command',
       'find_files': '🔎 Finding files',
       'append_file': '📎 Appending to file',
+      'remember': '🧠 Remembering',
       'file_info': 'ℹ️ Getting file info',
       'count_lines': '📊 Counting lines',
       'list_imports': '📦 Listing imports',
+      'find_symbol': '🧭 Finding symbol',
+      'find_references': '🔗 Finding references',
       'create_component': '🧩 Creating component',
       'npm_info': '📦 Getting package info',
       'npm_install': '⬇️ Installing packages',
@@ -1912,7 +2529,7 @@ function ApprovalInlineCard({
   };
 
   const getRiskLevel = (toolName: string) => {
-    const highRisk = ['write_file', 'delete_file', 'run_command', 'create_file', 'git_init', 'git_commit', 'git_set_remote', 'git_clone', 'git_pull', 'git_push'];
+    const highRisk = ['write_file', 'edit_file', 'delete_file', 'run_command', 'create_file', 'git_init', 'git_commit', 'git_set_remote', 'git_clone', 'git_pull', 'git_push'];
     const mediumRisk = ['update_package_json', 'init_project', 'npm_install'];
 
     if (highRisk.includes(toolName)) return { level: 'high', color: theme.error, icon: 'warning' };
@@ -2373,6 +2990,41 @@ const createStyles = (theme: Theme) => StyleSheet.create({
     paddingHorizontal: 4,
     gap: 6,
   },
+  modeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 4,
+    marginBottom: 6,
+  },
+  modeChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    borderRadius: 999,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderWidth: 1,
+    borderColor: theme.border,
+    backgroundColor: theme.surface,
+  },
+  modeChipActive: {
+    borderColor: theme.accent,
+    backgroundColor: `${theme.accent}15`,
+  },
+  modeChipText: {
+    fontSize: 12,
+    color: theme.textSecondary,
+  },
+  modeChipTextActive: {
+    color: theme.accent,
+    fontWeight: '600',
+  },
+  modeDescription: {
+    flex: 1,
+    fontSize: 11,
+    color: theme.textSecondary,
+  },
   modelRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -2965,6 +3617,12 @@ const createStyles = (theme: Theme) => StyleSheet.create({
     fontSize: 12,
     color: theme.textSecondary,
   },
+  usageNote: {
+    fontSize: 11,
+    color: theme.textSecondary,
+    marginTop: 4,
+    marginBottom: 4,
+  },
   progressBar: {
     height: 6,
     backgroundColor: theme.border,
@@ -37,7 +37,7 @@ export function AgentApproval({ visible, step, onApprove, onDeny }: AgentApprova
   };
 
   const getRiskLevel = (toolName: string) => {
-    const highRisk = ['write_file', 'delete_file', 'run_command', 'create_file'];
+    const highRisk = ['write_file', 'edit_file', 'delete_file', 'run_command', 'create_file'];
     const mediumRisk = ['update_package_json', 'init_project'];
 
     if (highRisk.includes(toolName)) return { level: 'high', color: theme.error, icon: 'warning' };
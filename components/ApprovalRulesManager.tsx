@@ -0,0 +1,335 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Modal,
+  Alert,
+  Switch,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme, Theme } from '../context/ThemeContext';
+import { approvalPolicy, describeRule, RULE_CATEGORIES, TOOL_CATEGORIES } from '../utils/approvalPolicy';
+import { ApprovalEffect, ApprovalRule } from '../utils/storage';
+
+interface ApprovalRulesManagerProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const EFFECTS: { value: ApprovalEffect; label: string }[] = [
+  { value: 'allow', label: 'Auto-approve' },
+  { value: 'ask', label: 'Always ask' },
+  { value: 'deny', label: 'Never allow' },
+];
+
+const PRESETS: { label: string; rule: Omit<ApprovalRule, 'id' | 'createdAt'> }[] = [
+  { label: 'Auto-approve reads', rule: { target: 'read', effect: 'allow' } },
+  { label: 'Always ask for delete', rule: { target: 'delete', effect: 'ask' } },
+  { label: 'Allow writes under src/ (session)', rule: { target: 'write', pathPrefix: 'src', effect: 'allow', session: true } },
+  { label: 'Never allow git_push', rule: { target: 'git_push', effect: 'deny' } },
+];
+
+export function ApprovalRulesManager({ visible, onClose }: ApprovalRulesManagerProps) {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const [rules, setRules] = useState<ApprovalRule[]>([]);
+  const [target, setTarget] = useState('read');
+  const [pathPrefix, setPathPrefix] = useState('');
+  const [effect, setEffect] = useState<ApprovalEffect>('allow');
+  const [sessionOnly, setSessionOnly] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      loadRules();
+    }
+  }, [visible]);
+
+  const loadRules = async () => {
+    setRules(await approvalPolicy.getRules());
+  };
+
+  const handleAddRule = async (rule: Omit<ApprovalRule, 'id' | 'createdAt'>) => {
+    const name = rule.target.trim();
+    if (name !== '*' && !RULE_CATEGORIES.includes(name as any) && !TOOL_CATEGORIES[name] && !name.includes('/')) {
+      Alert.alert('Unknown Tool', `"${name}" is not a tool or category. MCP tools are written as server/tool.`);
+      return;
+    }
+    await approvalPolicy.addRule({ ...rule, target: name });
+    setPathPrefix('');
+    await loadRules();
+  };
+
+  const handleRemoveRule = async (id: string) => {
+    await approvalPolicy.removeRule(id);
+    await loadRules();
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Approval Rules</Text>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+            <Ionicons name="close" size={24} color={theme.text} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+          <View style={styles.section}>
+            <Text style={styles.hint}>
+              Rules decide on this device whether an agent step runs, asks first or is refused. "Never allow"
+              always wins; otherwise the most specific rule applies. Without a matching rule, each tool's own
+              setting decides.
+            </Text>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Active Rules</Text>
+            {rules.length === 0 ? (
+              <Text style={styles.emptyText}>No rules - tool defaults apply</Text>
+            ) : (
+              rules.map((rule) => (
+                <View key={rule.id} style={styles.ruleItem}>
+                  <Ionicons
+                    name={rule.effect === 'allow' ? 'checkmark-circle' : rule.effect === 'deny' ? 'ban' : 'help-circle'}
+                    size={18}
+                    color={rule.effect === 'allow' ? theme.success : rule.effect === 'deny' ? theme.error : theme.warning}
+                  />
+                  <Text style={styles.ruleText}>{describeRule(rule)}</Text>
+                  <TouchableOpacity onPress={() => handleRemoveRule(rule.id)} style={styles.headerButton}>
+                    <Ionicons name="trash-outline" size={18} color={theme.error} />
+                  </TouchableOpacity>
+                </View>
+              ))
+            )}
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Quick Add</Text>
+            <View style={styles.chipRow}>
+              {PRESETS.map((preset) => (
+                <TouchableOpacity key={preset.label} style={styles.chip} onPress={() => handleAddRule(preset.rule)}>
+                  <Text style={styles.chipText}>{preset.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>New Rule</Text>
+            <View style={styles.form}>
+              <Text style={styles.label}>Applies to</Text>
+              <View style={styles.chipRow}>
+                {['*', ...RULE_CATEGORIES].map((category) => (
+                  <TouchableOpacity
+                    key={category}
+                    style={[styles.chip, target === category && styles.chipActive]}
+                    onPress={() => setTarget(category)}
+                  >
+                    <Text style={[styles.chipText, target === category && styles.chipTextActive]}>
+                      {category === '*' ? 'all tools' : category}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <TextInput
+                style={styles.input}
+                value={target}
+                onChangeText={setTarget}
+                placeholder="Category or tool name (e.g. git_push)"
+                placeholderTextColor={theme.placeholder}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+
+              <Text style={styles.label}>Only under folder (optional)</Text>
+              <TextInput
+                style={styles.input}
+                value={pathPrefix}
+                onChangeText={setPathPrefix}
+                placeholder="e.g. src"
+                placeholderTextColor={theme.placeholder}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+
+              <Text style={styles.label}>Decision</Text>
+              <View style={styles.chipRow}>
+                {EFFECTS.map(({ value, label }) => (
+                  <TouchableOpacity
+                    key={value}
+                    style={[styles.chip, effect === value && styles.chipActive]}
+                    onPress={() => setEffect(value)}
+                  >
+                    <Text style={[styles.chipText, effect === value && styles.chipTextActive]}>{label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <View style={styles.toggleRow}>
+                <View style={styles.toggleLabel}>
+                  <Text style={styles.toggleTitle}>This session only</Text>
+                  <Text style={styles.toggleSubtitle}>Forgotten when the app restarts</Text>
+                </View>
+                <Switch
+                  value={sessionOnly}
+                  onValueChange={setSessionOnly}
+                  trackColor={{ false: theme.border, true: theme.accent }}
+                />
+              </View>
+
+              <TouchableOpacity
+                style={styles.addButton}
+                onPress={() => handleAddRule({ target, pathPrefix, effect, session: sessionOnly })}
+              >
+                <Ionicons name="add-circle" size={18} color="#fff" />
+                <Text style={styles.addButtonText}>Add Rule</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: theme.text,
+  },
+  headerButton: {
+    padding: 4,
+  },
+  content: {
+    flex: 1,
+  },
+  section: {
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.text,
+    marginBottom: 12,
+  },
+  hint: {
+    fontSize: 13,
+    color: theme.textSecondary,
+    lineHeight: 19,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: theme.textSecondary,
+  },
+  ruleItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 8,
+  },
+  ruleText: {
+    flex: 1,
+    fontSize: 14,
+    color: theme.text,
+  },
+  form: {
+    gap: 8,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.textSecondary,
+    marginTop: 4,
+  },
+  input: {
+    backgroundColor: theme.inputBackground,
+    borderWidth: 1,
+    borderColor: theme.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: theme.text,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.border,
+    backgroundColor: theme.surface,
+  },
+  chipActive: {
+    borderColor: theme.accent,
+    backgroundColor: `${theme.accent}20`,
+  },
+  chipText: {
+    fontSize: 13,
+    color: theme.text,
+  },
+  chipTextActive: {
+    color: theme.accent,
+    fontWeight: '600',
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    paddingVertical: 4,
+  },
+  toggleLabel: {
+    flex: 1,
+  },
+  toggleTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.text,
+  },
+  toggleSubtitle: {
+    fontSize: 12,
+    color: theme.textSecondary,
+    marginTop: 2,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: theme.accent,
+    borderRadius: 8,
+    paddingVertical: 12,
+    marginTop: 8,
+  },
+  addButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#fff',
+  },
+});
@@ -0,0 +1,201 @@
+import React, { useState, useMemo } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet, Modal } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme, Theme } from '../context/ThemeContext';
+import { FileChange } from '../utils/fileOverlay';
+import { CodeDiffViewer } from './CodeDiffViewer';
+
+interface ChangeSetViewerProps {
+  visible: boolean;
+  title: string;
+  changes: FileChange[];
+  onClose: () => void;
+  onApply?: () => void; // Hidden once the changeset was applied or discarded
+  onDiscard?: () => void;
+}
+
+const CHANGE_ICONS: Record<FileChange['type'], string> = {
+  created: 'add-circle',
+  modified: 'create',
+  deleted: 'trash',
+};
+
+export function ChangeSetViewer({ visible, title, changes, onClose, onApply, onDiscard }: ChangeSetViewerProps) {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const colorFor = (type: FileChange['type']) =>
+    type === 'created' ? theme.success : type === 'deleted' ? theme.error : theme.warning;
+
+  const counts = (['created', 'modified', 'deleted'] as const)
+    .map((type) => ({ type, count: changes.filter((c) => c.type === type).length }))
+    .filter(({ count }) => count > 0);
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>Dry Run Changes</Text>
+            <Text style={styles.headerSubtitle} numberOfLines={1}>{title}</Text>
+          </View>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+            <Ionicons name="close" size={24} color={theme.text} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.summary}>
+          {counts.length === 0 ? (
+            <Text style={styles.summaryText}>No files would change</Text>
+          ) : (
+            counts.map(({ type, count }) => (
+              <Text key={type} style={[styles.summaryText, { color: colorFor(type) }]}>
+                {count} {type}
+              </Text>
+            ))
+          )}
+        </View>
+
+        <ScrollView style={styles.content}>
+          {changes.map((change) => (
+            <View key={change.path} style={styles.changeItem}>
+              <TouchableOpacity
+                style={styles.changeHeader}
+                onPress={() => setExpanded(expanded === change.path ? null : change.path)}
+              >
+                <Ionicons name={CHANGE_ICONS[change.type] as any} size={18} color={colorFor(change.type)} />
+                <Text style={styles.changePath} numberOfLines={1}>{change.path}</Text>
+                <Text style={[styles.changeType, { color: colorFor(change.type) }]}>{change.type.toUpperCase()}</Text>
+                <Ionicons name={expanded === change.path ? 'chevron-up' : 'chevron-down'} size={16} color={theme.textSecondary} />
+              </TouchableOpacity>
+              {expanded === change.path && (
+                <CodeDiffViewer
+                  diff={{
+                    filename: change.path,
+                    oldCode: change.oldContent,
+                    newCode: change.newContent,
+                    language: change.path.split('.').pop()?.toLowerCase() || 'text',
+                  }}
+                />
+              )}
+            </View>
+          ))}
+        </ScrollView>
+
+        {(onApply || onDiscard) && (
+          <View style={styles.footer}>
+            {onDiscard && (
+              <TouchableOpacity style={[styles.footerButton, styles.discardButton]} onPress={onDiscard}>
+                <Ionicons name="trash-outline" size={18} color={theme.error} />
+                <Text style={[styles.footerButtonText, { color: theme.error }]}>Discard</Text>
+              </TouchableOpacity>
+            )}
+            {onApply && changes.length > 0 && (
+              <TouchableOpacity style={[styles.footerButton, styles.applyButton]} onPress={onApply}>
+                <Ionicons name="checkmark-circle" size={18} color="#fff" />
+                <Text style={[styles.footerButtonText, { color: '#fff' }]}>Apply Changes</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border,
+  },
+  headerText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: theme.text,
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    color: theme.textSecondary,
+    marginTop: 2,
+  },
+  headerButton: {
+    padding: 4,
+  },
+  summary: {
+    flexDirection: 'row',
+    gap: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border,
+  },
+  summaryText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.textSecondary,
+  },
+  content: {
+    flex: 1,
+  },
+  changeItem: {
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border,
+  },
+  changeHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  changePath: {
+    flex: 1,
+    fontSize: 14,
+    color: theme.text,
+  },
+  changeType: {
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  footer: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: theme.border,
+  },
+  footerButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    borderRadius: 8,
+    paddingVertical: 12,
+  },
+  discardButton: {
+    borderWidth: 1,
+    borderColor: theme.error,
+  },
+  applyButton: {
+    backgroundColor: theme.accent,
+  },
+  footerButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
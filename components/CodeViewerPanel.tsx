@@ -8,10 +8,13 @@ import {
   Dimensions,
   Animated,
   Platform,
+  Alert,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme, Theme } from '../context/ThemeContext';
 import { fileManager, FileNode } from '../utils/fileManager';
+import { toProjectPath } from '../utils/projectPaths';
+import { symbolIndex, parseSymbols, CodeSymbol } from '../utils/symbolIndex';
 
 interface CodeViewerPanelProps {
   visible: boolean;
@@ -21,6 +24,36 @@ interface CodeViewerPanelProps {
 }
 
 const SCREEN_WIDTH = Dimensions.get('window').width;
+const LINE_HEIGHT = 18;
+const CODE_PADDING = 12;
+
+const SYMBOL_ICONS: Record<CodeSymbol['kind'], string> = {
+  function: 'code-slash-outline',
+  component: 'cube-outline',
+  class: 'layers-outline',
+  interface: 'shapes-outline',
+  type: 'pricetag-outline',
+  enum: 'list-outline',
+  variable: 'ellipse-outline',
+};
+
+interface SymbolList {
+  title: string;
+  symbols: CodeSymbol[];
+}
+
+// Where go-to-definition came from, so the back button can return there
+interface Location {
+  file: FileNode;
+  line: number;
+}
+
+const toFileNode = (uri: string): FileNode => ({
+  id: uri,
+  name: uri.split('/').pop() || uri,
+  type: 'file',
+  path: uri,
+});
 
 export function CodeViewerPanel({ visible, file, onClose, onExpand }: CodeViewerPanelProps) {
   const { theme } = useTheme();
@@ -29,14 +62,34 @@ export function CodeViewerPanel({ visible, file, onClose, onExpand }: CodeViewer
   const [loading, setLoading] = useState(false);
   const [panelWidth] = useState(SCREEN_WIDTH * 0.6);
   const [isExpanded, setIsExpanded] = useState(false);
+  const [currentFile, setCurrentFile] = useState<FileNode | null>(file);
+  const [backStack, setBackStack] = useState<Location[]>([]);
+  const [symbolList, setSymbolList] = useState<SymbolList | null>(null);
+  const [targetLine, setTargetLine] = useState<number | null>(null);
 
   const animatedWidth = useRef(new Animated.Value(0)).current;
+  const scrollRef = useRef<ScrollView>(null);
+  const scrollY = useRef(0);
+  const pendingScroll = useRef<number | null>(null);
+
+  const currentPath = currentFile ? toProjectPath(currentFile.path) || currentFile.name : '';
+  const outline = useMemo(
+    () => (currentFile ? parseSymbols(currentPath, currentFile.path, content) : []),
+    [currentFile, currentPath, content]
+  );
 
   useEffect(() => {
-    if (visible && file) {
+    setCurrentFile(file);
+    setBackStack([]);
+    setSymbolList(null);
+    setTargetLine(null);
+  }, [file]);
+
+  useEffect(() => {
+    if (visible && currentFile) {
       loadFileContent();
     }
-  }, [visible, file]);
+  }, [visible, currentFile]);
 
   useEffect(() => {
     Animated.timing(animatedWidth, {
@@ -47,10 +100,10 @@ export function CodeViewerPanel({ visible, file, onClose, onExpand }: CodeViewer
   }, [visible, panelWidth]);
 
   const loadFileContent = async () => {
-    if (!file) return;
+    if (!currentFile) return;
     setLoading(true);
     try {
-      const fileContent = await fileManager.readFile(file.path);
+      const fileContent = await fileManager.readFile(currentFile.path);
       setContent(fileContent);
     } catch (error) {
       console.error('Error loading file:', error);
@@ -60,6 +113,74 @@ export function CodeViewerPanel({ visible, file, onClose, onExpand }: CodeViewer
     }
   };
 
+  const scrollToLine = (line: number) => {
+    setTargetLine(line);
+    scrollRef.current?.scrollTo({ y: Math.max(0, (line - 3) * LINE_HEIGHT + CODE_PADDING), animated: true });
+  };
+
+  const openSymbol = (symbol: CodeSymbol) => {
+    setSymbolList(null);
+    if (currentFile && symbol.uri === currentFile.path) {
+      scrollToLine(symbol.line);
+      return;
+    }
+    if (currentFile) {
+      const line = Math.floor(scrollY.current / LINE_HEIGHT) + 1;
+      setBackStack((stack) => [...stack, { file: currentFile, line }]);
+    }
+    // Scrolled once the new file's content has been laid out
+    pendingScroll.current = symbol.line;
+    setTargetLine(symbol.line);
+    setCurrentFile(toFileNode(symbol.uri));
+  };
+
+  const goBack = () => {
+    const previous = backStack[backStack.length - 1];
+    if (!previous) return;
+    setBackStack((stack) => stack.slice(0, -1));
+    setSymbolList(null);
+    pendingScroll.current = previous.line;
+    setTargetLine(null);
+    setCurrentFile(previous.file);
+  };
+
+  const handleContentSizeChange = () => {
+    if (pendingScroll.current === null || loading) return;
+    const line = pendingScroll.current;
+    pendingScroll.current = null;
+    scrollRef.current?.scrollTo({ y: Math.max(0, (line - 3) * LINE_HEIGHT + CODE_PADDING), animated: false });
+  };
+
+  /**
+   * Go to the project definition of a name used on the line, asking which one
+   * when the line uses several
+   */
+  const goToDefinition = async (line: string, lineNumber: number) => {
+    const names = Array.from(new Set(line.match(/[A-Za-z_$][\w$]*/g) || []));
+    if (names.length === 0) return;
+    try {
+      const symbols = await symbolIndex.refresh();
+      const definitions = symbols
+        .filter((symbol) => names.includes(symbol.name))
+        .filter((symbol) => !(symbol.path === currentPath && symbol.line === lineNumber))
+        .sort((a, b) =>
+          names.indexOf(a.name) - names.indexOf(b.name) ||
+          Number(b.path === currentPath) - Number(a.path === currentPath) ||
+          Number(b.exported) - Number(a.exported));
+
+      if (definitions.length === 0) {
+        Alert.alert('Go to Definition', 'No project definition found for the names on this line.');
+      } else if (definitions.length === 1) {
+        openSymbol(definitions[0]);
+      } else {
+        setSymbolList({ title: 'Go to Definition', symbols: definitions });
+      }
+    } catch (error: any) {
+      console.error('Error finding definition:', error);
+      Alert.alert('Go to Definition', error.message || 'Could not search the project');
+    }
+  };
+
   const getLanguageFromFile = (filename: string): string => {
     const ext = filename.split('.').pop()?.toLowerCase();
     const languageMap: Record<string, string> = {
@@ -98,7 +219,11 @@ export function CodeViewerPanel({ visible, file, onClose, onExpand }: CodeViewer
         {lines.map((line, lineIndex) => {
           const highlighted = highlightLine(line, language);
           return (
-            <Text key={lineIndex} style={styles.codeLine}>
+            <Text
+              key={lineIndex}
+              style={[styles.codeLine, targetLine === lineIndex + 1 && styles.targetLine]}
+              onLongPress={() => goToDefinition(line, lineIndex + 1)}
+            >
               <Text style={styles.lineNumber}>{(lineIndex + 1).toString().padStart(3, ' ')}</Text>
               {highlighted}
             </Text>
@@ -170,7 +295,42 @@ export function CodeViewerPanel({ visible, file, onClose, onExpand }: CodeViewer
 
   if (!visible) return null;
 
-  const language = file ? getLanguageFromFile(file.name) : 'text';
+  const language = currentFile ? getLanguageFromFile(currentFile.name) : 'text';
+
+  const renderSymbolList = (list: SymbolList) => (
+    <View style={styles.symbolPanel}>
+      <View style={styles.symbolHeader}>
+        <Text style={styles.symbolTitle}>{list.title}</Text>
+        <TouchableOpacity onPress={() => setSymbolList(null)} style={styles.iconButton}>
+          <Ionicons name="close" size={18} color={theme.textSecondary} />
+        </TouchableOpacity>
+      </View>
+      <ScrollView nestedScrollEnabled>
+        {list.symbols.length === 0 ? (
+          <Text style={styles.emptyText}>No declarations found</Text>
+        ) : (
+          list.symbols.map((symbol) => (
+            <TouchableOpacity
+              key={`${symbol.path}:${symbol.line}:${symbol.name}`}
+              style={styles.symbolItem}
+              onPress={() => openSymbol(symbol)}
+            >
+              <Ionicons name={SYMBOL_ICONS[symbol.kind] as any} size={14} color={theme.accent} />
+              <View style={styles.symbolText}>
+                <Text style={styles.symbolName} numberOfLines={1}>
+                  {symbol.name}
+                  <Text style={styles.symbolKind}>  {symbol.exported ? 'exported ' : ''}{symbol.kind}</Text>
+                </Text>
+                <Text style={styles.symbolLocation} numberOfLines={1}>
+                  {symbol.uri === currentFile?.path ? `line ${symbol.line}` : `${symbol.path}:${symbol.line}`}
+                </Text>
+              </View>
+            </TouchableOpacity>
+          ))
+        )}
+      </ScrollView>
+    </View>
+  );
 
   return (
     <Animated.View style={[styles.panel, { width: animatedWidth }]}>
@@ -182,16 +342,27 @@ export function CodeViewerPanel({ visible, file, onClose, onExpand }: CodeViewer
           </TouchableOpacity>
           <View style={styles.titleContainer}>
             <Text style={styles.fileName} numberOfLines={1}>
-              {file?.name || 'No file selected'}
+              {currentFile?.name || 'No file selected'}
             </Text>
-            {file && (
+            {currentFile && (
               <Text style={styles.filePath} numberOfLines={1}>
-                {file.path}
+                {currentFile.path}
               </Text>
             )}
           </View>
         </View>
         <View style={styles.headerRight}>
+          {backStack.length > 0 && (
+            <TouchableOpacity onPress={goBack} style={styles.iconButton}>
+              <Ionicons name="arrow-undo-outline" size={20} color={theme.textSecondary} />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            onPress={() => setSymbolList(symbolList?.title === 'Outline' ? null : { title: 'Outline', symbols: outline })}
+            style={styles.iconButton}
+          >
+            <Ionicons name="list-outline" size={20} color={symbolList?.title === 'Outline' ? theme.accent : theme.textSecondary} />
+          </TouchableOpacity>
           <TouchableOpacity
             onPress={() => {
               setIsExpanded(!isExpanded);
@@ -208,8 +379,19 @@ export function CodeViewerPanel({ visible, file, onClose, onExpand }: CodeViewer
         </View>
       </View>
 
+      {symbolList && renderSymbolList(symbolList)}
+
       {/* Content */}
-      <ScrollView style={styles.content} nestedScrollEnabled>
+      <ScrollView
+        ref={scrollRef}
+        style={styles.content}
+        nestedScrollEnabled
+        scrollEventThrottle={100}
+        onScroll={(event) => {
+          scrollY.current = event.nativeEvent.contentOffset.y;
+        }}
+        onContentSizeChange={handleContentSizeChange}
+      >
         {loading ? (
           <View style={styles.centerContent}>
             <Text style={styles.loadingText}>Loading...</Text>
@@ -284,13 +466,13 @@ function createStyles(theme: Theme) {
       flex: 1,
     },
     codeContainer: {
-      padding: 12,
+      padding: CODE_PADDING,
       flexDirection: 'column',
     },
     codeLine: {
       flexDirection: 'row',
       fontSize: 12,
-      lineHeight: 18,
+      lineHeight: LINE_HEIGHT,
       fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
     },
     lineNumber: {
@@ -300,6 +482,52 @@ function createStyles(theme: Theme) {
       marginRight: 12,
       userSelect: 'none',
     },
+    targetLine: {
+      backgroundColor: theme.surfaceHover,
+    },
+    symbolPanel: {
+      maxHeight: 240,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.border,
+      backgroundColor: theme.background,
+    },
+    symbolHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+    },
+    symbolTitle: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: theme.textSecondary,
+      textTransform: 'uppercase',
+    },
+    symbolItem: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+    },
+    symbolText: {
+      flex: 1,
+    },
+    symbolName: {
+      fontSize: 13,
+      color: theme.text,
+      fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    },
+    symbolKind: {
+      fontSize: 11,
+      color: theme.textSecondary,
+    },
+    symbolLocation: {
+      fontSize: 11,
+      color: theme.textSecondary,
+      marginTop: 1,
+    },
     // Syntax highlighting
     keyword: {
       color: '#C586C0',
@@ -15,6 +15,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { useTheme, Theme } from '../context/ThemeContext';
 import { fileManager, FileNode } from '../utils/fileManager';
 import { codeParser, ParsedFile } from '../utils/codeParser';
+import { projectSync, SyncFileStatus, toRelativePath } from '../utils/projectSync';
 import { FileContextMenu } from './FileContextMenu';
 import { HTMLPreview } from './HTMLPreview';
 import { ReactPreview } from './ReactPreview';
@@ -50,6 +51,10 @@ export function FileExplorer({ visible, onClose, onFilesCreated, onFileSelect }:
   const [reactPreviewFile, setReactPreviewFile] = useState<FileNode | null>(null);
   const [showSamples, setShowSamples] = useState(false);
   const [previewComponentId, setPreviewComponentId] = useState<string | null>(null);
+  const [syncConfigured, setSyncConfigured] = useState(false);
+  const [syncing, setSyncing] = useState(projectSync.isSyncing());
+  const [syncStatuses, setSyncStatuses] = useState<Record<string, SyncFileStatus>>({});
+  const [lastSyncAt, setLastSyncAt] = useState<number | null>(null);
 
   useEffect(() => {
     if (visible) {
@@ -57,6 +62,29 @@ export function FileExplorer({ visible, onClose, onFilesCreated, onFileSelect }:
     }
   }, [visible]);
 
+  useEffect(() => {
+    if (!visible) return;
+    // Reflect syncs started elsewhere (e.g. auto sync after an agent run)
+    return projectSync.onChange(() => {
+      const isSyncing = projectSync.isSyncing();
+      setSyncing(isSyncing);
+      if (!isSyncing) refreshAfterSync();
+    });
+  }, [visible]);
+
+  const loadSyncStatus = async () => {
+    const configured = await projectSync.isConfigured();
+    setSyncConfigured(configured);
+    if (!configured) return;
+    try {
+      const { statuses, lastSyncAt } = await projectSync.getFileStatuses();
+      setSyncStatuses(statuses);
+      setLastSyncAt(lastSyncAt);
+    } catch (error) {
+      console.error('Error loading sync status:', error);
+    }
+  };
+
   const loadFiles = async () => {
     setLoading(true);
     try {
@@ -68,6 +96,79 @@ export function FileExplorer({ visible, onClose, onFilesCreated, onFileSelect }:
     } finally {
       setLoading(false);
     }
+    loadSyncStatus();
+  };
+
+  // Pulled files change the tree; keep folders expanded
+  const refreshAfterSync = async () => {
+    try {
+      setFileTree(await fileManager.scanProject());
+    } catch (error) {
+      console.error('Error loading files:', error);
+    }
+    loadSyncStatus();
+  };
+
+  const handleSync = async () => {
+    try {
+      const report = await projectSync.sync();
+      const changed = report.pushed.length + report.pulled.length + report.deletedLocal.length + report.deletedRemote.length;
+      if (report.conflicts.length > 0 || report.errors.length > 0) {
+        const lines = [`${changed} files synced.`];
+        if (report.conflicts.length > 0) {
+          lines.push(`\nConflicts (tap the ! badge to resolve):\n${report.conflicts.join('\n')}`);
+        }
+        if (report.errors.length > 0) {
+          lines.push(`\nErrors:\n${report.errors.join('\n')}`);
+        }
+        Alert.alert('Sync Finished', lines.join('\n'));
+      }
+    } catch (error) {
+      Alert.alert('Sync Failed', (error as Error).message);
+    }
+  };
+
+  const handleResolveConflict = (relPath: string) => {
+    Alert.alert(
+      'Sync Conflict',
+      `"${relPath}" changed on both the device and the proxy since the last sync.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Keep Remote', onPress: () => resolveConflict(relPath, 'remote') },
+        { text: 'Keep Local', onPress: () => resolveConflict(relPath, 'local') },
+      ]
+    );
+  };
+
+  const resolveConflict = async (relPath: string, keep: 'local' | 'remote') => {
+    try {
+      await projectSync.resolveConflict(relPath, keep);
+      refreshAfterSync();
+    } catch (error) {
+      Alert.alert('Error', `Could not resolve conflict: ${(error as Error).message}`);
+    }
+  };
+
+  const formatSyncTime = (timestamp: number | null) => {
+    if (!timestamp) return 'Never synced';
+    const diffMs = Date.now() - timestamp;
+    if (diffMs < 60000) return 'Synced just now';
+    if (diffMs < 3600000) return `Synced ${Math.floor(diffMs / 60000)}m ago`;
+    if (diffMs < 86400000) return `Synced ${Math.floor(diffMs / 3600000)}h ago`;
+    return `Synced ${new Date(timestamp).toLocaleDateString()}`;
+  };
+
+  const getSyncBadge = (status: SyncFileStatus) => {
+    switch (status) {
+      case 'modified':
+        return { label: 'M', color: theme.warning };
+      case 'added':
+        return { label: 'A', color: theme.success };
+      case 'deleted':
+        return { label: 'D', color: theme.error };
+      case 'conflict':
+        return { label: '!', color: theme.error };
+    }
   };
 
   const toggleFolder = (id: string) => {
@@ -256,10 +357,33 @@ export function FileExplorer({ visible, onClose, onFilesCreated, onFileSelect }:
     }
   };
 
+  const renderSyncBar = () => {
+    const values = Object.values(syncStatuses);
+    const conflicts = values.filter((v) => v === 'conflict').length;
+    const pending = values.length - conflicts;
+    return (
+      <View style={styles.syncBar}>
+        <Ionicons
+          name={conflicts > 0 ? 'warning' : pending > 0 ? 'cloud-outline' : 'cloud-done-outline'}
+          size={14}
+          color={conflicts > 0 ? theme.error : pending > 0 ? theme.warning : theme.success}
+        />
+        <Text style={styles.syncBarText}>
+          {syncing ? 'Syncing with proxy...' : formatSyncTime(lastSyncAt)}
+          {pending > 0 ? ` · ${pending} local change${pending === 1 ? '' : 's'}` : ''}
+          {conflicts > 0 ? ` · ${conflicts} conflict${conflicts === 1 ? '' : 's'}` : ''}
+        </Text>
+      </View>
+    );
+  };
+
   const renderNode = (node: FileNode, level: number = 0, isRoot: boolean = false) => {
     const isExpanded = expandedFolders.has(node.id);
     const isFolder = node.type === 'folder';
     const isSelected = selectedFile?.id === node.id;
+    const relPath = toRelativePath(node.path);
+    const syncStatus = isFolder ? undefined : syncStatuses[relPath];
+    const syncBadge = syncStatus ? getSyncBadge(syncStatus) : null;
 
     return (
       <View key={node.id}>
@@ -290,6 +414,18 @@ export function FileExplorer({ visible, onClose, onFilesCreated, onFileSelect }:
           <Text style={[styles.fileName, isSelected && styles.fileNameSelected]} numberOfLines={1}>
             {node.name}
           </Text>
+          {syncBadge && (
+            <TouchableOpacity
+              style={[styles.syncBadge, { borderColor: syncBadge.color }]}
+              disabled={syncStatus !== 'conflict'}
+              onPress={(e) => {
+                e.stopPropagation();
+                handleResolveConflict(relPath);
+              }}
+            >
+              <Text style={[styles.syncBadgeText, { color: syncBadge.color }]}>{syncBadge.label}</Text>
+            </TouchableOpacity>
+          )}
           {node.type === 'folder' && level > 0 && (
             <TouchableOpacity
               style={styles.deleteButton}
@@ -317,6 +453,15 @@ export function FileExplorer({ visible, onClose, onFilesCreated, onFileSelect }:
         <View style={styles.header}>
           <Text style={styles.headerTitle}>Explorer</Text>
           <View style={styles.headerActions}>
+            {syncConfigured && (
+              <TouchableOpacity onPress={handleSync} style={styles.headerButton} disabled={syncing}>
+                {syncing ? (
+                  <ActivityIndicator size="small" color={theme.accent} />
+                ) : (
+                  <Ionicons name="cloud-upload-outline" size={24} color={theme.text} />
+                )}
+              </TouchableOpacity>
+            )}
             <TouchableOpacity onPress={loadFiles} style={styles.headerButton}>
               <Ionicons name="refresh" size={24} color={theme.text} />
             </TouchableOpacity>
@@ -341,6 +486,8 @@ export function FileExplorer({ visible, onClose, onFilesCreated, onFileSelect }:
           </TouchableOpacity>
         </View>
 
+        {syncConfigured && renderSyncBar()}
+
         <View style={styles.content}>
           {loading ? (
             <View style={styles.loadingContainer}>
@@ -637,6 +784,30 @@ const createStyles = (theme: Theme) => StyleSheet.create({
     fontSize: 13,
     color: theme.text,
   },
+  syncBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border,
+  },
+  syncBarText: {
+    fontSize: 12,
+    color: theme.textSecondary,
+  },
+  syncBadge: {
+    minWidth: 18,
+    paddingHorizontal: 4,
+    borderRadius: 4,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  syncBadgeText: {
+    fontSize: 10,
+    fontWeight: '700',
+  },
   content: {
     flex: 1,
   },
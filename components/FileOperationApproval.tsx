@@ -12,13 +12,16 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme, Theme } from '../context/ThemeContext';
 import { ParsedFile } from '../utils/codeParser';
+import { CodeDiff } from '../utils/storage';
+import { CodeDiffViewer } from './CodeDiffViewer';
 
-export type FileOperationType = 'read' | 'write' | 'delete' | 'create';
+export type FileOperationType = 'read' | 'write' | 'delete' | 'create' | 'edit';
 
 export interface FileOperation {
   type: FileOperationType;
   file: ParsedFile;
   reason?: string;
+  diff?: CodeDiff; // When set, the change is shown as a diff instead of the full content
 }
 
 interface FileOperationApprovalProps {
@@ -76,6 +79,8 @@ export function FileOperationApproval({
         return 'trash';
       case 'create':
         return 'add-circle';
+      case 'edit':
+        return 'git-compare';
       default:
         return 'document';
     }
@@ -91,6 +96,8 @@ export function FileOperationApproval({
         return theme.error;
       case 'create':
         return theme.success;
+      case 'edit':
+        return theme.warning;
       default:
         return theme.text;
     }
@@ -106,6 +113,8 @@ export function FileOperationApproval({
         return 'Delete';
       case 'create':
         return 'Create';
+      case 'edit':
+        return 'Edit';
       default:
         return 'Operation';
     }
@@ -168,7 +177,13 @@ export function FileOperationApproval({
                       <Text style={styles.operationReason}>{operation.reason}</Text>
                     )}
 
-                    {operation.file.content.length > 0 && operation.type === 'write' && (
+                    {operation.diff && (
+                      <View style={styles.diffPreview}>
+                        <CodeDiffViewer diff={operation.diff} />
+                      </View>
+                    )}
+
+                    {!operation.diff && operation.file.content.length > 0 && operation.type === 'write' && (
                       <View style={styles.codePreview}>
                         <Text style={styles.codePreviewText} numberOfLines={3}>
                           {operation.file.content}
@@ -305,6 +320,10 @@ const createStyles = (theme: Theme) => StyleSheet.create({
     padding: 8,
     marginTop: 4,
   },
+  diffPreview: {
+    maxHeight: 320,
+    marginTop: 4,
+  },
   codePreviewText: {
     fontSize: 11,
     color: theme.textSecondary,
@@ -14,6 +14,15 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme, Theme } from '../context/ThemeContext';
 import { fileManager, FileNode } from '../utils/fileManager';
+import { searchProject, SearchOptions, SearchResults, FileSearchResult } from '../utils/projectSearch';
+import {
+  matchKey,
+  replaceLine,
+  computeReplacements,
+  applyChangeSet,
+  undoChangeSet,
+  ReplaceChange,
+} from '../utils/projectReplace';
 
 interface FileSearchProps {
   visible: boolean;
@@ -21,107 +30,148 @@ interface FileSearchProps {
   onResultSelect?: (file: FileNode, line?: number) => void;
 }
 
-interface SearchResult {
-  file: FileNode;
-  matches: MatchLine[];
-}
+const MAX_RESULTS_OPTIONS = [100, 500, 2000];
+const CONTEXT_OPTIONS = [0, 1, 2, 3];
+const MATCHES_PER_FILE = 5; // Until the file is expanded
 
-interface MatchLine {
-  lineNumber: number;
-  content: string;
-  matchStart: number;
-  matchEnd: number;
-}
+// Globs are typed comma-separated
+const parseGlobs = (text: string) => text.split(',').map((glob) => glob.trim()).filter(Boolean);
+
+const toFileNode = (file: FileSearchResult): FileNode => ({
+  id: file.uri,
+  name: file.name,
+  type: 'file',
+  path: file.uri,
+});
 
 export function FileSearch({ visible, onClose, onResultSelect }: FileSearchProps) {
   const { theme } = useTheme();
   const styles = useMemo(() => createStyles(theme), [theme]);
   const [searchQuery, setSearchQuery] = useState('');
-  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [useRegex, setUseRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [wholeWord, setWholeWord] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const [include, setInclude] = useState('');
+  const [exclude, setExclude] = useState('');
+  const [respectGitignore, setRespectGitignore] = useState(true);
+  const [contextLines, setContextLines] = useState(0);
+  const [maxResults, setMaxResults] = useState(MAX_RESULTS_OPTIONS[1]);
+  const [searchResults, setSearchResults] = useState<SearchResults | null>(null);
+  const [searchedOptions, setSearchedOptions] = useState<SearchOptions | null>(null); // What the results were found with
+  const [replaceMode, setReplaceMode] = useState(false);
+  const [replacement, setReplacement] = useState('');
+  const [excluded, setExcluded] = useState<Set<string>>(new Set()); // matchKey of matches left out of the replace
+  const [isReplacing, setIsReplacing] = useState(false);
+  const [lastReplace, setLastReplace] = useState<ReplaceChange[] | null>(null); // Undoable until the next replace
+  const [expandedFiles, setExpandedFiles] = useState<Set<string>>(new Set());
   const [isSearching, setIsSearching] = useState(false);
   const [selectedFile, setSelectedFile] = useState<FileNode | null>(null);
   const [fileContent, setFileContent] = useState('');
 
-  const handleSearch = async () => {
+  const handleSearch = async (quiet = false) => {
     if (!searchQuery.trim()) {
       Alert.alert('Error', 'Please enter a search query');
       return;
     }
 
+    const options: SearchOptions = {
+      query: searchQuery,
+      regex: useRegex,
+      caseSensitive,
+      wholeWord,
+      include: parseGlobs(include),
+      exclude: parseGlobs(exclude),
+      respectGitignore,
+      contextLines,
+      maxResults,
+    };
+
     setIsSearching(true);
     try {
-      const results = await searchFiles(searchQuery);
+      const results = await searchProject(options);
       setSearchResults(results);
+      setSearchedOptions(options);
+      setExpandedFiles(new Set());
+      setExcluded(new Set());
 
-      if (results.length === 0) {
+      if (results.matchCount === 0 && !quiet) {
         Alert.alert('No Results', `No matches found for "${searchQuery}"`);
       }
-    } catch (error) {
-      Alert.alert('Error', 'Failed to search files');
+    } catch (error: any) {
+      Alert.alert('Error', error.code === 'SEARCH_INVALID_PATTERN' ? error.message : 'Failed to search files');
     } finally {
       setIsSearching(false);
     }
   };
 
-  const searchFiles = async (query: string): Promise<SearchResult[]> => {
-    const results: SearchResult[] = [];
-    const tree = await fileManager.scanProject();
-
-    const searchInNode = async (node: FileNode) => {
-      if (node.type === 'file' && isTextFile(node.name)) {
-        try {
-          const content = await fileManager.readFile(node.path);
-          const lines = content.split('\n');
-          const matches: MatchLine[] = [];
-
-          lines.forEach((line, index) => {
-            const lowerLine = line.toLowerCase();
-            const lowerQuery = query.toLowerCase();
-            let pos = 0;
-
-            while ((pos = lowerLine.indexOf(lowerQuery, pos)) !== -1) {
-              matches.push({
-                lineNumber: index + 1,
-                content: line.trim(),
-                matchStart: pos,
-                matchEnd: pos + query.length,
-              });
-              pos += query.length;
-            }
-          });
-
-          if (matches.length > 0) {
-            results.push({ file: node, matches });
-          }
-        } catch (error) {
-          // Skip files that can't be read
-        }
-      }
+  const toggleMatch = (key: string) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      next.has(key) ? next.delete(key) : next.add(key);
+      return next;
+    });
+  };
 
-      if (node.type === 'folder' && node.children) {
-        for (const child of node.children) {
-          await searchInNode(child);
-        }
-      }
-    };
+  // Leaves the file's matches in the replace unless all of them already are
+  const toggleFile = (file: FileSearchResult) => {
+    const keys = file.matches.map((match) => matchKey(file.path, match));
+    const allIncluded = keys.every((key) => !excluded.has(key));
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      keys.forEach((key) => (allIncluded ? next.add(key) : next.delete(key)));
+      return next;
+    });
+  };
 
-    if (tree.children) {
-      for (const child of tree.children) {
-        await searchInNode(child);
-      }
-    }
+  const replaceOptions = searchedOptions ? { ...searchedOptions, replacement } : null;
+
+  const handleReplace = () => {
+    if (!searchResults || !replaceOptions) return;
+    const count = searchResults.matchCount - excluded.size;
+    Alert.alert('Replace', `Replace ${count} match${count === 1 ? '' : 'es'} with "${replacement}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Replace',
+        onPress: async () => {
+          setIsReplacing(true);
+          try {
+            const changes = await computeReplacements(searchResults, replaceOptions, excluded);
+            await applyChangeSet(changes);
+            setLastReplace(changes);
+            await handleSearch(true);
+          } catch (error: any) {
+            Alert.alert('Replace Failed', `${error.message || 'Could not write the files'}. No files were changed.`);
+          } finally {
+            setIsReplacing(false);
+          }
+        },
+      },
+    ]);
+  };
 
-    return results;
+  const handleUndoReplace = async () => {
+    if (!lastReplace) return;
+    setIsReplacing(true);
+    try {
+      await undoChangeSet(lastReplace);
+      setLastReplace(null);
+      await handleSearch(true);
+    } catch (error: any) {
+      Alert.alert('Undo Failed', error.code === 'REPLACE_CONFLICT'
+        ? `${error.message}. Undo would overwrite those edits.`
+        : error.message || 'Could not restore the files');
+    } finally {
+      setIsReplacing(false);
+    }
   };
 
-  const isTextFile = (filename: string): boolean => {
-    const ext = filename.split('.').pop()?.toLowerCase();
-    const textExtensions = [
-      'ts', 'tsx', 'js', 'jsx', 'py', 'java', 'cpp', 'c', 'h',
-      'json', 'md', 'txt', 'html', 'css', 'xml', 'yaml', 'yml',
-      'sh', 'bash', 'sql', 'rb', 'go', 'rs', 'php', 'vue', 'dart'
-    ];
-    return textExtensions.includes(ext || '');
+  const toggleExpanded = (path: string) => {
+    setExpandedFiles((prev) => {
+      const next = new Set(prev);
+      next.has(path) ? next.delete(path) : next.add(path);
+      return next;
+    });
   };
 
   const handleViewFile = async (file: FileNode) => {
@@ -134,7 +184,16 @@ export function FileSearch({ visible, onClose, onResultSelect }: FileSearchProps
     }
   };
 
-  const totalMatches = searchResults.reduce((sum, r) => sum + r.matches.length, 0);
+  const renderToggle = (label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity key={label} style={[styles.toggle, active && styles.toggleActive]} onPress={onPress}>
+      <Text style={[styles.toggleText, active && styles.toggleTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const files = searchResults?.files || [];
+  const totalMatches = searchResults?.matchCount || 0;
+  const selectedCount = totalMatches - excluded.size;
+  const replacedCount = lastReplace?.reduce((sum, change) => sum + change.count, 0) || 0;
 
   return (
     <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
@@ -153,14 +212,14 @@ export function FileSearch({ visible, onClose, onResultSelect }: FileSearchProps
               style={styles.searchInput}
               value={searchQuery}
               onChangeText={setSearchQuery}
-              placeholder="Search in files..."
+              placeholder={useRegex ? 'Regular expression...' : 'Search in files...'}
               placeholderTextColor={theme.placeholder}
               autoCapitalize="none"
               autoCorrect={false}
-              onSubmitEditing={handleSearch}
+              onSubmitEditing={() => handleSearch()}
             />
             <TouchableOpacity
-              onPress={handleSearch}
+              onPress={() => handleSearch()}
               style={styles.searchButton}
               disabled={isSearching}
             >
@@ -171,55 +230,204 @@ export function FileSearch({ visible, onClose, onResultSelect }: FileSearchProps
               )}
             </TouchableOpacity>
           </View>
+
+          <View style={styles.toggleRow}>
+            {renderToggle('Aa', caseSensitive, () => setCaseSensitive(!caseSensitive))}
+            {renderToggle('ab', wholeWord, () => setWholeWord(!wholeWord))}
+            {renderToggle('.*', useRegex, () => setUseRegex(!useRegex))}
+            <TouchableOpacity
+              style={[styles.toggle, replaceMode && styles.toggleActive]}
+              onPress={() => setReplaceMode(!replaceMode)}
+            >
+              <Ionicons name="swap-horizontal" size={14} color={replaceMode ? theme.accent : theme.textSecondary} />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.filtersButton} onPress={() => setShowFilters(!showFilters)}>
+              <Ionicons name="options-outline" size={16} color={theme.textSecondary} />
+              <Text style={styles.filtersButtonText}>Filters</Text>
+              <Ionicons name={showFilters ? 'chevron-up' : 'chevron-down'} size={14} color={theme.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          {replaceMode && (
+            <TextInput
+              style={[styles.filterInput, styles.replaceInput]}
+              value={replacement}
+              onChangeText={setReplacement}
+              placeholder={useRegex ? 'Replace with ($1, $<name> for groups)' : 'Replace with...'}
+              placeholderTextColor={theme.placeholder}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          )}
+
+          {showFilters && (
+            <View style={styles.filters}>
+              <TextInput
+                style={styles.filterInput}
+                value={include}
+                onChangeText={setInclude}
+                placeholder="Files to include, e.g. src/**/*.tsx, *.css"
+                placeholderTextColor={theme.placeholder}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <TextInput
+                style={styles.filterInput}
+                value={exclude}
+                onChangeText={setExclude}
+                placeholder="Files to exclude, e.g. dist, *.test.ts"
+                placeholderTextColor={theme.placeholder}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <View style={styles.filterRow}>
+                <Text style={styles.filterLabel}>Context lines</Text>
+                {CONTEXT_OPTIONS.map((lines) =>
+                  renderToggle(String(lines), contextLines === lines, () => setContextLines(lines))
+                )}
+              </View>
+              <View style={styles.filterRow}>
+                <Text style={styles.filterLabel}>Max results</Text>
+                {MAX_RESULTS_OPTIONS.map((limit) =>
+                  renderToggle(String(limit), maxResults === limit, () => setMaxResults(limit))
+                )}
+              </View>
+              <View style={styles.filterRow}>
+                <Text style={styles.filterLabel}>Skip .gitignore'd files</Text>
+                {renderToggle(respectGitignore ? 'On' : 'Off', respectGitignore, () => setRespectGitignore(!respectGitignore))}
+              </View>
+            </View>
+          )}
         </View>
 
         <View style={styles.content}>
-          {searchResults.length > 0 && (
+          {lastReplace && (
+            <View style={styles.undoBanner}>
+              <Ionicons name="checkmark-circle" size={16} color={theme.success} />
+              <Text style={styles.undoText}>
+                Replaced {replacedCount} match{replacedCount === 1 ? '' : 'es'} in {lastReplace.length} file{lastReplace.length === 1 ? '' : 's'}
+              </Text>
+              <TouchableOpacity onPress={handleUndoReplace} disabled={isReplacing}>
+                <Text style={styles.undoButtonText}>Undo</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {files.length > 0 && (
             <View style={styles.summary}>
               <Text style={styles.summaryText}>
-                Found {totalMatches} match{totalMatches !== 1 ? 'es' : ''} in {searchResults.length} file{searchResults.length !== 1 ? 's' : ''}
+                Found {totalMatches} match{totalMatches !== 1 ? 'es' : ''} in {files.length} file{files.length !== 1 ? 's' : ''}
+                {searchResults?.truncated ? ` · stopped at ${maxResults}` : ''}
               </Text>
             </View>
           )}
 
           <ScrollView style={styles.resultsList}>
-            {searchResults.map((result, resultIndex) => (
-              <View key={resultIndex} style={styles.resultItem}>
-                <TouchableOpacity
-                  style={styles.fileHeader}
-                  onPress={() => handleViewFile(result.file)}
-                >
-                  <Ionicons name="document-text" size={18} color={theme.accent} />
-                  <Text style={styles.fileName} numberOfLines={1}>
-                    {result.file.name}
-                  </Text>
-                  <View style={styles.matchCount}>
-                    <Text style={styles.matchCountText}>{result.matches.length}</Text>
-                  </View>
-                </TouchableOpacity>
-
-                <View style={styles.matchesContainer}>
-                  {result.matches.slice(0, 5).map((match, matchIndex) => (
-                    <TouchableOpacity
-                      key={matchIndex}
-                      style={styles.matchLine}
-                      onPress={() => onResultSelect?.(result.file, match.lineNumber)}
-                    >
-                      <Text style={styles.lineNumber}>{match.lineNumber}</Text>
-                      <Text style={styles.lineContent} numberOfLines={1}>
-                        {highlightMatch(match.content, match.matchStart, match.matchEnd)}
-                      </Text>
-                    </TouchableOpacity>
-                  ))}
-                  {result.matches.length > 5 && (
-                    <Text style={styles.moreMatches}>
-                      +{result.matches.length - 5} more matches
+            {files.map((result) => {
+              const expanded = expandedFiles.has(result.path);
+              const shown = expanded ? result.matches : result.matches.slice(0, MATCHES_PER_FILE);
+              return (
+                <View key={result.path} style={styles.resultItem}>
+                  <TouchableOpacity
+                    style={styles.fileHeader}
+                    onPress={() => handleViewFile(toFileNode(result))}
+                  >
+                    {replaceMode ? (
+                      <TouchableOpacity onPress={() => toggleFile(result)}>
+                        <Ionicons
+                          name={result.matches.every((m) => !excluded.has(matchKey(result.path, m))) ? 'checkbox' : 'square-outline'}
+                          size={18}
+                          color={theme.accent}
+                        />
+                      </TouchableOpacity>
+                    ) : (
+                      <Ionicons name="document-text" size={18} color={theme.accent} />
+                    )}
+                    <Text style={styles.fileName} numberOfLines={1}>
+                      {result.path}
                     </Text>
-                  )}
+                    <View style={styles.matchCount}>
+                      <Text style={styles.matchCountText}>{result.matches.length}</Text>
+                    </View>
+                  </TouchableOpacity>
+
+                  <View style={styles.matchesContainer}>
+                    {shown.map((match, matchIndex) => {
+                      const key = matchKey(result.path, match);
+                      return (
+                        <TouchableOpacity
+                          key={matchIndex}
+                          style={[styles.matchBlock, replaceMode && excluded.has(key) && styles.matchExcluded]}
+                          onPress={() => (replaceMode ? toggleMatch(key) : onResultSelect?.(toFileNode(result), match.line))}
+                        >
+                          {match.before.map((text, i) => (
+                            <View key={`b${i}`} style={styles.contextLine}>
+                              <Text style={styles.lineNumber}>{match.line - match.before.length + i}</Text>
+                              <Text style={styles.contextContent} numberOfLines={1}>{text}</Text>
+                            </View>
+                          ))}
+                          <View style={styles.matchLine}>
+                            {replaceMode ? (
+                              <Ionicons
+                                name={excluded.has(key) ? 'square-outline' : 'checkbox'}
+                                size={14}
+                                color={theme.accent}
+                              />
+                            ) : (
+                              <Text style={styles.lineNumber}>{match.line}</Text>
+                            )}
+                            <Text style={styles.lineContent} numberOfLines={1}>
+                              {highlightMatch(match.text, match.column, match.column + match.length, styles)}
+                            </Text>
+                          </View>
+                          {replaceMode && replaceOptions && !excluded.has(key) && (
+                            <View style={styles.matchLine}>
+                              <Ionicons name="arrow-forward" size={14} color={theme.success} />
+                              <Text style={[styles.lineContent, styles.replacedContent]} numberOfLines={1}>
+                                {replaceLine(match.text, replaceOptions, (column) => column === match.column).trim()}
+                              </Text>
+                            </View>
+                          )}
+                          {match.after.map((text, i) => (
+                            <View key={`a${i}`} style={styles.contextLine}>
+                              <Text style={styles.lineNumber}>{match.line + 1 + i}</Text>
+                              <Text style={styles.contextContent} numberOfLines={1}>{text}</Text>
+                            </View>
+                          ))}
+                        </TouchableOpacity>
+                      );
+                    })}
+                    {result.matches.length > MATCHES_PER_FILE && (
+                      <TouchableOpacity onPress={() => toggleExpanded(result.path)}>
+                        <Text style={styles.moreMatches}>
+                          {expanded ? 'Show fewer matches' : `+${result.matches.length - MATCHES_PER_FILE} more matches`}
+                        </Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
                 </View>
-              </View>
-            ))}
+              );
+            })}
           </ScrollView>
+
+          {replaceMode && files.length > 0 && (
+            <View style={styles.replaceFooter}>
+              <TouchableOpacity
+                style={[styles.replaceButton, (selectedCount === 0 || isReplacing) && styles.replaceButtonDisabled]}
+                onPress={handleReplace}
+                disabled={selectedCount === 0 || isReplacing}
+              >
+                {isReplacing ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Ionicons name="swap-horizontal" size={18} color="#fff" />
+                )}
+                <Text style={styles.replaceButtonText}>
+                  Replace {selectedCount} of {totalMatches}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          )}
         </View>
 
         {/* File Content Modal */}
@@ -247,8 +455,13 @@ export function FileSearch({ visible, onClose, onResultSelect }: FileSearchProps
   );
 }
 
-function highlightMatch(content: string, start: number, end: number): string {
-  const before = content.substring(0, start);
+function highlightMatch(
+  content: string,
+  start: number,
+  end: number,
+  styles: ReturnType<typeof createStyles>
+): React.ReactNode {
+  const before = content.substring(0, start).trimStart();
   const match = content.substring(start, end);
   const after = content.substring(end);
 
@@ -264,7 +477,13 @@ function highlightMatch(content: string, start: number, end: number): string {
     ? after.substring(0, maxAfter) + '...'
     : after;
 
-  return `${truncatedBefore}${match}${truncatedAfter}`;
+  return (
+    <>
+      {truncatedBefore}
+      <Text style={styles.matchHighlight}>{match}</Text>
+      {truncatedAfter}
+    </>
+  );
 }
 
 const createStyles = (theme: Theme) => StyleSheet.create({
@@ -395,6 +614,143 @@ const createStyles = (theme: Theme) => StyleSheet.create({
     color: theme.text,
     fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
   },
+  matchBlock: {
+    backgroundColor: theme.inputBackground,
+    borderRadius: 4,
+    paddingVertical: 2,
+  },
+  contextLine: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    gap: 8,
+  },
+  contextContent: {
+    flex: 1,
+    fontSize: 12,
+    color: theme.textSecondary,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  matchHighlight: {
+    backgroundColor: `${theme.accent}40`,
+    fontWeight: '700',
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  toggle: {
+    minWidth: 34,
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: theme.border,
+    backgroundColor: theme.surface,
+  },
+  toggleActive: {
+    borderColor: theme.accent,
+    backgroundColor: `${theme.accent}20`,
+  },
+  toggleText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: theme.textSecondary,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  toggleTextActive: {
+    color: theme.accent,
+  },
+  filtersButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginLeft: 'auto',
+    paddingHorizontal: 4,
+    paddingVertical: 4,
+  },
+  filtersButtonText: {
+    fontSize: 13,
+    color: theme.textSecondary,
+  },
+  filters: {
+    gap: 8,
+    marginTop: 8,
+  },
+  filterInput: {
+    backgroundColor: theme.inputBackground,
+    borderWidth: 1,
+    borderColor: theme.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 13,
+    color: theme.text,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  filterLabel: {
+    flex: 1,
+    fontSize: 13,
+    color: theme.textSecondary,
+  },
+  matchExcluded: {
+    opacity: 0.5,
+  },
+  replacedContent: {
+    color: theme.success,
+  },
+  replaceInput: {
+    marginTop: 8,
+  },
+  undoBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: `${theme.success}15`,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border,
+  },
+  undoText: {
+    flex: 1,
+    fontSize: 13,
+    color: theme.text,
+  },
+  undoButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.accent,
+  },
+  replaceFooter: {
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: theme.border,
+  },
+  replaceButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: theme.accent,
+    borderRadius: 8,
+    paddingVertical: 12,
+  },
+  replaceButtonDisabled: {
+    opacity: 0.5,
+  },
+  replaceButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#fff',
+  },
   moreMatches: {
     fontSize: 12,
     color: theme.textSecondary,
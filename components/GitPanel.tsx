@@ -137,13 +137,18 @@ export function GitPanel({ visible, onClose }: GitPanelProps) {
   };
 
   const handleSaveSettings = async () => {
-    await storage.setGitSettings({
-      remoteUrl: remoteUrl.trim(),
-      username: remoteUsername.trim(),
-      token: remoteToken.trim(),
-      authorName: authorName.trim() || 'Mobcode User',
-      authorEmail: authorEmail.trim() || 'user@example.com',
-    });
+    try {
+      await storage.setGitSettings({
+        remoteUrl: remoteUrl.trim(),
+        username: remoteUsername.trim(),
+        token: remoteToken.trim(),
+        authorName: authorName.trim() || 'Mobcode User',
+        authorEmail: authorEmail.trim() || 'user@example.com',
+      });
+    } catch (error: any) {
+      Alert.alert('Not Saved', error.message || 'Failed to save git settings.');
+      return;
+    }
 
     if (isRepo && remoteUrl.trim()) {
       const result = await toolRegistry.execute('git_set_remote', {
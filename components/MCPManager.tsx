@@ -9,10 +9,13 @@ import {
   Modal,
   Alert,
   ActivityIndicator,
+  Switch,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme, Theme } from '../context/ThemeContext';
 import { mcpClient, MCPServer } from '../utils/mcpClient';
+import { remoteShell } from '../utils/remoteShell';
+import { storage, ProxySettings } from '../utils/storage';
 
 interface MCPManagerProps {
   visible: boolean;
@@ -27,13 +30,50 @@ export function MCPManager({ visible, onClose }: MCPManagerProps) {
   const [serverName, setServerName] = useState('');
   const [serverUrl, setServerUrl] = useState('');
   const [connecting, setConnecting] = useState(false);
+  const [proxySettings, setProxySettings] = useState<ProxySettings | null>(null);
 
   useEffect(() => {
     if (visible) {
       loadServers();
+      storage.getProxySettings().then(setProxySettings);
     }
   }, [visible]);
 
+  const updateProxySettings = (updates: Partial<ProxySettings>) => {
+    if (!proxySettings) return;
+    const next = { ...proxySettings, ...updates };
+    setProxySettings(next);
+    storage.setProxySettings(next).catch((error) => {
+      Alert.alert('Not Saved', error.message || 'Failed to save proxy settings.');
+    });
+  };
+
+  const handleTestProxy = async () => {
+    if (!proxySettings) return;
+    setConnecting(true);
+    try {
+      const status = await remoteShell.checkStatus(proxySettings);
+      if (!status.workspace) {
+        Alert.alert('No Workspace', 'Start the proxy with WORKSPACE=/path/to/project to enable sync and the remote shell.');
+        return;
+      }
+      const lines = [
+        status.syncEnabled ? 'Project sync: available' : 'Project sync: disabled (start the proxy with WORKSPACE_TOKEN)',
+        status.shellEnabled
+          ? `Remote shell: ${status.allowedCommands.join(', ')}`
+          : 'Remote shell: disabled (start the proxy with ENABLE_SHELL=1 and WORKSPACE_TOKEN)',
+      ];
+      if (status.requiresToken && !proxySettings.token) {
+        lines.push('', 'This proxy requires a workspace token.');
+      }
+      Alert.alert('Proxy Workspace Ready', lines.join('\n'));
+    } catch (error) {
+      Alert.alert('Error', `Failed to reach proxy: ${(error as Error).message}`);
+    } finally {
+      setConnecting(false);
+    }
+  };
+
   const loadServers = () => {
     setServers(mcpClient.listServers());
   };
@@ -134,6 +174,62 @@ export function MCPManager({ visible, onClose }: MCPManagerProps) {
             </View>
           </View>
 
+          {proxySettings && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Proxy Workspace</Text>
+              <Text style={styles.proxyHint}>
+                Sync the project to the MCP proxy (WORKSPACE) and run real commands there.
+              </Text>
+              <View style={styles.proxyForm}>
+                <TextInput
+                  style={styles.input}
+                  value={proxySettings.url}
+                  onChangeText={(url) => updateProxySettings({ url })}
+                  placeholder="Proxy URL (e.g., http://192.168.1.100:3000)"
+                  placeholderTextColor={theme.placeholder}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+                <TextInput
+                  style={styles.input}
+                  value={proxySettings.token}
+                  onChangeText={(token) => updateProxySettings({ token })}
+                  placeholder="Workspace token (required for the remote shell)"
+                  placeholderTextColor={theme.placeholder}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  secureTextEntry
+                />
+                <View style={styles.toggleRow}>
+                  <View style={styles.toggleLabel}>
+                    <Text style={styles.toggleTitle}>Remote Shell</Text>
+                    <Text style={styles.toggleSubtitle}>run_command runs npm, node, tsc, git... on the proxy</Text>
+                  </View>
+                  <Switch
+                    value={proxySettings.shellEnabled}
+                    onValueChange={(shellEnabled) => updateProxySettings({ shellEnabled })}
+                    trackColor={{ false: theme.border, true: theme.accent }}
+                  />
+                </View>
+                <View style={styles.toggleRow}>
+                  <View style={styles.toggleLabel}>
+                    <Text style={styles.toggleTitle}>Auto Sync</Text>
+                    <Text style={styles.toggleSubtitle}>Sync files around remote commands and agent runs</Text>
+                  </View>
+                  <Switch
+                    value={proxySettings.autoSync}
+                    onValueChange={(autoSync) => updateProxySettings({ autoSync })}
+                    trackColor={{ false: theme.border, true: theme.accent }}
+                  />
+                </View>
+                <TouchableOpacity style={styles.testButton} onPress={handleTestProxy} disabled={connecting}>
+                  <Ionicons name="pulse" size={16} color={theme.accent} />
+                  <Text style={styles.testButtonText}>Test Connection</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
           <View style={styles.section}>
             <View style={styles.sectionHeader}>
               <Text style={styles.sectionTitle}>Connected Servers</Text>
@@ -282,6 +378,48 @@ const createStyles = (theme: Theme) => StyleSheet.create({
   addButton: {
     padding: 4,
   },
+  proxyHint: {
+    fontSize: 13,
+    color: theme.textSecondary,
+    marginBottom: 12,
+  },
+  proxyForm: {
+    gap: 8,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    paddingVertical: 4,
+  },
+  toggleLabel: {
+    flex: 1,
+  },
+  toggleTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: theme.text,
+  },
+  toggleSubtitle: {
+    fontSize: 12,
+    color: theme.textSecondary,
+  },
+  testButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: theme.accent,
+  },
+  testButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.accent,
+  },
   presetGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -4,6 +4,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { useTheme, Theme } from '../context/ThemeContext';
 import { AI_MODELS } from '../constants/Models';
 import { storage, CustomModel } from '../utils/storage';
+import { hasKnownPrice } from '../utils/usageTracker';
 
 interface ModelSwitcherProps {
   currentModel: string;
@@ -89,7 +90,9 @@ export function ModelSwitcher({ currentModel, onModelChange, customModels = [] }
                       >
                         {model.name}
                       </Text>
-                      <Text style={styles.modelDescription}>{model.description}</Text>
+                      <Text style={styles.modelDescription}>
+                        {model.description}{hasKnownPrice(model.id) ? '' : ' · No cost estimate'}
+                      </Text>
                       <View style={styles.modelMeta}>
                         <Text style={styles.modelProvider}>{model.provider}</Text>
                         {(model as any).isCustom && (
@@ -0,0 +1,181 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  Platform,
+  KeyboardAvoidingView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme, Theme } from '../context/ThemeContext';
+import { projectMemory, MEMORY_PATH } from '../utils/projectMemory';
+
+interface ProjectMemoryEditorProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+export function ProjectMemoryEditor({ visible, onClose }: ProjectMemoryEditorProps) {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const [content, setContent] = useState('');
+  const [saved, setSaved] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      loadMemory();
+    }
+  }, [visible]);
+
+  const loadMemory = async () => {
+    const memory = await projectMemory.read();
+    setContent(memory);
+    setSaved(memory);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await projectMemory.write(content);
+      setSaved(content);
+    } catch (error: any) {
+      Alert.alert('Save Failed', error.message || `Could not write ${MEMORY_PATH}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (content === saved) {
+      onClose();
+      return;
+    }
+    Alert.alert('Unsaved Changes', 'Discard your changes to the project memory?', [
+      { text: 'Keep Editing', style: 'cancel' },
+      { text: 'Discard', style: 'destructive', onPress: onClose },
+    ]);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={handleClose}>
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>Project Memory</Text>
+            <Text style={styles.headerSubtitle}>{MEMORY_PATH}</Text>
+          </View>
+          <TouchableOpacity onPress={handleClose} style={styles.headerButton}>
+            <Ionicons name="close" size={24} color={theme.text} />
+          </TouchableOpacity>
+        </View>
+
+        <Text style={styles.hint}>
+          Instructions and facts the agent reads at the start of every conversation in this project, such as
+          conventions, commands or decisions. The agent can add facts with the remember tool after you confirm.
+        </Text>
+
+        <TextInput
+          style={styles.editor}
+          value={content}
+          onChangeText={setContent}
+          placeholder={'# Project Memory\n\n- Use TypeScript for new files\n- Run tests with npm test'}
+          placeholderTextColor={theme.placeholder}
+          multiline
+          textAlignVertical="top"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[styles.saveButton, (content === saved || saving) && styles.saveButtonDisabled]}
+            onPress={handleSave}
+            disabled={content === saved || saving}
+          >
+            <Ionicons name="save-outline" size={18} color="#fff" />
+            <Text style={styles.saveButtonText}>{saving ? 'Saving...' : 'Save'}</Text>
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border,
+  },
+  headerText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: theme.text,
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    color: theme.textSecondary,
+    marginTop: 2,
+  },
+  headerButton: {
+    padding: 4,
+  },
+  hint: {
+    fontSize: 13,
+    color: theme.textSecondary,
+    lineHeight: 19,
+    padding: 16,
+  },
+  editor: {
+    flex: 1,
+    marginHorizontal: 16,
+    backgroundColor: theme.inputBackground,
+    borderWidth: 1,
+    borderColor: theme.border,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
+    color: theme.text,
+  },
+  footer: {
+    padding: 16,
+  },
+  saveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: theme.accent,
+    borderRadius: 8,
+    paddingVertical: 12,
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#fff',
+  },
+});
@@ -1,30 +1,52 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   View,
   Text,
+  TextInput,
   TouchableOpacity,
   StyleSheet,
   Modal,
   ScrollView,
   Dimensions,
   Platform,
+  Alert,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme, Theme } from '../context/ThemeContext';
-import { AgentStep } from '../utils/autonomousAgent';
+import { AgentStep, ExecutionPlan, PlanReviewDecision } from '../utils/autonomousAgent';
+import { Tool } from '../utils/toolRegistry';
+import { agentTracer } from '../utils/agentTrace';
+import { AgentTrace, TraceEvent } from '../utils/storage';
+
+export interface PlanReviewRequest {
+  plan: ExecutionPlan;
+  tools: Tool[]; // Catalog offered when adding a step
+  onDecision: (decision: PlanReviewDecision) => void;
+}
 
 interface TaskTrackerProps {
   visible: boolean;
   onClose: () => void;
   steps: AgentStep[];
   goal: string;
+  review?: PlanReviewRequest | null; // Shows the editable plan instead of progress
 }
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
-export function TaskTracker({ visible, onClose, steps, goal }: TaskTrackerProps) {
+export function TaskTracker({ visible, onClose, steps, goal, review }: TaskTrackerProps) {
   const { theme } = useTheme();
   const styles = useMemo(() => createStyles(theme), [theme]);
+  const [showTraces, setShowTraces] = useState(false);
+
+  if (review) {
+    return (
+      <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+        {/* Keyed by plan so a re-plan starts a fresh draft */}
+        <PlanReview key={review.plan.id} review={review} onClose={onClose} styles={styles} theme={theme} />
+      </Modal>
+    );
+  }
 
   const getStepIcon = (status: AgentStep['status'], theme: Theme) => {
     switch (status) {
@@ -38,6 +60,10 @@ export function TaskTracker({ visible, onClose, steps, goal }: TaskTrackerProps)
         return <Ionicons name="checkmark-done-circle" size={20} color={theme.success} />;
       case 'failed':
         return <Ionicons name="close-circle" size={20} color={theme.error} />;
+      case 'blocked':
+        return <Ionicons name="remove-circle" size={20} color={theme.warning} />;
+      case 'cancelled':
+        return <Ionicons name="stop-circle" size={20} color={theme.textSecondary} />;
       default:
         return <Ionicons name="ellipse" size={16} color={theme.textSecondary} />;
     }
@@ -50,6 +76,8 @@ export function TaskTracker({ visible, onClose, steps, goal }: TaskTrackerProps)
       case 'executing': return theme.accent;
       case 'completed': return theme.success;
       case 'failed': return theme.error;
+      case 'blocked': return theme.warning;
+      case 'cancelled': return theme.textSecondary;
       default: return theme.textSecondary;
     }
   };
@@ -61,15 +89,26 @@ export function TaskTracker({ visible, onClose, steps, goal }: TaskTrackerProps)
       case 'executing': return 'RUNNING...';
       case 'completed': return 'DONE';
       case 'failed': return 'FAILED';
+      case 'blocked': return 'BLOCKED';
+      case 'cancelled': return 'CANCELLED';
       default: return 'WAITING';
     }
   };
 
   const completedCount = steps.filter(s => s.status === 'completed').length;
   const failedCount = steps.filter(s => s.status === 'failed').length;
+  const blockedCount = steps.filter(s => s.status === 'blocked').length;
   const totalCount = steps.length;
   const progress = totalCount > 0 ? (completedCount / totalCount) * 100 : 0;
 
+  if (showTraces) {
+    return (
+      <Modal visible={visible} animationType="slide" onRequestClose={() => setShowTraces(false)}>
+        <TraceViewer onClose={() => setShowTraces(false)} styles={styles} theme={theme} />
+      </Modal>
+    );
+  }
+
   return (
     <Modal
       visible={visible}
@@ -89,7 +128,9 @@ export function TaskTracker({ visible, onClose, steps, goal }: TaskTrackerProps)
                 {completedCount} of {totalCount} completed
               </Text>
             </View>
-            <View style={styles.placeholder} />
+            <TouchableOpacity onPress={() => setShowTraces(true)} style={styles.closeButton}>
+              <Ionicons name="document-text-outline" size={22} color={theme.text} />
+            </TouchableOpacity>
           </View>
 
           {/* Progress Bar */}
@@ -125,7 +166,7 @@ export function TaskTracker({ visible, onClose, steps, goal }: TaskTrackerProps)
           <View style={[styles.statCard, { backgroundColor: `${theme.accent}15` }]}>
             <Ionicons name="time" size={24} color={theme.accent} />
             <Text style={[styles.statValue, { color: theme.accent }]}>
-              {totalCount - completedCount - failedCount}
+              {totalCount - completedCount - failedCount - blockedCount}
             </Text>
             <Text style={styles.statLabel}>Remaining</Text>
           </View>
@@ -145,6 +186,7 @@ export function TaskTracker({ visible, onClose, steps, goal }: TaskTrackerProps)
                 step.status === 'executing' && styles.taskCardActive,
                 step.status === 'completed' && styles.taskCardCompleted,
                 step.status === 'failed' && styles.taskCardFailed,
+                step.status === 'blocked' && styles.taskCardBlocked,
               ]}
             >
               {/* Task Header */}
@@ -174,6 +216,16 @@ export function TaskTracker({ visible, onClose, steps, goal }: TaskTrackerProps)
                 <Text style={styles.toolName}>{step.tool}</Text>
               </View>
 
+              {step.approvalDecision && (
+                <View style={styles.toolInfo}>
+                  <Ionicons name="shield-checkmark-outline" size={14} color={theme.textSecondary} />
+                  <Text style={styles.approvalText}>
+                    {step.approvalDecision.reason}
+                    {step.approvalDecision.answer ? ` · ${step.approvalDecision.answer} by you` : ''}
+                  </Text>
+                </View>
+              )}
+
               {/* Task Result/Error */}
               {step.result?.output && (
                 <View style={styles.resultContainer}>
@@ -184,7 +236,16 @@ export function TaskTracker({ visible, onClose, steps, goal }: TaskTrackerProps)
                 </View>
               )}
 
-              {step.error && (
+              {step.status === 'blocked' && (
+                <View style={styles.blockedContainer}>
+                  <Ionicons name="git-branch" size={14} color={theme.warning} />
+                  <Text style={styles.blockedText}>
+                    {step.error || `Blocked by step ${step.blockedBy}`}
+                  </Text>
+                </View>
+              )}
+
+              {step.error && step.status !== 'blocked' && step.status !== 'cancelled' && (
                 <View style={styles.errorContainer}>
                   <Text style={styles.errorLabel}>Error:</Text>
                   <Text style={styles.errorText}>{step.error}</Text>
@@ -214,12 +275,13 @@ export function TaskTracker({ visible, onClose, steps, goal }: TaskTrackerProps)
           </View>
         )}
 
-        {failedCount > 0 && (
+        {(failedCount > 0 || blockedCount > 0) && (
           <View style={styles.footer}>
             <View style={styles.errorBanner}>
               <Ionicons name="warning" size={24} color={theme.error} />
               <Text style={styles.errorBannerText}>
-                {failedCount} task{failedCount > 1 ? 's' : ''} failed
+                {failedCount} task{failedCount !== 1 ? 's' : ''} failed
+                {blockedCount > 0 ? `, ${blockedCount} blocked` : ''}
               </Text>
             </View>
           </View>
@@ -229,6 +291,407 @@ export function TaskTracker({ visible, onClose, steps, goal }: TaskTrackerProps)
   );
 }
 
+// Parameter values are edited as text; non-string values as JSON
+const toParamText = (value: any) => (typeof value === 'string' ? value : JSON.stringify(value));
+
+const fromParamText = (text: string, type: string | undefined, original: any) => {
+  const isString = type ? type === 'string' : original === undefined || typeof original === 'string';
+  if (isString) return text;
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    return text;
+  }
+};
+
+interface DraftStep {
+  step: AgentStep;
+  params: Record<string, string>;
+}
+
+function PlanReview({
+  review,
+  onClose,
+  styles,
+  theme,
+}: {
+  review: PlanReviewRequest;
+  onClose: () => void;
+  styles: any;
+  theme: Theme;
+}) {
+  const [drafts, setDrafts] = useState<DraftStep[]>(() =>
+    review.plan.steps.map((step) => ({
+      step,
+      params: Object.fromEntries(Object.entries(step.parameters || {}).map(([key, value]) => [key, toParamText(value)])),
+    }))
+  );
+  const [comment, setComment] = useState('');
+  const [showCatalog, setShowCatalog] = useState(false);
+
+  const getTool = (name: string) => review.tools.find((t) => t.name === name);
+
+  const updateDraft = (index: number, update: (draft: DraftStep) => DraftStep) => {
+    setDrafts((prev) => prev.map((draft, i) => (i === index ? update(draft) : draft)));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= drafts.length) return;
+    setDrafts((prev) => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const deleteStep = (index: number) => {
+    setDrafts((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const addStep = (tool: Tool) => {
+    const step: AgentStep = {
+      id: `added-${Date.now()}`,
+      description: tool.description,
+      tool: tool.name,
+      parameters: {},
+      status: 'pending',
+    };
+    const params = Object.fromEntries(
+      tool.parameters.map((p) => [p.name, p.default !== undefined ? toParamText(p.default) : ''])
+    );
+    setDrafts((prev) => [...prev, { step, params }]);
+    setShowCatalog(false);
+  };
+
+  const handleRun = () => {
+    const steps = drafts.map(({ step, params }) => {
+      const declared = getTool(step.tool)?.parameters || [];
+      const parameters: Record<string, any> = {};
+      Object.entries(params).forEach(([key, text]) => {
+        const original = step.parameters?.[key];
+        // Blank optional parameters the model didn't set are left out
+        if (text === '' && original === undefined) return;
+        parameters[key] = fromParamText(text, declared.find((p) => p.name === key)?.type, original);
+      });
+      return { ...step, parameters };
+    });
+
+    const missing = steps.flatMap((step, i) =>
+      (getTool(step.tool)?.parameters || [])
+        .filter((p) => p.required && (step.parameters[p.name] === undefined || step.parameters[p.name] === ''))
+        .map((p) => `Step ${i + 1}: ${p.name}`)
+    );
+    if (missing.length > 0) {
+      Alert.alert('Missing Parameters', missing.join('\n'));
+      return;
+    }
+    if (steps.length === 0) {
+      Alert.alert('Empty Plan', 'Add a step or cancel the task.');
+      return;
+    }
+    review.onDecision({ action: 'run', steps });
+  };
+
+  const handleReplan = () => {
+    if (!comment.trim()) return;
+    review.onDecision({ action: 'replan', comment: comment.trim() });
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.headerContent}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Ionicons name="close" size={24} color={theme.text} />
+          </TouchableOpacity>
+          <View style={styles.headerCenter}>
+            <Text style={styles.headerTitle}>Review Plan</Text>
+            <Text style={styles.headerSubtitle}>
+              {drafts.length} step{drafts.length === 1 ? '' : 's'} · nothing runs until you tap Run plan
+            </Text>
+          </View>
+          <View style={styles.placeholder} />
+        </View>
+      </View>
+
+      <View style={styles.goalCard}>
+        <Ionicons name="flag" size={20} color={theme.accent} />
+        <View style={styles.goalContent}>
+          <Text style={styles.goalLabel}>Goal</Text>
+          <Text style={styles.goalText}>{review.plan.goal}</Text>
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.taskList}
+        contentContainerStyle={styles.taskListContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        {drafts.map(({ step, params }, index) => (
+          <View key={step.id} style={styles.taskCard}>
+            <View style={styles.taskHeader}>
+              <View style={styles.taskLeft}>
+                <Text style={styles.taskNumber}>{index + 1}</Text>
+                <View style={styles.toolInfo}>
+                  <Ionicons name="flash" size={14} color={theme.textSecondary} />
+                  <Text style={styles.toolName}>{step.tool}</Text>
+                </View>
+              </View>
+              <View style={styles.reviewActions}>
+                <TouchableOpacity onPress={() => moveStep(index, -1)} disabled={index === 0} style={styles.reviewIconButton}>
+                  <Ionicons name="arrow-up" size={18} color={index === 0 ? theme.border : theme.text} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => moveStep(index, 1)}
+                  disabled={index === drafts.length - 1}
+                  style={styles.reviewIconButton}
+                >
+                  <Ionicons name="arrow-down" size={18} color={index === drafts.length - 1 ? theme.border : theme.text} />
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => deleteStep(index)} style={styles.reviewIconButton}>
+                  <Ionicons name="trash-outline" size={18} color={theme.error} />
+                </TouchableOpacity>
+              </View>
+            </View>
+
+            <TextInput
+              style={styles.reviewInput}
+              value={step.description}
+              onChangeText={(text) => updateDraft(index, (d) => ({ ...d, step: { ...d.step, description: text } }))}
+              placeholder="Step description"
+              placeholderTextColor={theme.placeholder}
+              multiline
+            />
+
+            {Object.entries(params).map(([key, text]) => (
+              <View key={key} style={styles.reviewParam}>
+                <Text style={styles.paramsLabel}>
+                  {key}
+                  {getTool(step.tool)?.parameters.find((p) => p.name === key)?.required ? ' *' : ''}
+                </Text>
+                <TextInput
+                  style={[styles.reviewInput, styles.reviewParamInput]}
+                  value={text}
+                  onChangeText={(value) => updateDraft(index, (d) => ({ ...d, params: { ...d.params, [key]: value } }))}
+                  placeholderTextColor={theme.placeholder}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  multiline
+                />
+              </View>
+            ))}
+          </View>
+        ))}
+
+        <TouchableOpacity style={styles.reviewAddButton} onPress={() => setShowCatalog(!showCatalog)}>
+          <Ionicons name={showCatalog ? 'chevron-up' : 'add'} size={18} color={theme.accent} />
+          <Text style={styles.reviewAddText}>Add step</Text>
+        </TouchableOpacity>
+
+        {showCatalog && (
+          <View style={styles.reviewCatalog}>
+            {review.tools.map((tool) => (
+              <TouchableOpacity key={tool.name} style={styles.reviewCatalogItem} onPress={() => addStep(tool)}>
+                <Text style={styles.toolName}>{tool.name}</Text>
+                <Text style={styles.reviewCatalogDescription} numberOfLines={2}>{tool.description}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        <View style={styles.reviewParam}>
+          <Text style={styles.paramsLabel}>Ask for a different plan</Text>
+          <TextInput
+            style={styles.reviewInput}
+            value={comment}
+            onChangeText={setComment}
+            placeholder="e.g. Put the component in src/components instead"
+            placeholderTextColor={theme.placeholder}
+            multiline
+          />
+          <TouchableOpacity
+            style={[styles.reviewAddButton, !comment.trim() && styles.reviewButtonDisabled]}
+            onPress={handleReplan}
+            disabled={!comment.trim()}
+          >
+            <Ionicons name="refresh" size={18} color={theme.accent} />
+            <Text style={styles.reviewAddText}>Re-plan</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+
+      <View style={[styles.footer, styles.reviewFooter]}>
+        <TouchableOpacity style={styles.reviewCancelButton} onPress={() => review.onDecision({ action: 'cancel' })}>
+          <Text style={styles.reviewCancelText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.reviewRunButton} onPress={handleRun}>
+          <Ionicons name="play" size={18} color="#fff" />
+          <Text style={styles.reviewRunText}>Run plan</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const TRACE_ICONS: Record<TraceEvent['type'], string> = {
+  prompt: 'chatbox-ellipses-outline',
+  model_output: 'sparkles-outline',
+  json_fix: 'construct-outline',
+  plan: 'list-outline',
+  approval: 'shield-checkmark-outline',
+  tool_call: 'flash-outline',
+  changes: 'document-outline',
+  error: 'alert-circle-outline',
+};
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString();
+
+const formatDuration = (ms?: number) =>
+  ms === undefined ? '' : ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+/**
+ * Recorded agent runs: a list of traces, then the events of the selected one
+ */
+function TraceViewer({
+  onClose,
+  styles,
+  theme,
+}: {
+  onClose: () => void;
+  styles: ReturnType<typeof createStyles>;
+  theme: Theme;
+}) {
+  const [traces, setTraces] = useState<AgentTrace[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  useEffect(() => {
+    agentTracer.getTraces().then(setTraces);
+  }, []);
+
+  const selected = traces.find((t) => t.id === selectedId) || null;
+
+  const handleBack = () => {
+    if (selected) {
+      setSelectedId(null);
+      setExpanded(null);
+    } else {
+      onClose();
+    }
+  };
+
+  const handleExport = async (trace: AgentTrace) => {
+    try {
+      await agentTracer.exportTrace(trace);
+    } catch (e: any) {
+      Alert.alert('Export Failed', e.message || 'Could not export the trace');
+    }
+  };
+
+  const handleClear = () => {
+    Alert.alert('Clear Traces', 'Delete all recorded agent runs?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Clear',
+        style: 'destructive',
+        onPress: async () => {
+          await agentTracer.clearTraces();
+          setTraces(await agentTracer.getTraces());
+        },
+      },
+    ]);
+  };
+
+  const statusColor = (status: AgentTrace['status']) =>
+    status === 'completed' ? theme.success : status === 'failed' ? theme.error : status === 'running' ? theme.accent : theme.textSecondary;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.headerContent}>
+          <TouchableOpacity onPress={handleBack} style={styles.closeButton}>
+            <Ionicons name={selected ? 'arrow-back' : 'close'} size={24} color={theme.text} />
+          </TouchableOpacity>
+          <View style={styles.headerCenter}>
+            <Text style={styles.headerTitle}>{selected ? 'Run Trace' : 'Agent Traces'}</Text>
+            <Text style={styles.headerSubtitle} numberOfLines={1}>
+              {selected
+                ? `${selected.events.length} events · ${selected.model}`
+                : `${traces.length} recorded run${traces.length === 1 ? '' : 's'}`}
+            </Text>
+          </View>
+          {selected ? (
+            <TouchableOpacity onPress={() => handleExport(selected)} style={styles.closeButton}>
+              <Ionicons name="share-outline" size={22} color={theme.text} />
+            </TouchableOpacity>
+          ) : traces.length > 0 ? (
+            <TouchableOpacity onPress={handleClear} style={styles.closeButton}>
+              <Ionicons name="trash-outline" size={22} color={theme.error} />
+            </TouchableOpacity>
+          ) : (
+            <View style={styles.placeholder} />
+          )}
+        </View>
+      </View>
+
+      <ScrollView style={styles.taskList} contentContainerStyle={styles.taskListContent}>
+        {!selected && traces.length === 0 && (
+          <Text style={styles.traceEmpty}>No agent runs recorded yet</Text>
+        )}
+
+        {!selected && traces.map((trace) => (
+          <TouchableOpacity key={trace.id} style={styles.taskCard} onPress={() => setSelectedId(trace.id)}>
+            <View style={styles.taskHeader}>
+              <Text style={styles.traceTime}>{new Date(trace.startedAt).toLocaleString()}</Text>
+              <View style={[styles.statusBadge, { backgroundColor: `${statusColor(trace.status)}15` }]}>
+                <Text style={[styles.statusText, { color: statusColor(trace.status) }]}>
+                  {trace.status.toUpperCase()}
+                </Text>
+              </View>
+            </View>
+            <Text style={styles.taskDescription} numberOfLines={2}>{trace.request}</Text>
+            <View style={styles.toolInfo}>
+              <Ionicons name="pulse" size={14} color={theme.textSecondary} />
+              <Text style={styles.toolName}>
+                {trace.events.length} events
+                {trace.endedAt ? ` · ${formatDuration(trace.endedAt - trace.startedAt)}` : ''}
+              </Text>
+            </View>
+          </TouchableOpacity>
+        ))}
+
+        {selected?.events.map((event, index) => (
+          <TouchableOpacity
+            key={index}
+            style={styles.traceEvent}
+            onPress={() => setExpanded(expanded === index ? null : index)}
+          >
+            <View style={styles.traceEventHeader}>
+              <Ionicons
+                name={TRACE_ICONS[event.type] as any}
+                size={16}
+                color={event.type === 'error' ? theme.error : theme.accent}
+              />
+              <Text style={styles.traceEventLabel} numberOfLines={1}>{event.label}</Text>
+              <Text style={styles.traceTime}>
+                {formatDuration(event.durationMs) || formatTime(event.time)}
+              </Text>
+            </View>
+            {expanded === index && event.data !== undefined && (
+              <ScrollView horizontal style={styles.traceData}>
+                <Text style={styles.traceDataText} selectable>
+                  {JSON.stringify(event.data, null, 2)}
+                </Text>
+              </ScrollView>
+            )}
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
 const createStyles = (theme: Theme) => StyleSheet.create({
   container: {
     flex: 1,
@@ -370,6 +833,12 @@ const createStyles = (theme: Theme) => StyleSheet.create({
     borderColor: theme.error,
     backgroundColor: `${theme.error}08`,
   },
+  taskCardBlocked: {
+    borderWidth: 1,
+    borderColor: theme.warning,
+    borderStyle: 'dashed',
+    opacity: 0.8,
+  },
   taskHeader: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -413,6 +882,11 @@ const createStyles = (theme: Theme) => StyleSheet.create({
     color: theme.textSecondary,
     fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
   },
+  approvalText: {
+    flex: 1,
+    fontSize: 12,
+    color: theme.textSecondary,
+  },
   resultContainer: {
     backgroundColor: theme.inputBackground,
     borderRadius: 8,
@@ -448,6 +922,21 @@ const createStyles = (theme: Theme) => StyleSheet.create({
     fontSize: 12,
     color: theme.error,
   },
+  blockedContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: `${theme.warning}15`,
+    borderRadius: 8,
+    padding: 10,
+    marginTop: 4,
+  },
+  blockedText: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '600',
+    color: theme.warning,
+  },
   paramsPreview: {
     alignSelf: 'flex-start',
     backgroundColor: theme.inputBackground,
@@ -498,4 +987,137 @@ const createStyles = (theme: Theme) => StyleSheet.create({
     fontWeight: '600',
     color: theme.error,
   },
+  reviewActions: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  reviewIconButton: {
+    padding: 6,
+  },
+  reviewInput: {
+    backgroundColor: theme.inputBackground,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: theme.border,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: theme.text,
+  },
+  reviewParam: {
+    gap: 6,
+  },
+  reviewParamInput: {
+    fontSize: 12,
+    maxHeight: 120,
+    fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
+  },
+  reviewAddButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.border,
+    borderStyle: 'dashed',
+  },
+  reviewAddText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.accent,
+  },
+  reviewButtonDisabled: {
+    opacity: 0.5,
+  },
+  reviewCatalog: {
+    backgroundColor: theme.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.border,
+  },
+  reviewCatalogItem: {
+    padding: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border,
+    gap: 4,
+  },
+  reviewCatalogDescription: {
+    fontSize: 12,
+    color: theme.textSecondary,
+  },
+  reviewFooter: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  reviewCancelButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.border,
+  },
+  reviewCancelText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.text,
+  },
+  reviewRunButton: {
+    flex: 2,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 14,
+    borderRadius: 12,
+    backgroundColor: theme.accent,
+  },
+  reviewRunText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  traceEmpty: {
+    fontSize: 14,
+    color: theme.textSecondary,
+    textAlign: 'center',
+    marginTop: 32,
+  },
+  traceTime: {
+    fontSize: 12,
+    color: theme.textSecondary,
+  },
+  traceEvent: {
+    backgroundColor: theme.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.border,
+    padding: 12,
+  },
+  traceEventHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  traceEventLabel: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: theme.text,
+  },
+  traceData: {
+    marginTop: 10,
+    maxHeight: 400,
+    backgroundColor: theme.inputBackground,
+    borderRadius: 8,
+    padding: 8,
+  },
+  traceDataText: {
+    fontSize: 11,
+    fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
+    color: theme.text,
+  },
 });
@@ -13,30 +13,35 @@ const TOOLS = [
     category: 'File Operations',
     icon: 'document-outline',
     tools: [
-      { name: 'read_file', desc: 'Read file contents', approval: false },
+      { name: 'read_file', desc: 'Read file contents or a line range', approval: false },
       { name: 'write_file', desc: 'Create or overwrite file', approval: true },
+      { name: 'edit_file', desc: 'Search/replace or patch part of a file', approval: true },
       { name: 'create_file', desc: 'Create new empty file', approval: true },
       { name: 'delete_file', desc: 'Delete file or folder', approval: true },
       { name: 'list_directory', desc: 'List files in directory', approval: false },
       { name: 'append_file', desc: 'Append content to file', approval: true },
+      { name: 'remember', desc: 'Save a project fact to .mobcode/MEMORY.md', approval: true },
     ],
   },
   {
     category: 'Search & Find',
     icon: 'search-outline',
     tools: [
-      { name: 'search_files', desc: 'Search text across all files', approval: false },
+      { name: 'search_files', desc: 'Search text or regex with include/exclude globs', approval: false },
+      { name: 'replace_in_files', desc: 'Find and replace across files (regex capture groups)', approval: true },
       { name: 'find_files', desc: 'Find files by name pattern', approval: false },
       { name: 'file_info', desc: 'Get file metadata', approval: false },
       { name: 'count_lines', desc: 'Count lines in file/project', approval: false },
       { name: 'list_imports', desc: 'Extract import statements', approval: false },
+      { name: 'find_symbol', desc: 'Find where a function, component or type is declared', approval: false },
+      { name: 'find_references', desc: 'Find the definition and uses of a symbol', approval: false },
     ],
   },
   {
     category: 'Terminal Commands',
     icon: 'terminal-outline',
     tools: [
-      { name: 'run_command', desc: 'Execute commands (ls, pwd, mkdir, cat, rm, grep, etc.)', approval: true },
+      { name: 'run_command', desc: 'Execute commands (ls, cat, grep...; npm, node, tsc with Remote Shell)', approval: true },
     ],
   },
   {
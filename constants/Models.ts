@@ -1,4 +1,12 @@
-export const AI_MODELS = [
+// vision: whether the model accepts image attachments (defaults by provider when omitted)
+export const AI_MODELS: Array<{
+  id: string;
+  name: string;
+  provider: string;
+  icon: string;
+  description: string;
+  vision?: boolean;
+}> = [
   // === 2026 FRONTIER MODELS ===
   {
     id: 'gpt-5.2',
@@ -124,13 +132,15 @@ export const AI_MODELS = [
     provider: 'DeepSeek (OR)',
     icon: 'code-working',
     description: 'Powerful reasoning model',
+    vision: false,
   },
   {
     id: 'openrouter/google/gemma-3-1b-it',
     name: 'Gemma 3 1B',
     provider: 'Google (OR)',
     icon: 'logo-google',
-    description: 'Lightweight multimodal model',
+    description: 'Lightweight text-only model',
+    vision: false,
   },
   {
     id: 'openrouter/openai/gpt-oss-20b',
@@ -138,6 +148,7 @@ export const AI_MODELS = [
     provider: 'OpenAI (OR)',
     icon: 'logo-github',
     description: 'Open-weight MoE model',
+    vision: false,
   },
   {
     id: 'openrouter/google/gemini-2.0-flash-exp:free',
@@ -145,6 +156,7 @@ export const AI_MODELS = [
     provider: 'Google (OR)',
     icon: 'flash',
     description: 'Free experimental model',
+    vision: true,
   },
 
   // === LOCAL MODELS ===
@@ -156,3 +168,63 @@ export const AI_MODELS = [
     description: 'Offline model (auto-download)',
   },
 ];
+
+// Estimated list prices in USD per 1M tokens, used for usage cost estimates.
+// Models missing here are still counted, but their cost is reported as unknown.
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  // OpenAI
+  'gpt-5.2': { input: 1.75, output: 14 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  // Anthropic
+  'claude-opus-4-5': { input: 5, output: 25 },
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-3.5-sonnet': { input: 3, output: 15 },
+  'claude-3-haiku': { input: 0.8, output: 4 }, // Routed to Claude 3.5 Haiku
+  // Google
+  'gemini-3-pro-preview-11-2025': { input: 2, output: 12 },
+  'gemini-3-flash-preview': { input: 0.5, output: 3 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  // xAI
+  'grok-4': { input: 3, output: 15 },
+  // Zhipu AI
+  'glm-4.7-coder': { input: 0.6, output: 2.2 },
+  // glm-4-coder has no published list price, so the model pickers mark it as having no cost estimate
+  // OpenRouter
+  'openrouter/deepseek/deepseek-r1': { input: 0.55, output: 2.19 },
+  'openrouter/openai/gpt-oss-20b': { input: 0.03, output: 0.15 },
+  'openrouter/google/gemini-2.0-flash-exp:free': { input: 0, output: 0 },
+  'openrouter/google/gemma-3-1b-it': { input: 0, output: 0 }, // Free on OpenRouter
+  // On-device
+  'local-qwen2.5-coder-1.5b': { input: 0, output: 0 },
+};
+
+// Context window sizes in tokens, used to decide when chat history must be summarized.
+// Models missing here (custom endpoints, Hugging Face, fetched OpenRouter models) use DEFAULT_CONTEXT_WINDOW.
+export const DEFAULT_CONTEXT_WINDOW = 32768;
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'gpt-5.2': 400000,
+  'gpt-4o': 128000,
+  'gpt-4o-mini': 128000,
+  'claude-opus-4-5': 200000,
+  'claude-sonnet-4-5': 200000,
+  'claude-haiku-4-5': 200000,
+  'claude-3.5-sonnet': 200000,
+  'claude-3-haiku': 200000,
+  'gemini-3-pro-preview-11-2025': 1048576,
+  'gemini-3-flash-preview': 1048576,
+  'gemini-2.5-pro': 1048576,
+  'gemini-2.5-flash': 1048576,
+  'gemini-1.5-flash': 1048576,
+  'grok-4': 256000,
+  'glm-4.7-coder': 200000,
+  'glm-4-coder': 128000,
+  'openrouter/deepseek/deepseek-r1': 64000,
+  'openrouter/google/gemma-3-1b-it': 32768,
+  'openrouter/openai/gpt-oss-20b': 131072,
+  'openrouter/google/gemini-2.0-flash-exp:free': 1048576,
+  'local-qwen2.5-coder-1.5b': 2048, // n_ctx in utils/localLlama.ts
+};
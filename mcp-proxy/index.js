@@ -10,13 +10,41 @@
 import express from 'express';
 import { spawn } from 'child_process';
 import cors from 'cors';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
+/**
+ * Project workspace shared with the app (file sync, remote shell and MCP servers).
+ * Sync and shell are disabled unless both WORKSPACE and WORKSPACE_TOKEN are set.
+ */
+const WORKSPACE = process.env.WORKSPACE
+  ? (fs.mkdirSync(path.resolve(process.env.WORKSPACE), { recursive: true }), fs.realpathSync(path.resolve(process.env.WORKSPACE)))
+  : null;
+const WORKSPACE_TOKEN = process.env.WORKSPACE_TOKEN || '';
+if (WORKSPACE && !WORKSPACE_TOKEN) {
+  console.warn('WORKSPACE is set without WORKSPACE_TOKEN: sync and the remote shell stay disabled.');
+}
+const MCP_ROOT = WORKSPACE || process.cwd();
+
+/**
+ * Browser origins allowed to call /sync and /shell. The app is native and
+ * sends no Origin, so by default no web page can use the workspace routes.
+ */
+const WORKSPACE_CORS_ORIGINS = (process.env.WORKSPACE_CORS_ORIGINS || '')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+const isWorkspaceRoute = (urlPath) => /^\/(sync|shell)(\/|$)/.test(urlPath);
+
 // Middleware
-app.use(cors());
-app.use(express.json());
+const openCors = cors();
+const workspaceCors = cors({ origin: WORKSPACE_CORS_ORIGINS.length > 0 ? WORKSPACE_CORS_ORIGINS : false });
+app.use((req, res, next) => (isWorkspaceRoute(req.path) ? workspaceCors : openCors)(req, res, next));
+app.use(express.json({ limit: '20mb' })); // Sync uploads carry whole files
 
 // Store running MCP server processes
 const processes = new Map();
@@ -29,7 +57,7 @@ const pendingRequests = new Map();
 const MCP_SERVERS = {
   filesystem: {
     cmd: 'npx',
-    args: ['-y', '@modelcontextprotocol/server-filesystem', process.cwd()],
+    args: ['-y', '@modelcontextprotocol/server-filesystem', MCP_ROOT],
     description: 'File system operations',
   },
   fetch: {
@@ -61,7 +89,7 @@ const MCP_SERVERS = {
     cmd: 'npx',
     args: ['-y', '@modelcontextprotocol/server-git'],
     description: 'Git operations',
-    allowedDir: process.cwd(),
+    allowedDir: MCP_ROOT,
   },
   github: {
     cmd: 'npx',
@@ -96,6 +124,7 @@ async function startServer(serverName) {
   console.log(`Starting ${serverName}...`);
 
   const proc = spawn(config.cmd, config.args, {
+    cwd: MCP_ROOT,
     env: { ...process.env },
   });
 
@@ -222,6 +251,333 @@ app.post('/mcp/:server', async (req, res) => {
   }
 });
 
+const isInsideWorkspace = (target) =>
+  target === WORKSPACE || target.startsWith(WORKSPACE + path.sep);
+
+/**
+ * Absolute path with symlinks resolved. Parts that don't exist yet are kept
+ * as written after the real path of their nearest existing parent. Returns
+ * null for a dangling symlink, whose target can't be checked.
+ */
+function realPath(target) {
+  let existing = target;
+  const missing = [];
+  for (;;) {
+    try {
+      fs.lstatSync(existing);
+      break;
+    } catch (error) {
+      const parent = path.dirname(existing);
+      if (parent === existing) return null;
+      missing.unshift(path.basename(existing));
+      existing = parent;
+    }
+  }
+  try {
+    return path.join(fs.realpathSync(existing), ...missing);
+  } catch (error) {
+    return null;
+  }
+}
+
+const isReallyInsideWorkspace = (target) => {
+  const real = realPath(target);
+  return real !== null && isInsideWorkspace(real);
+};
+
+/**
+ * Check that the workspace is configured and the request carries its token.
+ * Returns null when allowed, otherwise { status, error }.
+ */
+function checkWorkspaceAccess(req) {
+  if (!WORKSPACE) {
+    return { status: 403, error: 'No workspace configured. Start the proxy with WORKSPACE=/path/to/project.' };
+  }
+  // Without a token anyone who can reach the proxy could read and overwrite the workspace
+  if (!WORKSPACE_TOKEN) {
+    return { status: 403, error: 'Workspace access is disabled. Start the proxy with a WORKSPACE_TOKEN.' };
+  }
+  if (req.headers.authorization !== `Bearer ${WORKSPACE_TOKEN}`) {
+    return { status: 401, error: 'Invalid workspace token' };
+  }
+  return null;
+}
+
+/**
+ * Project sync
+ * Files are compared by git blob hash (sha1 of "blob <size>\0<content>"),
+ * which the app computes with isomorphic-git.
+ */
+const SYNC_IGNORED = new Set(['node_modules']); // Dot entries are skipped as well
+const SYNC_MAX_FILE_SIZE = 5 * 1024 * 1024;
+const hashCache = new Map(); // path -> { mtimeMs, size, hash }
+
+const hashBlob = (buffer) =>
+  crypto.createHash('sha1').update(`blob ${buffer.length}\0`).update(buffer).digest('hex');
+
+function hashFile(fullPath, stat) {
+  const cached = hashCache.get(fullPath);
+  if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+    return cached.hash;
+  }
+  const hash = hashBlob(fs.readFileSync(fullPath));
+  hashCache.set(fullPath, { mtimeMs: stat.mtimeMs, size: stat.size, hash });
+  return hash;
+}
+
+function buildManifest(dir = WORKSPACE, prefix = '', files = {}) {
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (entry.name.startsWith('.') || SYNC_IGNORED.has(entry.name)) continue;
+    const relPath = prefix ? `${prefix}/${entry.name}` : entry.name;
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      buildManifest(fullPath, relPath, files);
+    } else if (entry.isFile()) {
+      const stat = fs.statSync(fullPath);
+      if (stat.size <= SYNC_MAX_FILE_SIZE) {
+        files[relPath] = { hash: hashFile(fullPath, stat), size: stat.size };
+      }
+    }
+  }
+  return files;
+}
+
+/**
+ * Resolve a project-relative sync path, rejecting anything outside the workspace
+ * or inside ignored folders. Returns null for invalid paths.
+ */
+function resolveSyncPath(relPath) {
+  if (typeof relPath !== 'string' || !relPath || path.isAbsolute(relPath)) return null;
+  const segments = relPath.split(/[\\/]/);
+  if (segments.some((s) => !s || s === '..' || s.startsWith('.') || SYNC_IGNORED.has(s))) return null;
+  const fullPath = path.resolve(WORKSPACE, relPath);
+  return isInsideWorkspace(fullPath) ? fullPath : null;
+}
+
+const currentHash = (fullPath) => {
+  if (!fs.existsSync(fullPath)) return null;
+  return hashFile(fullPath, fs.statSync(fullPath));
+};
+
+app.get('/sync/manifest', (req, res) => {
+  const denied = checkWorkspaceAccess(req);
+  if (denied) return res.status(denied.status).json({ error: denied.error });
+  res.json({ files: buildManifest() });
+});
+
+app.get('/sync/file', (req, res) => {
+  const denied = checkWorkspaceAccess(req);
+  if (denied) return res.status(denied.status).json({ error: denied.error });
+
+  const fullPath = resolveSyncPath(req.query.path);
+  if (!fullPath) return res.status(400).json({ error: `Invalid path "${req.query.path}"` });
+  if (!fs.existsSync(fullPath)) return res.status(404).json({ error: `Not found: ${req.query.path}` });
+
+  const buffer = fs.readFileSync(fullPath);
+  res.json({ path: req.query.path, hash: hashBlob(buffer), content: buffer.toString('base64') });
+});
+
+/**
+ * Write a file. baseHash is the hash the app expects the remote file to have
+ * (null = must not exist); a mismatch means both sides changed -> 409.
+ */
+app.put('/sync/file', (req, res) => {
+  const denied = checkWorkspaceAccess(req);
+  if (denied) return res.status(denied.status).json({ error: denied.error });
+
+  const { path: relPath, content, baseHash } = req.body || {};
+  const fullPath = resolveSyncPath(relPath);
+  if (!fullPath) return res.status(400).json({ error: `Invalid path "${relPath}"` });
+  if (typeof content !== 'string') return res.status(400).json({ error: 'content (base64) is required' });
+
+  const existing = currentHash(fullPath);
+  if (baseHash !== undefined && existing !== baseHash) {
+    return res.status(409).json({ error: `Remote file changed: ${relPath}`, hash: existing });
+  }
+
+  const buffer = Buffer.from(content, 'base64');
+  fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+  fs.writeFileSync(fullPath, buffer);
+  console.log(`[sync] ← ${relPath} (${buffer.length} bytes)`);
+  res.json({ path: relPath, hash: hashBlob(buffer) });
+});
+
+app.delete('/sync/file', (req, res) => {
+  const denied = checkWorkspaceAccess(req);
+  if (denied) return res.status(denied.status).json({ error: denied.error });
+
+  const fullPath = resolveSyncPath(req.query.path);
+  if (!fullPath) return res.status(400).json({ error: `Invalid path "${req.query.path}"` });
+
+  const existing = currentHash(fullPath);
+  if (req.query.baseHash !== undefined && existing !== req.query.baseHash) {
+    return res.status(409).json({ error: `Remote file changed: ${req.query.path}`, hash: existing });
+  }
+
+  if (existing) {
+    fs.unlinkSync(fullPath);
+    hashCache.delete(fullPath);
+    console.log(`[sync] ✕ ${req.query.path}`);
+  }
+  res.json({ path: req.query.path, deleted: !!existing });
+});
+
+/**
+ * Remote shell (opt-in)
+ * Requires WORKSPACE, WORKSPACE_TOKEN and ENABLE_SHELL=1. Commands run without
+ * a shell, inside the workspace, limited to SHELL_ALLOWED_COMMANDS. This is
+ * not a sandbox: a command that runs code or follows its own config (node,
+ * npm scripts, git aliases, find -exec, tsc with a tsconfig outDir) can do
+ * anything the proxy's user can, so those commands are only allowed when
+ * listed in SHELL_ALLOWED_COMMANDS explicitly.
+ */
+const SHELL_REQUESTED = process.env.ENABLE_SHELL === '1';
+const SHELL_ENABLED = !!WORKSPACE && !!WORKSPACE_TOKEN && SHELL_REQUESTED;
+if (SHELL_REQUESTED && !SHELL_ENABLED) {
+  console.warn('ENABLE_SHELL=1 ignored: the remote shell needs both WORKSPACE and WORKSPACE_TOKEN.');
+}
+const SHELL_ALLOWED_COMMANDS = (process.env.SHELL_ALLOWED_COMMANDS
+  || 'ls,cat,head,tail,wc,grep,pwd,echo,mkdir,touch,cp,mv,rm')
+  .split(',')
+  .map((c) => c.trim())
+  .filter(Boolean);
+const SHELL_DEFAULT_TIMEOUT_MS = 60000;
+const SHELL_MAX_TIMEOUT_MS = 10 * 60000;
+const SHELL_MAX_OUTPUT = 1024 * 1024; // Per stream; the rest is dropped
+
+/**
+ * Validate a shell request and resolve its working directory.
+ * Returns { cwd } or { error, status }.
+ */
+function checkShellRequest(req) {
+  const denied = checkWorkspaceAccess(req);
+  if (denied) return denied;
+  if (!SHELL_ENABLED) {
+    return { status: 403, error: 'Remote shell is disabled. Start the proxy with ENABLE_SHELL=1 and a WORKSPACE_TOKEN.' };
+  }
+
+  const { command, args = [], cwd = '.' } = req.body || {};
+  if (typeof command !== 'string' || !command.trim()) {
+    return { status: 400, error: 'command is required' };
+  }
+  if (!SHELL_ALLOWED_COMMANDS.includes(command)) {
+    return { status: 403, error: `Command "${command}" is not allowed. Allowed: ${SHELL_ALLOWED_COMMANDS.join(', ')}` };
+  }
+  if (!Array.isArray(args) || args.some((arg) => typeof arg !== 'string')) {
+    return { status: 400, error: 'args must be an array of strings' };
+  }
+
+  const resolvedCwd = path.resolve(WORKSPACE, String(cwd));
+  if (!isReallyInsideWorkspace(resolvedCwd)) {
+    return { status: 403, error: `cwd "${cwd}" is outside the workspace` };
+  }
+  if (!fs.existsSync(resolvedCwd) || !fs.statSync(resolvedCwd).isDirectory()) {
+    return { status: 400, error: `cwd "${cwd}" does not exist` };
+  }
+
+  // Arguments, and the values of "--opt=value" and "-Xvalue" options, are
+  // treated as paths and must stay inside the workspace after symlinks
+  const escaping = args.find((arg) => {
+    const value = arg.startsWith('--') ? (arg.includes('=') ? arg.slice(arg.indexOf('=') + 1) : '')
+      : arg.startsWith('-') ? arg.slice(2)
+      : arg;
+    if (!value) return false;
+    return !isReallyInsideWorkspace(path.resolve(resolvedCwd, value));
+  });
+  if (escaping) {
+    return { status: 403, error: `Argument "${escaping}" points outside the workspace` };
+  }
+
+  return { cwd: resolvedCwd };
+}
+
+/**
+ * Run a command in the workspace and stream its output as NDJSON lines:
+ * {"type":"stdout"|"stderr","data":"..."} then {"type":"exit","code",...}
+ */
+app.post('/shell/exec', (req, res) => {
+  const check = checkShellRequest(req);
+  if (check.error) {
+    return res.status(check.status).json({ error: check.error });
+  }
+
+  const { command, args = [] } = req.body;
+  const timeoutMs = Math.min(Math.max(Number(req.body.timeoutMs) || SHELL_DEFAULT_TIMEOUT_MS, 1000), SHELL_MAX_TIMEOUT_MS);
+  const detached = process.platform !== 'win32';
+  const startTime = Date.now();
+
+  console.log(`[shell] ${command} ${args.join(' ')} (cwd: ${path.relative(WORKSPACE, check.cwd) || '.'})`);
+
+  res.writeHead(200, {
+    'Content-Type': 'application/x-ndjson',
+    'Cache-Control': 'no-cache',
+  });
+  const send = (event) => res.write(JSON.stringify(event) + '\n');
+
+  let proc;
+  try {
+    proc = spawn(command, args, {
+      cwd: check.cwd,
+      env: {
+        PATH: process.env.PATH,
+        HOME: WORKSPACE,
+        CI: '1',
+        FORCE_COLOR: '0',
+        TERM: 'dumb',
+      },
+      detached, // Own process group so a timeout kills child processes too
+      shell: process.platform === 'win32', // npm/npx are .cmd scripts on Windows
+    });
+  } catch (error) {
+    send({ type: 'exit', code: null, signal: null, timedOut: false, error: error.message, durationMs: 0 });
+    return res.end();
+  }
+
+  let finished = false;
+  let timedOut = false;
+  const outputSize = { stdout: 0, stderr: 0 };
+
+  const killProcess = () => {
+    try {
+      if (detached) process.kill(-proc.pid, 'SIGKILL');
+      else proc.kill('SIGKILL');
+    } catch (e) {
+      // Already exited
+    }
+  };
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    killProcess();
+  }, timeoutMs);
+
+  const forward = (type) => (data) => {
+    const remaining = SHELL_MAX_OUTPUT - outputSize[type];
+    if (remaining <= 0) return;
+    const text = data.toString();
+    outputSize[type] += text.length;
+    send({ type, data: text.length > remaining ? text.slice(0, remaining) + '\n... (output truncated)' : text });
+  };
+  proc.stdout.on('data', forward('stdout'));
+  proc.stderr.on('data', forward('stderr'));
+
+  const finish = (event) => {
+    if (finished) return;
+    finished = true;
+    clearTimeout(timer);
+    send({ type: 'exit', timedOut, durationMs: Date.now() - startTime, ...event });
+    res.end();
+  };
+
+  proc.on('error', (error) => finish({ code: null, signal: null, error: error.message }));
+  proc.on('close', (code, signal) => finish({ code, signal }));
+
+  // App disconnected or cancelled: stop the command
+  res.on('close', () => {
+    if (!finished) killProcess();
+  });
+});
+
 /**
  * Health check
  */
@@ -232,6 +588,10 @@ app.get('/health', (req, res) => {
       Array.from(processes.keys()).map(name => [name, 'running'])
     ),
     availableServers: Object.keys(MCP_SERVERS),
+    workspace: WORKSPACE ? { sync: !!WORKSPACE_TOKEN, requiresToken: true } : null,
+    shell: SHELL_ENABLED
+      ? { enabled: true, allowedCommands: SHELL_ALLOWED_COMMANDS }
+      : { enabled: false },
   });
 });
 
@@ -286,6 +646,9 @@ app.listen(PORT, () => {
 ║  Available MCP Servers:                                      ║
 ${Object.entries(MCP_SERVERS).map(([name, config]) => `║  • ${name.padEnd(20)} - ${config.description}`).join('\n')}
 ║                                                              ║
+║  Workspace:    ${(!WORKSPACE ? 'none (set WORKSPACE to enable sync)' : WORKSPACE_TOKEN ? WORKSPACE : 'disabled (needs WORKSPACE_TOKEN)').slice(-45).padEnd(45)} ║
+║  Remote shell: ${(SHELL_ENABLED ? 'enabled' : 'disabled (needs ENABLE_SHELL=1 + token)').padEnd(45)} ║
+║                                                              ║
 ║  Usage: POST /mcp/{server}                                   ║
 ║  Example: POST /mcp/filesystem                              ║
 ║           { "jsonrpc": "2.0", "method": "tools/list" }      ║
@@ -0,0 +1,69 @@
+/**
+ * Agent Modes
+ * Each chat runs the agent in one mode, which adds its own instructions to
+ * the planning prompt and limits the tools the agent can plan and run.
+ */
+
+import { TOOL_CATEGORIES } from './approvalPolicy';
+import { AgentMode } from './storage';
+
+export type { AgentMode };
+
+export interface AgentModeConfig {
+  id: AgentMode;
+  label: string;
+  icon: string; // Ionicons name
+  description: string;
+  prompt: string; // Appended to the planning system prompt
+  readOnly: boolean; // Only read tools may be planned or run
+  executes: boolean; // false: the plan is returned without running it
+  reviewsPlan: boolean; // The first plan opens for review (edit, re-plan or run) before anything runs
+}
+
+export const DEFAULT_AGENT_MODE: AgentMode = 'autonomous';
+
+export const AGENT_MODES: Record<AgentMode, AgentModeConfig> = {
+  ask: {
+    id: 'ask',
+    label: 'Ask',
+    icon: 'chatbubble-ellipses-outline',
+    description: 'Answers questions using read-only tools; never changes files',
+    prompt: `## Mode: Ask
+Answer the user's questions about the project. Only read-only tools are available: read files, list folders and search to find what you need.
+NEVER create, edit or delete files or run commands. If the user asks for a change, explain what you would change and suggest switching to Autonomous mode.`,
+    readOnly: true,
+    executes: true,
+    reviewsPlan: false,
+  },
+  plan: {
+    id: 'plan',
+    label: 'Plan',
+    icon: 'list-outline',
+    description: 'Produces a plan for review and stops; it runs only if you tap Run plan',
+    prompt: `## Mode: Plan only
+Produce the complete plan for the request, including the steps that read files before changing them. The plan is shown to the user and does NOT run now, so do not wait for results.`,
+    readOnly: false,
+    executes: false,
+    reviewsPlan: true,
+  },
+  autonomous: {
+    id: 'autonomous',
+    label: 'Auto',
+    icon: 'flash-outline',
+    description: 'Plans and runs steps, asking only where the approval rules require',
+    prompt: `## Mode: Autonomous
+Carry out the request with the tools. Steps run automatically; the user's approval rules decide which ones ask first.`,
+    readOnly: false,
+    executes: true,
+    reviewsPlan: false,
+  },
+};
+
+export const isModeTool = (mode: AgentMode, tool: string): boolean =>
+  !AGENT_MODES[mode].readOnly || TOOL_CATEGORIES[tool] === 'read';
+
+/**
+ * The subset of tools the agent may use in a mode
+ */
+export const getModeTools = (mode: AgentMode, tools: string[]): string[] =>
+  tools.filter((tool) => isModeTool(mode, tool));
@@ -0,0 +1,93 @@
+/**
+ * Agent Trace
+ * Records what happened during an agent run: prompts sent, raw and repaired
+ * model output, parsed plans, approvals and tool calls with their timing.
+ * The last few traces are kept in storage for the trace viewer and export.
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Sharing from 'expo-sharing';
+import { storage, AgentTrace, TraceEvent, TraceEventType } from './storage';
+import { redactSecrets } from './secrets';
+
+const MAX_TRACES = 10;
+const MAX_STRING_LENGTH = 20000; // Per string field, so a single file write can't bloat storage
+const MAX_EVENTS = 500;
+
+/**
+ * Copy of a value with long strings shortened
+ */
+const truncateStrings = (value: any, depth = 0): any => {
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.substring(0, MAX_STRING_LENGTH)}… (${value.length - MAX_STRING_LENGTH} more characters)`
+      : value;
+  }
+  if (!value || typeof value !== 'object' || depth > 8) return value;
+  if (Array.isArray(value)) return value.map((item) => truncateStrings(item, depth + 1));
+  const result: Record<string, any> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = truncateStrings(item, depth + 1);
+  }
+  return result;
+};
+
+class AgentTracer {
+  private current: AgentTrace | null = null;
+  private saveQueue: Promise<void> = Promise.resolve();
+
+  start(id: string, request: string, model: string): void {
+    this.current = {
+      id,
+      request,
+      model,
+      startedAt: Date.now(),
+      status: 'running',
+      events: [],
+    };
+  }
+
+  record(type: TraceEventType, label: string, data?: any, durationMs?: number): void {
+    if (!this.current) return;
+    if (this.current.events.length >= MAX_EVENTS) return;
+    const event: TraceEvent = { type, time: Date.now(), label, durationMs, data: truncateStrings(data) };
+    this.current.events.push(event);
+  }
+
+  finish(status: AgentTrace['status']): void {
+    if (!this.current) return;
+    const trace = { ...this.current, status, endedAt: Date.now() };
+    this.current = null;
+    console.log('[Trace] Run finished:', status, trace.events.length, 'events');
+    this.saveQueue = this.saveQueue.then(async () => {
+      const traces = await storage.getAgentTraces();
+      await storage.setAgentTraces([trace, ...traces.filter((t) => t.id !== trace.id)].slice(0, MAX_TRACES));
+    });
+  }
+
+  /**
+   * Stored traces, newest first, with the running one on top
+   */
+  async getTraces(): Promise<AgentTrace[]> {
+    await this.saveQueue;
+    const traces = await storage.getAgentTraces();
+    return this.current ? [{ ...this.current, events: [...this.current.events] }, ...traces] : traces;
+  }
+
+  async clearTraces(): Promise<void> {
+    await this.saveQueue;
+    await storage.setAgentTraces([]);
+  }
+
+  /**
+   * Write a trace to a JSON file and open the share sheet
+   */
+  async exportTrace(trace: AgentTrace): Promise<void> {
+    const json = redactSecrets(JSON.stringify(trace, null, 2));
+    const path = `${FileSystem.cacheDirectory}agent-trace-${trace.id}.json`;
+    await FileSystem.writeAsStringAsync(path, json, { encoding: FileSystem.EncodingType.UTF8 });
+    await Sharing.shareAsync(path, { mimeType: 'application/json', dialogTitle: 'Export agent trace' });
+  }
+}
+
+export const agentTracer = new AgentTracer();
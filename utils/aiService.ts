@@ -1,5 +1,9 @@
 import { CustomModel } from './storage';
 import { LOCAL_MODEL_ID, streamLocalChat } from './localLlama';
+import type { Tool } from './toolRegistry';
+import { OUTPUT_OFFSET_PARAMETER } from './toolOutput';
+import { AI_MODELS } from '../constants/Models';
+import { usageTracker } from './usageTracker';
 
 // === MODEL MAPPING HELPERS ===
 
@@ -79,14 +83,326 @@ function getGeminiMaxTokens(model: string): number {
   return 8192;
 }
 
+// === MULTIMODAL CONTENT HELPERS ===
+
+/**
+ * Whether the model accepts image input. GLM, local, Hugging Face and custom
+ * endpoints are treated as text-only; OpenRouter models opt in via AI_MODELS.
+ */
+export function supportsVision(model: string, customModels: CustomModel[] = []): boolean {
+  if (customModels.some((m) => m.id === model)) return false;
+  const known = AI_MODELS.find((m) => m.id === model);
+  if (known && known.vision !== undefined) return known.vision;
+  return model.startsWith('gpt') || model.startsWith('claude') || model.startsWith('anthropic') || model.startsWith('gemini');
+}
+
+// Tool calls and results are rendered as text for text-only providers, summaries and journals
+export function getMessageText(content: AIMessage['content']): string {
+  if (typeof content === 'string') return content;
+  return content
+    .map((part) => {
+      if (part.type === 'text') return part.text;
+      if (part.type === 'tool_call') return `${part.name}(${JSON.stringify(part.arguments)})`;
+      if (part.type === 'tool_result') return `${part.name} ${part.isError ? 'failed' : 'returned'}:\n${part.content}`;
+      return '';
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+const hasToolResults = (m: AIMessage) => typeof m.content !== 'string' && m.content.some((part) => part.type === 'tool_result');
+
+/**
+ * Fold the user message that follows tool results into the same turn, so
+ * providers that require alternating roles get the results and the next
+ * instructions together
+ */
+function mergeToolResultTurns(messages: AIMessage[]): AIMessage[] {
+  const toParts = (content: AIMessage['content']): AIContentPart[] =>
+    typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+  return messages.reduce<AIMessage[]>((merged, m) => {
+    const last = merged[merged.length - 1];
+    if (last && m.role === 'user' && last.role === 'user' && hasToolResults(last)) {
+      merged[merged.length - 1] = { ...last, content: [...toParts(last.content), ...toParts(m.content)] };
+    } else {
+      merged.push(m);
+    }
+    return merged;
+  }, []);
+}
+
+function hasImageContent(messages: AIMessage[]): boolean {
+  return messages.some((m) => typeof m.content !== 'string' && m.content.some((part) => part.type === 'image'));
+}
+
+function getModelName(model: string, customModels: CustomModel[]): string {
+  return customModels.find((m) => m.id === model)?.name
+    || AI_MODELS.find((m) => m.id === model)?.name
+    || model;
+}
+
+function toOpenAIMessages(messages: AIMessage[]) {
+  return messages.flatMap((m): any[] => {
+    if (typeof m.content === 'string') return [{ role: m.role, content: m.content }];
+
+    const calls = m.content.filter((part): part is AIToolCallPart => part.type === 'tool_call');
+    const results = m.content.filter((part): part is AIToolResultPart => part.type === 'tool_result');
+    const rest = m.content.filter((part): part is AITextPart | AIImagePart => part.type === 'text' || part.type === 'image');
+    const content = rest.map((part) => part.type === 'text'
+      ? { type: 'text', text: part.text }
+      : { type: 'image_url', image_url: { url: `data:${part.mimeType};base64,${part.data}` } });
+
+    if (calls.length > 0) {
+      return [{
+        role: 'assistant',
+        content: getMessageText(rest) || null,
+        tool_calls: calls.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: { name: toProviderToolName(call.name), arguments: JSON.stringify(call.arguments) },
+        })),
+      }];
+    }
+    // Tool results are separate "tool" messages, followed by the rest of the user turn
+    return [
+      ...results.map((result) => ({ role: 'tool', tool_call_id: result.toolCallId, content: result.content })),
+      ...(content.length > 0 || results.length === 0 ? [{ role: m.role, content }] : []),
+    ];
+  });
+}
+
+function toAnthropicMessages(messages: AIMessage[]) {
+  return mergeToolResultTurns(messages.filter((m) => m.role !== 'system'))
+    .map((m) => ({
+      role: m.role,
+      content: typeof m.content === 'string'
+        ? m.content
+        : m.content.map((part) => {
+          switch (part.type) {
+            case 'text':
+              return { type: 'text', text: part.text };
+            case 'image':
+              return { type: 'image', source: { type: 'base64', media_type: part.mimeType, data: part.data } };
+            case 'tool_call':
+              return { type: 'tool_use', id: part.id, name: toProviderToolName(part.name), input: part.arguments };
+            case 'tool_result':
+              return { type: 'tool_result', tool_use_id: part.toolCallId, content: part.content, ...(part.isError ? { is_error: true } : {}) };
+          }
+        }),
+    }));
+}
+
+function toGeminiParts(content: AIMessage['content']) {
+  if (typeof content === 'string') return [{ text: content }];
+  return content.map((part) => {
+    switch (part.type) {
+      case 'text':
+        return { text: part.text };
+      case 'image':
+        return { inlineData: { mimeType: part.mimeType, data: part.data } };
+      case 'tool_call':
+        return { functionCall: { name: toProviderToolName(part.name), args: part.arguments } };
+      case 'tool_result':
+        return { functionResponse: { name: toProviderToolName(part.name), response: part.isError ? { error: part.content } : { output: part.content } } };
+    }
+  });
+}
+
+// Text-only providers get plain string content
+function toTextMessages(messages: AIMessage[]) {
+  return messages.map((m) => ({ role: m.role, content: getMessageText(m.content) }));
+}
+
+// === NATIVE TOOL CALLING HELPERS ===
+
+// Provider function names only allow [a-zA-Z0-9_-], so MCP tools ("server/tool") are encoded
+function toProviderToolName(name: string): string {
+  return name.replace(/\//g, '__');
+}
+
+function fromProviderToolName(name: string, tools: Tool[]): string {
+  const match = tools.find((t) => toProviderToolName(t.name) === name);
+  return match ? match.name : name.replace(/__/g, '/');
+}
+
+function toJSONSchema(tool: Tool): { type: 'object'; properties: Record<string, any>; required: string[] } {
+  const properties: Record<string, any> = {};
+  // Every tool takes an offset for paged output unless it declares its own
+  const parameters = tool.parameters.some((p) => p.name === OUTPUT_OFFSET_PARAMETER.name)
+    ? tool.parameters
+    : [...tool.parameters, OUTPUT_OFFSET_PARAMETER];
+  for (const param of parameters) {
+    const schema: any = { type: param.type, description: param.description };
+    if (param.type === 'array') schema.items = param.items || { type: 'string' };
+    properties[param.name] = schema;
+  }
+  return {
+    type: 'object',
+    properties,
+    required: tool.parameters.filter((p) => p.required).map((p) => p.name),
+  };
+}
+
+function toOpenAITools(tools: Tool[]) {
+  return tools.map((tool) => ({
+    type: 'function',
+    function: {
+      name: toProviderToolName(tool.name),
+      description: tool.description,
+      parameters: toJSONSchema(tool),
+    },
+  }));
+}
+
+function toAnthropicTools(tools: Tool[]) {
+  return tools.map((tool) => ({
+    name: toProviderToolName(tool.name),
+    description: tool.description,
+    input_schema: toJSONSchema(tool),
+  }));
+}
+
+function toGeminiTools(tools: Tool[]) {
+  return [{
+    functionDeclarations: tools.map((tool) => ({
+      name: toProviderToolName(tool.name),
+      description: tool.description,
+      // Never an empty OBJECT schema (which Gemini rejects): every tool has at least offset
+      parameters: toJSONSchema(tool),
+    })),
+  }];
+}
+
+function parseToolArguments(raw: string): Record<string, any> {
+  if (!raw || !raw.trim()) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (e) {
+    console.log('Failed to parse tool call arguments:', raw.substring(0, 200));
+    return {};
+  }
+}
+
+/**
+ * Collects streamed tool-call fragments (keyed by provider index) into complete calls
+ */
+class ToolCallAccumulator {
+  private calls = new Map<number, { id: string; name: string; args: string }>();
+
+  append(index: number, part: { id?: string; name?: string; args?: string }) {
+    const current = this.calls.get(index) || { id: '', name: '', args: '' };
+    if (part.id) current.id = part.id;
+    if (part.name) current.name = part.name;
+    if (part.args) current.args += part.args;
+    this.calls.set(index, current);
+  }
+
+  finish(tools: Tool[]): AIToolCall[] {
+    return Array.from(this.calls.entries())
+      .sort(([a], [b]) => a - b)
+      .filter(([, call]) => call.name)
+      .map(([index, call]) => ({
+        id: call.id || `call_${index}`,
+        name: fromProviderToolName(call.name, tools),
+        arguments: parseToolArguments(call.args),
+      }));
+  }
+}
+
+// === TOKEN USAGE HELPERS ===
+
+// OpenAI-compatible usage block (OpenAI, OpenRouter, GLM, custom endpoints)
+function parseOpenAIUsage(usage: any): AIUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.prompt_tokens || 0,
+    completionTokens: usage.completion_tokens || 0,
+  };
+}
+
+// Gemini reports thinking tokens separately; they are billed as output
+function parseGeminiUsage(metadata: any): AIUsage | undefined {
+  if (!metadata) return undefined;
+  return {
+    promptTokens: metadata.promptTokenCount || 0,
+    completionTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0),
+  };
+}
+
+/**
+ * Whether the model's provider supports native tool/function calling.
+ * GLM, custom endpoints, local and Hugging Face models use the JSON plan fallback.
+ */
+export function supportsNativeTools(model: string, customModels: CustomModel[] = []): boolean {
+  if (customModels.some((m) => m.id === model)) return false;
+  return model.startsWith('gpt') || model.startsWith('claude') || model.startsWith('anthropic') || model.startsWith('gemini');
+}
+
+export interface AITextPart {
+  type: 'text';
+  text: string;
+}
+
+export interface AIImagePart {
+  type: 'image';
+  mimeType: string; // e.g. 'image/jpeg'
+  data: string; // Base64 without the data: URL prefix
+}
+
+// A native tool call the assistant made in an earlier turn
+export interface AIToolCallPart {
+  type: 'tool_call';
+  id: string;
+  name: string; // Registry tool name
+  arguments: Record<string, any>;
+}
+
+// The result of an earlier tool call, sent back in the following user turn
+export interface AIToolResultPart {
+  type: 'tool_result';
+  toolCallId: string;
+  name: string;
+  content: string;
+  isError?: boolean;
+}
+
+export type AIContentPart = AITextPart | AIImagePart | AIToolCallPart | AIToolResultPart;
+
 export interface AIMessage {
   role: 'user' | 'assistant' | 'system';
-  content: string;
+  content: string | AIContentPart[];
+  pinned?: boolean; // Kept verbatim when history is summarized (not sent to providers)
+}
+
+export interface AIToolCall {
+  id: string;
+  name: string; // Registry tool name (MCP tools keep their "server/tool" form)
+  arguments: Record<string, any>;
+}
+
+export interface AIUsage {
+  promptTokens: number;
+  completionTokens: number;
 }
 
 export interface AIResponse {
   content: string;
   error?: string;
+  toolCalls?: AIToolCall[];
+  usage?: AIUsage; // As reported by the provider; missing when it doesn't report usage
+}
+
+export interface StreamChatOptions {
+  tools?: Tool[]; // Sent as native tool schemas when the provider supports them
+  signal?: AbortSignal; // Aborts the request; the response keeps what streamed so far
+}
+
+export const CANCELLED_ERROR = 'Cancelled';
+
+// Abort the XHR when the run is cancelled
+function abortOnSignal(xhr: XMLHttpRequest, signal?: AbortSignal) {
+  signal?.addEventListener('abort', () => xhr.abort());
 }
 
 interface OpenAIResponse {
@@ -95,6 +411,10 @@ interface OpenAIResponse {
       content: string;
     };
   }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+  };
 }
 
 interface AnthropicResponse {
@@ -102,6 +422,10 @@ interface AnthropicResponse {
     type: string;
     text: string;
   }>;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
 }
 
 interface CustomAPIResponse {
@@ -110,6 +434,7 @@ interface CustomAPIResponse {
   text?: string;
   content?: string;
   choices?: Array<{ message: { content: string } }>;
+  usage?: { prompt_tokens: number; completion_tokens: number };
 }
 
 interface HFResponse {
@@ -128,13 +453,24 @@ class AIService {
     onToken: (token: string) => void,
     hfApiKey?: string,
     geminiApiKey?: string,
-    openRouterApiKey?: string
+    openRouterApiKey?: string,
+    options: StreamChatOptions = {}
   ): Promise<AIResponse> {
     // Log incoming request
     console.log('=== AI SERVICE STREAM REQUEST ===');
     console.log('Model:', model);
     console.log('Messages count:', messages.length);
-    console.log('Last user message:', messages[messages.length - 1]?.content?.substring(0, 200) || 'No message');
+    console.log('Last user message:', getMessageText(messages[messages.length - 1]?.content || '').substring(0, 200) || 'No message');
+
+    if (hasImageContent(messages) && !supportsVision(model, customModels)) {
+      console.log('ERROR: Images sent to text-only model', model);
+      return this.visionUnsupported(model, customModels);
+    }
+
+    const { signal } = options;
+    if (signal?.aborted) {
+      return { content: '', error: CANCELLED_ERROR };
+    }
 
     // Check if it's a custom model
     const customModel = customModels.find((m) => m.id === model);
@@ -143,33 +479,40 @@ class AIService {
       console.log('Using custom model:', customModel.name);
       // For now, treat custom models as non-streaming unless we implement generic SSE
       // Fallback to normal chat but call onToken at the end
-      const response = await this.callCustomAPI(messages, customModel);
+      const response = await this.callCustomAPI(messages, customModel, signal);
       console.log('Custom model response length:', response.content?.length || 0);
       onToken(response.content);
+      this.recordUsage(model, response);
       return response;
     }
 
     let result: AIResponse;
+    const tools = options.tools && options.tools.length > 0 && supportsNativeTools(model, customModels)
+      ? options.tools
+      : [];
+    if (tools.length > 0) {
+      console.log('Native tools:', tools.length);
+    }
 
     if (model.startsWith('gpt')) {
       console.log('Routing to OpenAI stream');
-      result = await this.streamOpenAI(messages, model, apiKey, onToken);
+      result = await this.streamOpenAI(messages, model, apiKey, onToken, tools, signal);
     } else if (model.startsWith('claude') || model.startsWith('anthropic')) {
       console.log('Routing to Anthropic stream');
-      result = await this.streamAnthropic(messages, model, apiKey, onToken);
+      result = await this.streamAnthropic(messages, model, apiKey, onToken, tools, signal);
     } else if (model.startsWith('gemini')) {
       console.log('Routing to Gemini stream');
-      result = await this.streamGemini(messages, model, geminiApiKey, onToken);
+      result = await this.streamGemini(messages, model, geminiApiKey, onToken, tools, signal);
     } else if (model.startsWith('glm')) {
       console.log('Routing to GLM stream');
-      result = await this.streamGLM(messages, model, apiKey, onToken);
+      result = await this.streamGLM(messages, model, apiKey, onToken, signal);
     } else if (model.startsWith('openrouter/')) {
       console.log('Routing to OpenRouter stream');
       const key = openRouterApiKey || apiKey;
-      result = await this.streamOpenRouter(messages, model, key, onToken);
+      result = await this.streamOpenRouter(messages, model, key, onToken, signal);
     } else if (model === LOCAL_MODEL_ID) {
       console.log('Routing to Local model');
-      result = await this.streamLocal(messages, onToken);
+      result = await this.streamLocal(messages, onToken, signal);
     } else if (model.startsWith('hf-') || model.startsWith('liquidai/') || model.includes('/')) {
       console.log('Routing to HuggingFace stream');
       // Hugging Face model (hf- prefix or contains / like "LiquidAI/LFM2.5-1.2B-Thinking")
@@ -185,10 +528,14 @@ class AIService {
     console.log('=== STREAM RESPONSE COMPLETE ===');
     console.log('Response length:', result.content?.length || 0);
     console.log('Has error:', !!result.error);
+    if (result.toolCalls?.length) {
+      console.log('Tool calls:', result.toolCalls.map((c) => c.name).join(', '));
+    }
     if (result.error) {
       console.log('Error:', result.error);
     }
 
+    this.recordUsage(model, result);
     return result;
   }
 
@@ -196,7 +543,9 @@ class AIService {
     messages: AIMessage[],
     model: string,
     apiKey: string | undefined,
-    onToken: (token: string) => void
+    onToken: (token: string) => void,
+    tools: Tool[] = [],
+    signal?: AbortSignal
   ): Promise<AIResponse> {
     return new Promise((resolve) => {
       if (!apiKey) {
@@ -213,36 +562,59 @@ class AIService {
       xhr.setRequestHeader('Authorization', `Bearer ${apiKey}`);
 
       let lastIndex = 0;
+      let pending = '';
       let fullContent = '';
+      let usage: AIUsage | undefined;
+      const toolCalls = new ToolCallAccumulator();
+
+      const handleLine = (line: string) => {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data: ') || trimmed === 'data: [DONE]') return;
+        try {
+          const data = JSON.parse(trimmed.slice(6));
+          // Sent in a final chunk with no choices (stream_options.include_usage)
+          if (data.usage) usage = parseOpenAIUsage(data.usage);
+          const delta = data.choices?.[0]?.delta;
+          const token = delta?.content || '';
+          if (token) {
+            fullContent += token;
+            onToken(token);
+          }
+          for (const call of delta?.tool_calls || []) {
+            toolCalls.append(call.index ?? 0, {
+              id: call.id,
+              name: call.function?.name,
+              args: call.function?.arguments,
+            });
+          }
+        } catch (e) {
+          // Ignore parse errors for partial chunks
+        }
+      };
 
       xhr.onprogress = () => {
         const currIndex = xhr.responseText.length;
         if (lastIndex === currIndex) return;
 
-        const chunk = xhr.responseText.substring(lastIndex, currIndex);
+        const chunk = pending + xhr.responseText.substring(lastIndex, currIndex);
         lastIndex = currIndex;
 
+        // Keep the trailing partial line for the next chunk so tool-call JSON isn't dropped
         const lines = chunk.split('\n');
+        pending = lines.pop() || '';
         for (const line of lines) {
-          const trimmed = line.trim();
-          if (trimmed.startsWith('data: ') && trimmed !== 'data: [DONE]') {
-            try {
-              const data = JSON.parse(trimmed.slice(6));
-              const token = data.choices?.[0]?.delta?.content || '';
-              if (token) {
-                fullContent += token;
-                onToken(token);
-              }
-            } catch (e) {
-              // Ignore parse errors for partial chunks
-            }
-          }
+          handleLine(line);
         }
       };
 
       xhr.onload = () => {
+        if (pending) {
+          handleLine(pending);
+          pending = '';
+        }
         if (xhr.status >= 200 && xhr.status < 300) {
-          resolve({ content: fullContent });
+          const calls = toolCalls.finish(tools);
+          resolve({ content: fullContent, toolCalls: calls.length > 0 ? calls : undefined, usage });
         } else {
           resolve({ content: xhr.responseText, error: 'API Error' });
         }
@@ -252,11 +624,18 @@ class AIService {
         resolve({ content: 'Network error', error: 'Network error' });
       };
 
+      xhr.onabort = () => {
+        resolve({ content: fullContent, error: CANCELLED_ERROR });
+      };
+      abortOnSignal(xhr, signal);
+
       xhr.send(JSON.stringify({
         model: getOpenAIModelId(model),
-        messages: messages,
+        messages: toOpenAIMessages(messages),
         max_tokens: getOpenAIMaxTokens(model),
         stream: true,
+        stream_options: { include_usage: true },
+        ...(tools.length > 0 ? { tools: toOpenAITools(tools) } : {}),
       }));
     });
   }
@@ -265,7 +644,9 @@ class AIService {
     messages: AIMessage[],
     model: string,
     apiKey: string | undefined,
-    onToken: (token: string) => void
+    onToken: (token: string) => void,
+    tools: Tool[] = [],
+    signal?: AbortSignal
   ): Promise<AIResponse> {
     return new Promise((resolve) => {
       if (!apiKey) {
@@ -283,38 +664,65 @@ class AIService {
       xhr.setRequestHeader('anthropic-version', '2023-06-01');
 
       let lastIndex = 0;
+      let pending = '';
       let fullContent = '';
+      let usage: AIUsage | undefined;
+      const toolCalls = new ToolCallAccumulator();
+
+      const handleLine = (line: string) => {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data: ')) return;
+        try {
+          const data = JSON.parse(trimmed.slice(6));
+          if (data.type === 'message_start' && data.message?.usage) {
+            usage = {
+              promptTokens: data.message.usage.input_tokens || 0,
+              completionTokens: data.message.usage.output_tokens || 0,
+            };
+          } else if (data.type === 'message_delta' && data.usage) {
+            // output_tokens here is the running total for the message
+            usage = {
+              promptTokens: usage?.promptTokens || 0,
+              completionTokens: data.usage.output_tokens || 0,
+            };
+          } else if (data.type === 'content_block_delta' && data.delta?.type === 'text_delta') {
+            const token = data.delta.text;
+            if (token) {
+              fullContent += token;
+              onToken(token);
+            }
+          } else if (data.type === 'content_block_start' && data.content_block?.type === 'tool_use') {
+            toolCalls.append(data.index, { id: data.content_block.id, name: data.content_block.name });
+          } else if (data.type === 'content_block_delta' && data.delta?.type === 'input_json_delta') {
+            toolCalls.append(data.index, { args: data.delta.partial_json });
+          }
+        } catch (e) {
+          // Ignore parse errors
+        }
+      };
 
       xhr.onprogress = () => {
         const currIndex = xhr.responseText.length;
         if (lastIndex === currIndex) return;
 
-        const chunk = xhr.responseText.substring(lastIndex, currIndex);
+        const chunk = pending + xhr.responseText.substring(lastIndex, currIndex);
         lastIndex = currIndex;
 
         const lines = chunk.split('\n');
+        pending = lines.pop() || '';
         for (const line of lines) {
-          const trimmed = line.trim();
-          if (trimmed.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(trimmed.slice(6));
-              if (data.type === 'content_block_delta' && data.delta?.type === 'text_delta') {
-                const token = data.delta.text;
-                if (token) {
-                  fullContent += token;
-                  onToken(token);
-                }
-              }
-            } catch (e) {
-              // Ignore parse errors
-            }
-          }
+          handleLine(line);
         }
       };
 
       xhr.onload = () => {
+        if (pending) {
+          handleLine(pending);
+          pending = '';
+        }
         if (xhr.status >= 200 && xhr.status < 300) {
-          resolve({ content: fullContent });
+          const calls = toolCalls.finish(tools);
+          resolve({ content: fullContent, toolCalls: calls.length > 0 ? calls : undefined, usage });
         } else {
           resolve({ content: xhr.responseText, error: 'API Error' });
         }
@@ -324,12 +732,18 @@ class AIService {
         resolve({ content: 'Network error', error: 'Network error' });
       };
 
+      xhr.onabort = () => {
+        resolve({ content: fullContent, error: CANCELLED_ERROR });
+      };
+      abortOnSignal(xhr, signal);
+
       xhr.send(JSON.stringify({
         model: getAnthropicModelId(model),
         max_tokens: getAnthropicMaxTokens(model),
-        messages: messages.filter((m) => m.role !== 'system'),
-        system: messages.find((m) => m.role === 'system')?.content || '',
+        messages: toAnthropicMessages(messages),
+        system: getMessageText(messages.find((m) => m.role === 'system')?.content || ''),
         stream: true,
+        ...(tools.length > 0 ? { tools: toAnthropicTools(tools) } : {}),
       }));
     });
   }
@@ -338,7 +752,9 @@ class AIService {
     messages: AIMessage[],
     model: string,
     apiKey: string | undefined,
-    onToken: (token: string) => void
+    onToken: (token: string) => void,
+    tools: Tool[] = [],
+    signal?: AbortSignal
   ): Promise<AIResponse> {
     return new Promise((resolve) => {
       if (!apiKey) {
@@ -353,15 +769,15 @@ class AIService {
       const geminiModel = getGeminiModelId(model);
 
       // Build contents array for Gemini API
-      const contents = messages
-        .filter(m => m.role !== 'system')
+      const contents = mergeToolResultTurns(messages.filter(m => m.role !== 'system'))
         .map(m => ({
           role: m.role === 'assistant' ? 'model' : 'user',
-          parts: [{ text: m.content }]
+          parts: toGeminiParts(m.content)
         }));
 
       // Add system instruction if present
-      const systemInstruction = messages.find(m => m.role === 'system')?.content;
+      const systemContent = messages.find(m => m.role === 'system')?.content;
+      const systemInstruction = systemContent ? getMessageText(systemContent) : undefined;
 
       const xhr = new XMLHttpRequest();
       xhr.open('POST', `https://generativelanguage.googleapis.com/v1beta/models/${geminiModel}:streamGenerateContent?key=${apiKey}`);
@@ -370,6 +786,8 @@ class AIService {
       let fullContent = '';
       let lastIndex = 0;
       let pending = '';
+      let usage: AIUsage | undefined;
+      const functionCalls: AIToolCall[] = [];
 
       const extractText = (data: any) => {
         const parts = data?.candidates?.[0]?.content?.parts;
@@ -377,6 +795,29 @@ class AIService {
         return parts.map((part: any) => part?.text || '').join('');
       };
 
+      // Gemini sends each functionCall complete (not as deltas)
+      const collectFunctionCalls = (data: any) => {
+        const parts = data?.candidates?.[0]?.content?.parts;
+        if (!Array.isArray(parts)) return;
+        for (const part of parts) {
+          if (part?.functionCall?.name) {
+            functionCalls.push({
+              id: `call_${functionCalls.length}`,
+              name: fromProviderToolName(part.functionCall.name, tools),
+              arguments: part.functionCall.args || {},
+            });
+          }
+        }
+      };
+
+      const withToolCalls = (response: AIResponse): AIResponse =>
+        functionCalls.length > 0 ? { ...response, toolCalls: [...functionCalls] } : response;
+
+      // Each chunk carries the running usage totals; the last one wins
+      const collectUsage = (data: any) => {
+        if (data?.usageMetadata) usage = parseGeminiUsage(data.usageMetadata);
+      };
+
       const extractError = (data: any) => {
         const message =
           data?.error?.message ||
@@ -390,6 +831,8 @@ class AIService {
       const handleJson = (jsonText: string) => {
         try {
           const data = JSON.parse(jsonText);
+          collectFunctionCalls(data);
+          collectUsage(data);
           const text = extractText(data);
           if (text) {
             fullContent += text;
@@ -431,6 +874,8 @@ class AIService {
             if (payload === '[DONE]') continue;
             try {
               const data = JSON.parse(payload);
+              collectFunctionCalls(data);
+              collectUsage(data);
               combined += extractText(data) || extractError(data);
             } catch (e) {
               // Ignore parse errors
@@ -438,6 +883,8 @@ class AIService {
           } else if (trimmed.startsWith('{')) {
             try {
               const data = JSON.parse(trimmed);
+              collectFunctionCalls(data);
+              collectUsage(data);
               combined += extractText(data) || extractError(data);
             } catch (e) {
               // Ignore parse errors
@@ -447,6 +894,8 @@ class AIService {
         if (combined) return combined;
         try {
           const data = JSON.parse(responseText);
+          collectFunctionCalls(data);
+          collectUsage(data);
           return extractText(data) || extractError(data);
         } catch (e) {
           return '';
@@ -461,6 +910,7 @@ class AIService {
               method: 'POST',
               headers: { 'Content-Type': 'application/json' },
               body: JSON.stringify(requestBody),
+              signal,
             }
           );
 
@@ -477,9 +927,13 @@ class AIService {
             return { content: rawText || 'No response from API', error: 'Invalid JSON response' };
           }
 
+          collectFunctionCalls(data);
+          collectUsage(data);
           const text = extractText(data) || extractError(data) || '';
+          if (!text && functionCalls.length > 0) return { content: '' };
           return { content: text || 'No response from API' };
         } catch (error) {
+          if (signal?.aborted) return { content: fullContent, error: CANCELLED_ERROR };
           const message = (error as Error).message || String(error);
           return { content: 'Network error: ' + message, error: message };
         }
@@ -490,7 +944,7 @@ class AIService {
       const finish = (response: AIResponse) => {
         if (resolved) return;
         resolved = true;
-        resolve(response);
+        resolve(withToolCalls(usage ? { ...response, usage } : response));
       };
 
       xhr.onprogress = () => {
@@ -514,7 +968,7 @@ class AIService {
         }
 
         if (xhr.status >= 200 && xhr.status < 300) {
-          if (!fullContent) {
+          if (!fullContent && functionCalls.length === 0) {
             const fallback = extractFromResponse(xhr.responseText);
             if (fallback) {
               fullContent = fallback;
@@ -544,6 +998,11 @@ class AIService {
         });
       };
 
+      xhr.onabort = () => {
+        finish({ content: fullContent, error: CANCELLED_ERROR });
+      };
+      abortOnSignal(xhr, signal);
+
       const requestBody: any = {
         contents: contents,
         generationConfig: {
@@ -558,22 +1017,28 @@ class AIService {
         };
       }
 
+      if (tools.length > 0) {
+        requestBody.tools = toGeminiTools(tools);
+      }
+
       xhr.send(JSON.stringify(requestBody));
     });
   }
 
   private streamLocal(
     messages: AIMessage[],
-    onToken: (token: string) => void
+    onToken: (token: string) => void,
+    signal?: AbortSignal
   ): Promise<AIResponse> {
-    return streamLocalChat(messages, onToken);
+    return streamLocalChat(messages, onToken, signal);
   }
 
   private streamGLM(
     messages: AIMessage[],
     model: string,
     apiKey: string | undefined,
-    onToken: (token: string) => void
+    onToken: (token: string) => void,
+    signal?: AbortSignal
   ): Promise<AIResponse> {
     return new Promise((resolve) => {
       console.log('=== GLM STREAM START ===');
@@ -594,36 +1059,48 @@ class AIService {
       xhr.setRequestHeader('Authorization', `Bearer ${apiKey}`);
 
       let lastIndex = 0;
+      let pending = '';
       let fullContent = '';
       let tokenCount = 0;
+      let usage: AIUsage | undefined;
+
+      const handleLine = (line: string) => {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data: ') || trimmed === 'data: [DONE]') return;
+        try {
+          const data = JSON.parse(trimmed.slice(6));
+          if (data.usage) usage = parseOpenAIUsage(data.usage);
+          const token = data.choices?.[0]?.delta?.content || '';
+          if (token) {
+            fullContent += token;
+            tokenCount++;
+            onToken(token);
+          }
+        } catch (e) {
+          // Ignore parse errors for partial chunks
+        }
+      };
 
       xhr.onprogress = () => {
         const currIndex = xhr.responseText.length;
         if (lastIndex === currIndex) return;
 
-        const chunk = xhr.responseText.substring(lastIndex, currIndex);
+        const chunk = pending + xhr.responseText.substring(lastIndex, currIndex);
         lastIndex = currIndex;
 
+        // Keep the trailing partial line for the next chunk so no event is dropped
         const lines = chunk.split('\n');
+        pending = lines.pop() || '';
         for (const line of lines) {
-          const trimmed = line.trim();
-          if (trimmed.startsWith('data: ') && trimmed !== 'data: [DONE]') {
-            try {
-              const data = JSON.parse(trimmed.slice(6));
-              const token = data.choices?.[0]?.delta?.content || '';
-              if (token) {
-                fullContent += token;
-                tokenCount++;
-                onToken(token);
-              }
-            } catch (e) {
-              // Ignore parse errors for partial chunks
-            }
-          }
+          handleLine(line);
         }
       };
 
       xhr.onload = () => {
+        if (pending) {
+          handleLine(pending);
+          pending = '';
+        }
         console.log('=== GLM STREAM COMPLETE ===');
         console.log('Status:', xhr.status);
         console.log('Tokens received:', tokenCount);
@@ -631,7 +1108,7 @@ class AIService {
         console.log('First 200 chars:', fullContent.substring(0, 200));
 
         if (xhr.status >= 200 && xhr.status < 300) {
-          resolve({ content: fullContent });
+          resolve({ content: fullContent, usage });
         } else {
           console.log('GLM API Error Response:', xhr.responseText);
           resolve({ content: `GLM API Error: ${xhr.status}`, error: 'API Error' });
@@ -643,6 +1120,11 @@ class AIService {
         resolve({ content: 'Network error connecting to GLM API', error: 'Network error' });
       };
 
+      xhr.onabort = () => {
+        resolve({ content: fullContent, error: CANCELLED_ERROR });
+      };
+      abortOnSignal(xhr, signal);
+
       // Map model names to GLM model IDs
       const modelMap: Record<string, string> = {
         'glm-4.7': 'GLM-4.7',
@@ -657,7 +1139,7 @@ class AIService {
 
       const requestBody = {
         model: glmModel,
-        messages: messages,
+        messages: toTextMessages(messages),
         stream: true,
         temperature: 0.7,
         max_tokens: 65536, // GLM-4.7 supports up to 128k output tokens
@@ -675,30 +1157,33 @@ class AIService {
     customModels: CustomModel[],
     apiKey?: string
   ): Promise<AIResponse> {
+    if (hasImageContent(messages) && !supportsVision(model, customModels)) {
+      return this.visionUnsupported(model, customModels);
+    }
+
     // Check if it's a custom model
     const customModel = customModels.find((m) => m.id === model);
+    let result: AIResponse;
 
     if (customModel) {
-      return this.callCustomAPI(messages, customModel);
-    }
-
-    if (model === LOCAL_MODEL_ID) {
-      return streamLocalChat(messages);
-    }
-
-    // Default models
-    if (model.startsWith('claude') || model.startsWith('anthropic')) {
-      return this.callAnthropic(messages, model, apiKey);
+      result = await this.callCustomAPI(messages, customModel);
+    } else if (model === LOCAL_MODEL_ID) {
+      result = await streamLocalChat(messages);
+    } else if (model.startsWith('claude') || model.startsWith('anthropic')) {
+      result = await this.callAnthropic(messages, model, apiKey);
     } else if (model.startsWith('gpt')) {
-      return this.callOpenAI(messages, model, apiKey);
+      result = await this.callOpenAI(messages, model, apiKey);
     } else if (model.startsWith('glm')) {
-      return this.callGLM(messages, model, apiKey);
+      result = await this.callGLM(messages, model, apiKey);
+    } else {
+      return {
+        content: 'Model not supported. Please add it as a custom model in settings.',
+        error: 'Unsupported model',
+      };
     }
 
-    return {
-      content: 'Model not supported. Please add it as a custom model in settings.',
-      error: 'Unsupported model',
-    };
+    this.recordUsage(model, result);
+    return result;
   }
 
   private async callOpenAI(messages: AIMessage[], model: string, apiKey?: string): Promise<AIResponse> {
@@ -718,7 +1203,7 @@ class AIService {
         },
         body: JSON.stringify({
           model: getOpenAIModelId(model),
-          messages: messages,
+          messages: toOpenAIMessages(messages),
           max_tokens: getOpenAIMaxTokens(model),
         }),
       });
@@ -734,6 +1219,7 @@ class AIService {
       const data: OpenAIResponse = await response.json();
       return {
         content: data.choices[0]?.message?.content || 'No response from API',
+        usage: parseOpenAIUsage(data.usage),
       };
     } catch (error) {
       return {
@@ -769,7 +1255,7 @@ class AIService {
         },
         body: JSON.stringify({
           model: glmModel,
-          messages: messages,
+          messages: toTextMessages(messages),
           max_tokens: 65536, // GLM-4.7 supports up to 128k output tokens
           temperature: 0.7,
         }),
@@ -786,6 +1272,7 @@ class AIService {
       const data: OpenAIResponse = await response.json();
       return {
         content: data.choices[0]?.message?.content || 'No response from API',
+        usage: parseOpenAIUsage(data.usage),
       };
     } catch (error) {
       return {
@@ -814,8 +1301,8 @@ class AIService {
         body: JSON.stringify({
           model: getAnthropicModelId(model),
           max_tokens: getAnthropicMaxTokens(model),
-          messages: messages.filter((m) => m.role !== 'system'),
-          system: messages.find((m) => m.role === 'system')?.content || '',
+          messages: toAnthropicMessages(messages),
+          system: getMessageText(messages.find((m) => m.role === 'system')?.content || ''),
         }),
       });
 
@@ -835,6 +1322,9 @@ class AIService {
 
       return {
         content: textContent || 'No response from API',
+        usage: data.usage
+          ? { promptTokens: data.usage.input_tokens || 0, completionTokens: data.usage.output_tokens || 0 }
+          : undefined,
       };
     } catch (error) {
       return {
@@ -844,7 +1334,7 @@ class AIService {
     }
   }
 
-  private async callCustomAPI(messages: AIMessage[], model: CustomModel): Promise<AIResponse> {
+  private async callCustomAPI(messages: AIMessage[], model: CustomModel, signal?: AbortSignal): Promise<AIResponse> {
     try {
       // Build the endpoint URL properly
       let endpoint = model.endpoint;
@@ -871,13 +1361,14 @@ class AIService {
 
       const response = await fetch(endpoint, {
         method: 'POST',
+        signal,
         headers: {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${model.apiKey}`,
         },
         body: JSON.stringify({
           model: model.name,
-          messages: messages,
+          messages: toTextMessages(messages),
           max_tokens: 16000,
         }),
       });
@@ -905,8 +1396,12 @@ class AIService {
 
       return {
         content: content as string,
+        usage: parseOpenAIUsage(data?.usage),
       };
     } catch (error) {
+      if (signal?.aborted) {
+        return { content: '', error: CANCELLED_ERROR };
+      }
       console.error('Network error:', error);
       return {
         content: 'Network error: ' + (error as Error).message,
@@ -948,7 +1443,8 @@ class AIService {
     messages: AIMessage[],
     model: string,
     apiKey: string | undefined,
-    onToken: (token: string) => void
+    onToken: (token: string) => void,
+    signal?: AbortSignal
   ): Promise<AIResponse> {
     return new Promise((resolve) => {
       if (!apiKey) {
@@ -969,36 +1465,48 @@ class AIService {
       xhr.setRequestHeader('X-Title', 'Mobcode');
 
       let lastIndex = 0;
+      let pending = '';
       let fullContent = '';
+      let usage: AIUsage | undefined;
+
+      const handleLine = (line: string) => {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data: ') || trimmed === 'data: [DONE]') return;
+        try {
+          const data = JSON.parse(trimmed.slice(6));
+          if (data.usage) usage = parseOpenAIUsage(data.usage);
+          const token = data.choices?.[0]?.delta?.content || '';
+          if (token) {
+            fullContent += token;
+            onToken(token);
+          }
+        } catch (e) {
+          // Ignore parse errors
+        }
+      };
 
       xhr.onprogress = () => {
         const currIndex = xhr.responseText.length;
         if (lastIndex === currIndex) return;
 
-        const chunk = xhr.responseText.substring(lastIndex, currIndex);
+        const chunk = pending + xhr.responseText.substring(lastIndex, currIndex);
         lastIndex = currIndex;
 
+        // Keep the trailing partial line for the next chunk so no event is dropped
         const lines = chunk.split('\n');
+        pending = lines.pop() || '';
         for (const line of lines) {
-          const trimmed = line.trim();
-          if (trimmed.startsWith('data: ') && trimmed !== 'data: [DONE]') {
-            try {
-              const data = JSON.parse(trimmed.slice(6));
-              const token = data.choices?.[0]?.delta?.content || '';
-              if (token) {
-                fullContent += token;
-                onToken(token);
-              }
-            } catch (e) {
-              // Ignore parse errors
-            }
-          }
+          handleLine(line);
         }
       };
 
       xhr.onload = () => {
+        if (pending) {
+          handleLine(pending);
+          pending = '';
+        }
         if (xhr.status >= 200 && xhr.status < 300) {
-          resolve({ content: fullContent });
+          resolve({ content: fullContent, usage });
         } else {
           resolve({ content: xhr.responseText, error: 'API Error' });
         }
@@ -1008,13 +1516,31 @@ class AIService {
         resolve({ content: 'Network error', error: 'Network error' });
       };
 
+      xhr.onabort = () => {
+        resolve({ content: fullContent, error: CANCELLED_ERROR });
+      };
+      abortOnSignal(xhr, signal);
+
       xhr.send(JSON.stringify({
         model: modelId,
-        messages: messages,
+        messages: toOpenAIMessages(messages),
         stream: true,
+        usage: { include: true }, // Adds a usage block to the last chunk
       }));
     });
   }
+
+  private recordUsage(model: string, response: AIResponse) {
+    if (!response.usage) return;
+    usageTracker.record(model, response.usage);
+  }
+
+  private visionUnsupported(model: string, customModels: CustomModel[]): AIResponse {
+    return {
+      content: `${getModelName(model, customModels)} can't read images. Remove the attached images or switch to a vision model such as GPT-4o, Claude or Gemini.`,
+      error: 'Model does not support images',
+    };
+  }
 }
 
 export const aiService = new AIService();
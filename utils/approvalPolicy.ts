@@ -0,0 +1,174 @@
+/**
+ * Approval Policy
+ * Decides on the device whether an agent step runs, needs the user's approval
+ * or is refused. Decisions come from user rules and each tool's own
+ * requiresApproval flag; what the model says about approval is ignored.
+ */
+
+import { AgentStep } from './autonomousAgent';
+import { getStepPaths } from './stepScheduler';
+import { toolRegistry } from './toolRegistry';
+import { toProjectPath } from './projectPaths';
+import { storage, ApprovalEffect, ApprovalRule } from './storage';
+
+export type ToolCategory = 'read' | 'write' | 'delete' | 'command' | 'git' | 'preview' | 'mcp' | 'other';
+
+export interface ApprovalDecision {
+  effect: ApprovalEffect;
+  reason: string;
+  ruleId?: string; // Rule that decided, unset when the tool default applied
+  answer?: 'approved' | 'denied'; // The user's response when the decision was "ask"
+}
+
+export const TOOL_CATEGORIES: Record<string, ToolCategory> = {
+  read_file: 'read',
+  list_directory: 'read',
+  search_files: 'read',
+  find_files: 'read',
+  file_info: 'read',
+  count_lines: 'read',
+  list_imports: 'read',
+  find_symbol: 'read',
+  find_references: 'read',
+  npm_info: 'read',
+  git_status: 'read',
+  git_log: 'read',
+  write_file: 'write',
+  edit_file: 'write',
+  create_file: 'write',
+  append_file: 'write',
+  replace_in_files: 'write',
+  create_component: 'write',
+  update_package_json: 'write',
+  init_project: 'write',
+  delete_file: 'delete',
+  run_command: 'command',
+  npm_install: 'command',
+  git_init: 'git',
+  git_add: 'git',
+  git_commit: 'git',
+  git_set_remote: 'git',
+  git_clone: 'git',
+  git_pull: 'git',
+  git_push: 'git',
+  open_html_preview: 'preview',
+  open_react_preview: 'preview',
+  open_component_preview: 'preview',
+  list_preview_components: 'preview',
+};
+
+export const RULE_CATEGORIES: ToolCategory[] = ['read', 'write', 'delete', 'command', 'git', 'preview', 'mcp'];
+
+// Deny always wins; otherwise the more specific rule wins, and "ask" beats "allow" on a tie
+const EFFECT_PRIORITY: Record<ApprovalEffect, number> = { allow: 0, ask: 1, deny: 2 };
+
+export const getToolCategory = (tool: string): ToolCategory =>
+  tool.includes('/') ? 'mcp' : TOOL_CATEGORIES[tool] || 'other';
+
+const normalizePrefix = (prefix: string) => toProjectPath(prefix.trim()) ?? '';
+
+const matchesPath = (step: AgentStep, prefix: string): boolean => {
+  const paths = getStepPaths(step);
+  if (paths.length === 0) return false;
+  const folder = normalizePrefix(prefix);
+  return paths.every((path) => {
+    const resolved = toProjectPath(path);
+    if (resolved === null) return false;
+    return folder === '' || resolved === folder || resolved.startsWith(`${folder}/`);
+  });
+};
+
+const matchesRule = (rule: ApprovalRule, step: AgentStep): boolean => {
+  const targetMatches = rule.target === '*' || rule.target === step.tool || rule.target === getToolCategory(step.tool);
+  if (!targetMatches) return false;
+  return !rule.pathPrefix || matchesPath(step, rule.pathPrefix);
+};
+
+const specificity = (rule: ApprovalRule) => {
+  const targetScore = rule.target === '*' ? 0 : RULE_CATEGORIES.includes(rule.target as ToolCategory) ? 1 : 2;
+  return targetScore + (rule.pathPrefix ? 3 : 0);
+};
+
+const EFFECT_LABELS: Record<ApprovalEffect, string> = {
+  allow: 'Auto-approve',
+  ask: 'Always ask for',
+  deny: 'Never allow',
+};
+
+/**
+ * Human-readable rule, e.g. "Auto-approve write under src/ (this session)"
+ */
+export const describeRule = (rule: ApprovalRule) => {
+  const target = rule.target === '*' ? 'all tools' : RULE_CATEGORIES.includes(rule.target as ToolCategory) ? `${rule.target} tools` : rule.target;
+  const path = rule.pathPrefix ? ` under ${normalizePrefix(rule.pathPrefix) || 'the project'}/` : '';
+  return `${EFFECT_LABELS[rule.effect]} ${target}${path}${rule.session ? ' (this session)' : ''}`;
+};
+
+class ApprovalPolicy {
+  private savedRules: ApprovalRule[] | null = null;
+  private sessionRules: ApprovalRule[] = [];
+
+  private async loadSavedRules(): Promise<ApprovalRule[]> {
+    if (!this.savedRules) {
+      this.savedRules = await storage.getApprovalRules();
+    }
+    return this.savedRules;
+  }
+
+  async getRules(): Promise<ApprovalRule[]> {
+    return [...(await this.loadSavedRules()), ...this.sessionRules];
+  }
+
+  async addRule(rule: Omit<ApprovalRule, 'id' | 'createdAt'>): Promise<ApprovalRule> {
+    const newRule: ApprovalRule = {
+      ...rule,
+      pathPrefix: rule.pathPrefix?.trim() || undefined,
+      id: `rule-${Date.now()}`,
+      createdAt: Date.now(),
+    };
+    if (newRule.session) {
+      this.sessionRules.push(newRule);
+    } else {
+      const saved = await this.loadSavedRules();
+      this.savedRules = [...saved, newRule];
+      await storage.setApprovalRules(this.savedRules);
+    }
+    console.log('[Approval] Rule added:', describeRule(newRule));
+    return newRule;
+  }
+
+  async removeRule(id: string): Promise<void> {
+    this.sessionRules = this.sessionRules.filter((r) => r.id !== id);
+    const saved = await this.loadSavedRules();
+    if (saved.some((r) => r.id === id)) {
+      this.savedRules = saved.filter((r) => r.id !== id);
+      await storage.setApprovalRules(this.savedRules);
+    }
+  }
+
+  async evaluate(step: AgentStep): Promise<ApprovalDecision> {
+    // Reading on in a saved output does not run the tool again
+    if (toolRegistry.isContinuation(step.tool, step.parameters)) {
+      return { effect: 'allow', reason: `Reads more of an earlier ${step.tool} output` };
+    }
+
+    const matching = (await this.getRules()).filter((rule) => matchesRule(rule, step));
+
+    const deny = matching.find((rule) => rule.effect === 'deny');
+    const winner = deny || matching.sort((a, b) =>
+      specificity(b) - specificity(a) || EFFECT_PRIORITY[b.effect] - EFFECT_PRIORITY[a.effect]
+    )[0];
+    if (winner) {
+      return { effect: winner.effect, reason: describeRule(winner), ruleId: winner.id };
+    }
+
+    // MCP tools ("server/tool") are not in the registry and always need approval
+    const tool = toolRegistry.getTool(step.tool);
+    if (tool && tool.requiresApproval === false) {
+      return { effect: 'allow', reason: `${step.tool} does not require approval` };
+    }
+    return { effect: 'ask', reason: tool ? `${step.tool} requires approval` : `${step.tool} is an external tool` };
+  }
+}
+
+export const approvalPolicy = new ApprovalPolicy();
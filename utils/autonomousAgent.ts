@@ -1,19 +1,33 @@
-import { aiService, AIMessage } from './aiService';
-import { toolRegistry, ToolResult } from './toolRegistry';
+import { aiService, AIMessage, AIImagePart, AIToolCall, getMessageText, supportsNativeTools } from './aiService';
+import { toolRegistry, Tool, ToolResult } from './toolRegistry';
+import { MORE_OUTPUT_MARKER, formatMoreMarker } from './toolOutput';
 import { skillManager } from './skillManager';
-import { backgroundTaskManager } from './backgroundTask';
+import { backgroundTaskManager, BackgroundTask } from './backgroundTask';
 import { gitService } from './gitService';
+import { runStepGraph, DEFAULT_MAX_CONCURRENCY } from './stepScheduler';
+import { projectSync } from './projectSync';
+import { contextManager, estimateTokens } from './contextManager';
+import { AgentRunJournal, CodeDiff } from './storage';
+import { approvalPolicy, ApprovalDecision } from './approvalPolicy';
+import { FileOverlay, FileChange, buildChangeDiff } from './fileOverlay';
+import { agentTracer } from './agentTrace';
+import { projectMemory } from './projectMemory';
+import { repoMap } from './repoMap';
+import { AGENT_MODES, DEFAULT_AGENT_MODE, AgentMode, getModeTools, isModeTool } from './agentModes';
+import { CodedError } from './codedError';
 
 export interface AgentStep {
   id: string;
   description: string;
   tool: string;
   parameters: any;
-  status: 'pending' | 'approved' | 'executing' | 'completed' | 'failed';
+  status: 'pending' | 'approved' | 'executing' | 'completed' | 'failed' | 'blocked' | 'cancelled';
   result?: ToolResult;
   error?: string;
   dependencies?: string[]; // IDs of steps this step depends on
   canParallel?: boolean; // Can this step run in parallel with others?
+  blockedBy?: string; // ID of the failed/blocked step that prevented this one from running
+  approvalDecision?: ApprovalDecision; // How the approval policy ruled on this step
 }
 
 export interface ExecutionPlan {
@@ -21,55 +35,171 @@ export interface ExecutionPlan {
   goal: string;
   steps: AgentStep[];
   estimatedSteps: number;
-  requiresApproval: string[];
   conversationalResponse?: string; // For simple chat responses without tools
 }
 
+// What the user chose on the plan review screen
+export type PlanReviewDecision =
+  | { action: 'run'; steps: AgentStep[] }
+  | { action: 'replan'; comment: string }
+  | { action: 'cancel' };
+
+export interface AgentRunOptions {
+  maxTurns?: number; // Planning turns (initial plan + follow-ups) before the loop stops
+  maxSteps?: number; // Total tool steps allowed across all turns
+  images?: AIImagePart[]; // Prepared image attachments sent with the user request
+  signal?: AbortSignal; // Cancels model requests and running tools; pending steps never start
+  chatId?: string; // Chat the run belongs to, recorded in the run journal
+  resumeFrom?: BackgroundTask; // Interrupted run to continue instead of planning from scratch
+  onPlanReview?: (plan: ExecutionPlan) => Promise<PlanReviewDecision>; // Edit the first plan before it runs
+  onPartialChanges?: (changes: FileChange[], problems: AgentStep[]) => Promise<PartialChangesDecision>; // Default: roll back
+  dryRun?: boolean; // Simulate file changes in memory and return them as a changeset instead of writing
+  mode?: AgentMode; // Prompt, tool subset and whether the plan runs; autonomous by default
+}
+
+// What to do with the staged file changes of a run where steps failed or were cancelled
+export type PartialChangesDecision = 'keep' | 'rollback';
+
+export const DEFAULT_MAX_TURNS = 6;
+export const DEFAULT_MAX_STEPS = 30;
+const TOOL_OUTPUT_BUDGET = 6000; // Characters per tool result fed back to the model; the rest is paged
+
+const cancelledError = () => new CodedError('Task cancelled', 'CANCELLED');
+
+const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw cancelledError();
+};
+
 class AutonomousAgent {
+  // System prompt and tool schema size from the last plan, reserved when compacting loop history
+  private promptReserveTokens = 0;
+
   async executeTask(
     userRequest: string,
     availableTools: string[],
     onProgress: (step: AgentStep, allSteps: AgentStep[]) => void,
-    onApprovalNeeded: (step: AgentStep) => Promise<boolean>,
+    onApprovalNeeded: (step: AgentStep, diff?: CodeDiff | null) => Promise<boolean>,
     model: string = 'claude-3.5-sonnet',
     customModels: any[] = [],
     apiKey?: string,
     hfApiKey?: string,
     geminiApiKey?: string,
     onStream?: (token: string) => void,
-    history: AIMessage[] = []
+    history: AIMessage[] = [],
+    options: AgentRunOptions = {}
   ) {
     console.log('=== AGENT EXECUTE TASK START ===');
     console.log('User Request:', userRequest);
     console.log('Model:', model);
     console.log('Available Tools:', availableTools.length);
 
+    const { signal, resumeFrom } = options;
+    let journal: AgentRunJournal = resumeFrom?.journal || {
+      chatId: options.chatId || null,
+      userRequest,
+      model,
+      availableTools,
+      goal: userRequest,
+      turn: 1,
+      turnStart: 0,
+      history: this.toJournalHistory([...history, { role: 'user', content: userRequest }]),
+      dryRun: !!options.dryRun,
+      mode: options.mode || DEFAULT_AGENT_MODE,
+    };
+    const mode = journal.mode || DEFAULT_AGENT_MODE;
+    const modeTools = getModeTools(mode, availableTools);
+    console.log('Agent mode:', mode, '-', modeTools.length, 'tools');
+
     // Start background task
     const taskId = `task-${Date.now()}`;
     backgroundTaskManager.startTask({
       id: taskId,
       type: 'agent_execution',
       status: 'running',
-      totalSteps: 0, // Will be updated after plan creation
-      currentStep: 'Creating execution plan...',
+      totalSteps: resumeFrom?.agentSteps?.length || 0, // Will be updated after plan creation
+      currentStep: resumeFrom ? 'Resuming interrupted task...' : 'Creating execution plan...',
+      journal,
     });
+    agentTracer.start(taskId, userRequest, model);
+
+    const updateJournal = (updates: Partial<AgentRunJournal>) => {
+      journal = { ...journal, ...updates };
+      backgroundTaskManager.updateTask({ journal });
+    };
+
+    let startedPlan: ExecutionPlan | null = null; // Reported back when the run is cancelled
+
+    // File changes are staged and written all at once when the run ends
+    const overlay = new FileOverlay(journal.staged, { dryRun: journal.dryRun });
+    const toolContext = { signal, files: overlay, outputBudget: TOOL_OUTPUT_BUDGET };
 
     try {
-      const plan = await this.createPlan(
-        userRequest,
-        availableTools,
-        model,
-        customModels,
-        apiKey,
-        hfApiKey,
-        geminiApiKey,
-        onStream,
-        history
-      );
+      let plan = resumeFrom
+        ? this.restorePlan(resumeFrom)
+        : await this.createPlan(
+          userRequest,
+          modeTools,
+          model,
+          customModels,
+          apiKey,
+          hfApiKey,
+          geminiApiKey,
+          onStream,
+          history,
+          options.images,
+          signal,
+          mode
+        );
+      this.tracePlan(plan, resumeFrom ? 'Restored plan' : 'Plan');
+      startedPlan = plan;
+
+      // In Plan mode the first plan waits for the user to edit and run it; other
+      // modes and follow-up turns only ask for per-step approvals
+      let reviewed = false;
+      while (!resumeFrom && AGENT_MODES[mode].reviewsPlan && options.onPlanReview && plan.steps.length > 0) {
+        backgroundTaskManager.updateTask({ currentStep: 'Waiting for plan review...' });
+        const decision: PlanReviewDecision = await options.onPlanReview(plan);
+        throwIfCancelled(signal);
+        if (decision.action === 'cancel') throw cancelledError();
+
+        if (decision.action === 'run') {
+          this.applyReviewedSteps(plan, decision.steps);
+          backgroundTaskManager.updateTask({ totalSteps: plan.steps.length, agentSteps: [...plan.steps] });
+          reviewed = true;
+          break;
+        }
+
+        console.log('Re-planning with feedback:', decision.comment);
+        backgroundTaskManager.updateTask({ currentStep: 'Re-planning...' });
+        plan = await this.createPlan(
+          `${userRequest}
+
+Revise your plan for this request. Current plan:
+${this.describeSteps(plan.steps)}
+
+User feedback on the plan: ${decision.comment}`,
+          modeTools,
+          model,
+          customModels,
+          apiKey,
+          hfApiKey,
+          geminiApiKey,
+          onStream,
+          history,
+          options.images,
+          signal,
+          mode
+        );
+        this.tracePlan(plan, 'Revised plan');
+        startedPlan = plan;
+      }
+
+      if (!resumeFrom) {
+        updateJournal({ goal: plan.goal });
+      }
 
       console.log('Plan created with', plan.steps.length, 'steps');
       console.log('Estimated steps:', plan.estimatedSteps);
-      console.log('Requires approval:', plan.requiresApproval.length);
       onProgress({
         id: 'plan',
         description: `Plan: ${plan.steps.length} steps`,
@@ -81,6 +211,7 @@ class AutonomousAgent {
       if (plan.steps.length === 0 && plan.conversationalResponse) {
         console.log('=== CONVERSATIONAL RESPONSE (NO TOOLS) ===');
         console.log('Response:', plan.conversationalResponse.substring(0, 200));
+        agentTracer.finish('completed');
         return {
           success: true,
           plan,
@@ -90,149 +221,316 @@ class AutonomousAgent {
         };
       }
 
-      let completed = 0, failed = 0;
+      // A plan the user reviewed and chose to run goes ahead even in Plan mode
+      if (!AGENT_MODES[mode].executes && !reviewed) {
+        console.log('=== PLAN ONLY: NOT EXECUTING ===');
+        agentTracer.finish('completed');
+        return {
+          success: true,
+          planOnly: true,
+          plan,
+          finalOutput: `Here is the plan for "${plan.goal}". Nothing has run yet.
+
+${plan.steps.map((s, i) => `${i + 1}. ${s.description}`).join('\n')}
+
+Switch to Auto mode and ask me to run it when it looks right.`,
+          stepsCompleted: 0,
+          stepsFailed: 0,
+        };
+      }
+
+      // A resumed run starts from the step states it was journaled with
+      let completed = plan.steps.filter(s => s.status === 'completed').length;
+      let failed = plan.steps.filter(s => s.status === 'failed').length;
+      let blocked = plan.steps.filter(s => s.status === 'blocked').length;
+      let denied = plan.steps.filter(s => s.status === 'failed' && s.error === 'Denied by user').length;
 
-      console.log('=== EXECUTING STEPS (PARALLEL MODE) ===');
+      console.log('=== EXECUTING STEPS (DEPENDENCY GRAPH) ===');
 
-      // Group steps by dependencies for parallel execution
       const executeStep = async (step: AgentStep): Promise<void> => {
+        if (signal?.aborted) return;
         console.log('--- Executing Step:', step.description);
         console.log('Tool:', step.tool);
-        console.log('Needs approval:', plan.requiresApproval.includes(step.id));
 
-        if (plan.requiresApproval.includes(step.id)) {
+        if (!isModeTool(mode, step.tool)) {
+          step.status = 'failed';
+          step.error = `${step.tool} is not available in ${AGENT_MODES[mode].label} mode`;
+          failed++;
+          onProgress(step, plan.steps);
+          return;
+        }
+
+        // Steps restored as 'approved' were already cleared before a restart
+        const decision = step.status === 'approved' ? null : await approvalPolicy.evaluate(step);
+        if (decision) {
+          step.approvalDecision = decision;
+          console.log('Approval decision:', decision.effect, '-', decision.reason);
+          agentTracer.record('approval', `${step.tool}: ${decision.effect}`, { stepId: step.id, ...decision });
+        }
+
+        if (decision?.effect === 'deny') {
+          step.status = 'failed';
+          step.error = `Not allowed by approval policy: ${decision.reason}`;
+          failed++;
+          onProgress(step, plan.steps);
+          return;
+        }
+
+        if (decision?.effect === 'ask' && overlay.dryRun) {
+          // Nothing is written during a dry run; the user approves the changeset instead
+          step.approvalDecision = { ...decision, effect: 'allow', reason: `Dry run (${decision.reason})` };
+        } else if (decision?.effect === 'ask') {
           console.log('Waiting for user approval...');
-          const approved = await onApprovalNeeded(step);
+          // The diff is computed against the files as this run has staged them
+          const diff = await toolRegistry.preview(step.tool, step.parameters, toolContext).catch(() => null);
+          const approved = await onApprovalNeeded(step, diff);
           console.log('Approved:', approved);
+          if (signal?.aborted) return;
+          step.approvalDecision = { ...decision, answer: approved ? 'approved' : 'denied' };
+          agentTracer.record('approval', `${step.tool}: ${approved ? 'approved' : 'denied'} by user`, {
+            stepId: step.id,
+            answer: approved ? 'approved' : 'denied',
+          });
           if (!approved) {
             step.status = 'failed';
+            step.error = 'Denied by user';
             failed++;
+            denied++;
             onProgress(step, plan.steps);
             console.log('Step denied by user');
             return;
           }
+          step.status = 'approved';
+          backgroundTaskManager.updateTask({ agentSteps: [...plan.steps] });
         }
 
         step.status = 'executing';
         onProgress(step, plan.steps);
         console.log('Executing step...');
 
+        const startedAt = Date.now();
         try {
-          const result = await toolRegistry.execute(step.tool, step.parameters);
+          const result = await toolRegistry.execute(step.tool, step.parameters, toolContext);
+          agentTracer.record('tool_call', step.tool, {
+            stepId: step.id,
+            parameters: step.parameters,
+            success: result.success,
+            output: result.output,
+            error: result.error,
+            data: result.data,
+          }, Date.now() - startedAt);
           console.log('Step result success:', result.success);
           if (!result.success) {
             console.log('Step error:', result.error);
           }
           step.result = result;
-          step.status = result.success ? 'completed' : 'failed';
-          result.success ? completed++ : failed++;
+          if (!result.success && signal?.aborted) {
+            // Interrupted by the cancel, not a real failure
+            step.status = 'cancelled';
+            step.error = result.error || 'Cancelled';
+          } else {
+            step.status = result.success ? 'completed' : 'failed';
+            result.success ? completed++ : failed++;
+          }
         } catch (e) {
           console.log('Step exception:', String(e));
+          agentTracer.record('tool_call', step.tool, {
+            stepId: step.id,
+            parameters: step.parameters,
+            success: false,
+            error: String(e),
+          }, Date.now() - startedAt);
           step.status = 'failed';
           step.error = String(e);
           failed++;
         }
 
         console.log('Step status:', step.status);
+        if (overlay.hasChanges()) {
+          updateJournal({ staged: overlay.snapshot() });
+        }
         onProgress(step, plan.steps);
       };
 
-      // Execute steps in parallel batches
-      const BATCH_SIZE = 5; // Execute up to 5 steps at once
-      for (let i = 0; i < plan.steps.length; i += BATCH_SIZE) {
-        const batch = plan.steps.slice(i, i + BATCH_SIZE);
-        console.log(`\n=== BATCH ${Math.floor(i / BATCH_SIZE) + 1} ===`);
-        console.log(`Executing ${batch.length} steps in parallel...`);
+      // Execute steps in dependency order, running independent ones concurrently
+      const runSteps = async (steps: AgentStep[]) => {
+        await runStepGraph(steps, async (step) => {
+          await executeStep(step);
+          const done = plan.steps.filter(s => s.status === 'completed' || s.status === 'failed' || s.status === 'blocked').length;
+          backgroundTaskManager.updateTask({
+            agentSteps: [...plan.steps],
+            progress: Math.round((done / plan.steps.length) * 100),
+            currentStep: `Executed ${done} of ${plan.steps.length} steps...`,
+          });
+        }, {
+          maxConcurrency: DEFAULT_MAX_CONCURRENCY,
+          signal,
+          onStepBlocked: (step) => {
+            blocked++;
+            console.log('Step blocked:', step.description, '-', step.error);
+            onProgress(step, plan.steps);
+          },
+        });
+      };
+
+      backgroundTaskManager.updateTask({
+        agentSteps: [...plan.steps],
+        progress: 0,
+        currentStep: `Executing ${plan.steps.length} steps...`,
+      });
+      await runSteps(plan.steps);
+      throwIfCancelled(signal);
+
+      // Observe-act loop: feed tool results back to the model until it declares
+      // completion (replies without a plan) or the turn/step budget runs out
+      const maxTurns = options.maxTurns ?? DEFAULT_MAX_TURNS;
+      const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+      let loopHistory: AIMessage[] = resumeFrom
+        ? [...journal.history]
+        : [...history, { role: 'user', content: this.withImages(userRequest, options.images) }];
+      let turn = journal.turn;
+      let turnSteps = plan.steps.slice(journal.turnStart);
+      let completionMessage: string | undefined;
+      let budgetExhausted = false;
+
+      while (denied === 0) {
+        if (turn >= maxTurns || plan.steps.length >= maxSteps) {
+          budgetExhausted = true;
+          console.log('=== AGENT LOOP BUDGET REACHED ===', { turn, steps: plan.steps.length });
+          break;
+        }
+        turn++;
+        console.log(`=== AGENT LOOP TURN ${turn} ===`);
 
-        // Update background task with current steps and progress
+        // Native-tool providers get the steps back as their own tool calls and results
+        const nativeTurns = supportsNativeTools(model, customModels);
+        const followUpPrompt = `${nativeTurns
+  ? 'The tool results are above.'
+  : `Results of the steps you just ran:
+
+${this.formatObservations(turnSteps)}`}
+
+Original request: "${userRequest}"
+
+If the request is fully complete, reply with a short plain-text message for the user (no JSON).
+${nativeTurns
+  ? 'Otherwise call the tools for the next steps.'
+  : 'Otherwise respond with ONLY the JSON plan for the next steps.'} Use the results above (e.g. file contents you read) instead of guessing.
+A result ending in "${MORE_OUTPUT_MARKER}" was cut off: if you need the rest, call the same tool again with the offset it gives, or use read_file with startLine/endLine.`;
+
+        if (nativeTurns) {
+          loopHistory.push(...this.toToolTurns(turnSteps));
+        } else {
+          loopHistory.push({ role: 'assistant', content: this.describeSteps(turnSteps) });
+        }
+        backgroundTaskManager.updateTask({ currentStep: `Planning next steps (turn ${turn})...` });
+
+        // Keep the compacted history so later turns extend the same rolling summary
+        loopHistory = (await contextManager.fitHistory(loopHistory, {
+          model,
+          customModels,
+          apiKey,
+          hfApiKey,
+          geminiApiKey,
+          reserveTokens: this.promptReserveTokens + estimateTokens(followUpPrompt),
+          signal,
+        })).messages;
+        throwIfCancelled(signal);
+
+        let nextPlan: ExecutionPlan;
+        try {
+          nextPlan = await this.createPlan(
+            followUpPrompt,
+            modeTools,
+            model,
+            customModels,
+            apiKey,
+            hfApiKey,
+            geminiApiKey,
+            onStream,
+            loopHistory,
+            [],
+            signal,
+            mode
+          );
+        } catch (e: any) {
+          if (e.code === 'CANCELLED') throw e;
+          console.error('Follow-up planning failed:', e);
+          agentTracer.record('error', `Follow-up planning failed (turn ${turn})`, { message: e.message || String(e) });
+          break;
+        }
+        this.tracePlan(nextPlan, `Plan (turn ${turn})`);
+        loopHistory.push({ role: 'user', content: followUpPrompt });
+
+        if (nextPlan.steps.length === 0) {
+          completionMessage = nextPlan.conversationalResponse;
+          console.log('Agent declared completion on turn', turn);
+          break;
+        }
+
+        // Prefix ids so steps from different turns never collide
+        const prefix = `t${turn}-`;
+        turnSteps = nextPlan.steps.slice(0, maxSteps - plan.steps.length).map(step => ({
+          ...step,
+          id: `${prefix}${step.id}`,
+          dependencies: step.dependencies?.map(dep => `${prefix}${dep}`),
+        }));
+        const turnStart = plan.steps.length;
+        plan.steps.push(...turnSteps);
+        plan.estimatedSteps = plan.steps.length;
+        updateJournal({
+          turn,
+          turnStart,
+          history: this.toJournalHistory(loopHistory),
+        });
+
+        console.log('Follow-up plan created with', turnSteps.length, 'steps');
         backgroundTaskManager.updateTask({
+          totalSteps: plan.steps.length,
           agentSteps: [...plan.steps],
-          progress: Math.round((i / plan.steps.length) * 100),
-          currentStep: `Executing batch ${Math.floor(i / BATCH_SIZE) + 1}...`,
         });
-
-        // Execute batch in parallel
-        await Promise.all(batch.map(step => executeStep(step)));
+        onProgress({
+          id: 'plan',
+          description: `Plan: ${plan.steps.length} steps`,
+          tool: 'plan',
+          parameters: {},
+          status: 'completed',
+        }, plan.steps);
+
+        await runSteps(turnSteps);
+        throwIfCancelled(signal);
       }
 
       console.log('=== ALL STEPS COMPLETE ===');
+      console.log('Turns:', turn);
       console.log('Completed:', completed);
       console.log('Failed:', failed);
-
-      // Check if we need follow-up planning (iterative agent loop)
-      // Only do this if we completed listing operations without delete/write
-      const hasListOnly = plan.steps.every(s => s.tool === 'list_directory' || s.tool === 'search_files' || s.tool === 'find_files');
-      const userWantsAction = /delete|remove|create|write|make|add|update|modify/i.test(userRequest);
-
-      if (hasListOnly && userWantsAction && completed > 0 && failed === 0) {
-        console.log('=== FOLLOW-UP PLANNING (iterative loop) ===');
-
-        // Collect tool results to pass as context
-        const toolResults = plan.steps
-          .filter(s => s.status === 'completed' && s.result?.output)
-          .map(s => `${s.description}:\n${s.result?.output?.substring(0, 500)}`)
-          .join('\n\n');
-
-        if (toolResults) {
-          console.log('Tool results for context:', toolResults.substring(0, 300));
-
-          // Create follow-up prompt with context
-          const followUpPrompt = `Based on the results below, now complete the user's original request: "${userRequest}"
-
-Tool Results:
-${toolResults}
-
-Now create the next steps to actually complete the task (e.g., delete/create the files found).`;
-
-          try {
-            const followUpPlan = await this.createPlan(
-              followUpPrompt,
-              availableTools,
-              model,
-              customModels,
-              apiKey,
-              hfApiKey,
-              geminiApiKey,
-              onStream,
-              [...history, { role: 'user', content: userRequest }, { role: 'assistant', content: toolResults }]
-            );
-
-            if (followUpPlan.steps.length > 0) {
-              console.log('Follow-up plan created with', followUpPlan.steps.length, 'steps');
-
-              // Execute follow-up steps
-              for (const step of followUpPlan.steps) {
-                await executeStep(step);
-              }
-
-              // Add follow-up steps to main plan for reporting
-              plan.steps.push(...followUpPlan.steps);
-            }
-          } catch (e) {
-            console.error('Follow-up planning failed:', e);
-          }
-        }
-      }
+      console.log('Blocked:', blocked);
 
       // Update background task with final step states
       backgroundTaskManager.updateTask({
         agentSteps: [...plan.steps],
         progress: 100,
-        currentStep: `Completed ${completed} steps, ${failed} failed`,
+        currentStep: `Completed ${completed} steps, ${failed} failed${blocked > 0 ? `, ${blocked} blocked` : ''}`,
       });
 
       // Get conversational summary of results
-      let conversationalSummary = `Completed ${completed} steps, ${failed} failed`;
+      let conversationalSummary = `Completed ${completed} steps, ${failed} failed${blocked > 0 ? `, ${blocked} blocked` : ''}`;
 
       // Only generate AI summary for complex tasks (3+ steps)
       // Simple tasks get a quick static summary to save API calls
-      const needsSummary = completed >= 3 || failed > 0;
-
-      if (needsSummary && (completed > 0 || failed > 0)) {
+      const needsSummary = completed >= 3 || failed > 0 || blocked > 0;
+
+      if (completionMessage && completionMessage.trim()) {
+        // The model already wrote a wrap-up message when it declared completion
+        console.log('=== USING COMPLETION MESSAGE AS SUMMARY ===');
+        conversationalSummary = completionMessage.trim();
+        if (onStream) onStream(conversationalSummary);
+      } else if (needsSummary && (completed > 0 || failed > 0 || blocked > 0)) {
         console.log('=== GENERATING CONVERSATIONAL SUMMARY ===');
         try {
           const toolResults = plan.steps
-            .filter(s => s.status === 'completed' || s.status === 'failed')
+            .filter(s => s.status === 'completed' || s.status === 'failed' || s.status === 'blocked')
             .map(s => ({
               tool: s.tool,
               description: s.description,
@@ -275,10 +573,13 @@ CRITICAL RULES:
 
           // Use streaming for the summary too
           let summaryText = '';
+          const summarySystemPrompt = 'You are a helpful coding assistant. Explain what was accomplished in simple, conversational language. Never show JSON, tool names, or technical details.';
+          agentTracer.record('prompt', 'Summary request', { system: summarySystemPrompt, user: summaryPrompt, model });
+          const summaryStartedAt = Date.now();
           await aiService.streamChat([
             {
               role: 'system',
-              content: 'You are a helpful coding assistant. Explain what was accomplished in simple, conversational language. Never show JSON, tool names, or technical details.',
+              content: summarySystemPrompt,
             },
             {
               role: 'user',
@@ -287,7 +588,9 @@ CRITICAL RULES:
           ], model, customModels, apiKey, (token) => {
             summaryText += token;
             if (onStream) onStream(token);
-          }, hfApiKey, geminiApiKey);
+          }, hfApiKey, geminiApiKey, undefined, { signal });
+          throwIfCancelled(signal);
+          agentTracer.record('model_output', 'Summary response', { content: summaryText }, Date.now() - summaryStartedAt);
 
           console.log('Summary generated, length:', summaryText.length);
           console.log('Summary preview:', summaryText.substring(0, 200));
@@ -295,7 +598,8 @@ CRITICAL RULES:
           if (summaryText) {
             conversationalSummary = summaryText;
           }
-        } catch (e) {
+        } catch (e: any) {
+          if (e.code === 'CANCELLED') throw e;
           console.error('Failed to generate conversational summary:', e);
           // Fall back to default summary
         }
@@ -310,40 +614,71 @@ CRITICAL RULES:
           : descriptions.join('. ');
       }
 
+      if (budgetExhausted) {
+        conversationalSummary += `\n\n(Stopped after ${turn} turn${turn === 1 ? '' : 's'} and ${plan.steps.length} steps — the agent step budget was reached. Send another message to continue.)`;
+      }
+
       console.log('=== AGENT TASK COMPLETE ===');
       console.log('Final output length:', conversationalSummary.length);
 
+      // Write the staged file changes as one unit; a run with failed steps asks first
+      const { changes, committed, note } = await this.settleChanges(
+        overlay,
+        plan.steps.filter(s => s.status === 'failed' || s.status === 'blocked'),
+        options
+      );
+      if (note) {
+        conversationalSummary += `\n\n${note}`;
+      }
+      agentTracer.finish('completed');
+
       // Create Git checkpoint after file operations
       let gitCheckpointHash: string | null = null;
-      const hasFileOps = plan.steps.some(s =>
-        ['create_file', 'write_file', 'delete_file', 'append_file'].includes(s.tool) && s.status === 'completed'
-      );
-      if (hasFileOps && failed === 0) {
+      if (committed) {
         try {
-          gitCheckpointHash = await gitService.createCheckpoint(`Agent: ${plan.goal}`);
+          const partial = failed > 0 || blocked > 0;
+          gitCheckpointHash = await gitService.createCheckpoint(`Agent${partial ? ' (partial)' : ''}: ${plan.goal}`);
+          if (gitCheckpointHash) updateJournal({ checkpointHash: gitCheckpointHash });
         } catch (e) {
           console.error('Failed to create checkpoint:', e);
         }
       }
 
+      // Mirror the agent's file changes to the proxy workspace
+      if (committed && await projectSync.isAutoSyncEnabled()) {
+        projectSync.sync().catch((e) => console.error('Auto sync failed:', e));
+      }
+
       return {
-        success: failed === 0,
+        success: failed === 0 && blocked === 0,
         plan,
         finalOutput: conversationalSummary,
         stepsCompleted: completed,
         stepsFailed: failed,
+        stepsBlocked: blocked,
         gitCheckpointHash: gitCheckpointHash || undefined,
+        changes,
+        changeDiff: changes.length > 0 ? buildChangeDiff(changes) : undefined,
+        rolledBack: changes.length > 0 && !committed && !overlay.dryRun,
+        dryRun: overlay.dryRun ? overlay.snapshot() : undefined,
       };
-    } catch (error) {
+    } catch (error: any) {
+      if (error.code === 'CANCELLED') {
+        return this.cancelledResult(userRequest, startedPlan, overlay, options);
+      }
+
       console.error('=== AGENT EXECUTION FAILED ===');
       console.error('Error:', error);
+      agentTracer.record('error', 'Run failed', { message: error?.message || String(error), code: error?.code });
+      agentTracer.finish('failed');
+      await overlay.rollback().catch((e) => console.error('Rollback failed:', e));
 
       // Fail the background task
       backgroundTaskManager.failTask((error as Error).message || 'Unknown error');
 
       return {
         success: false,
-        plan: { id: Date.now().toString(), goal: userRequest, steps: [], estimatedSteps: 0, requiresApproval: [] },
+        plan: { id: Date.now().toString(), goal: userRequest, steps: [], estimatedSteps: 0 },
         finalOutput: `Error: ${(error as Error).message || 'Unknown error'}`,
         stepsCompleted: 0,
         stepsFailed: 1,
@@ -351,6 +686,297 @@ CRITICAL RULES:
     }
   }
 
+  /**
+   * Format executed steps and their tool results as an observation for the next turn
+   */
+  private formatObservations(steps: AgentStep[]): string {
+    return steps.map((step, index) => {
+      const header = `${index + 1}. ${step.tool}(${JSON.stringify(this.summarizeParameters(step.parameters))}) - ${step.status.toUpperCase()}`;
+      return `${header}\n${this.formatResult(step)}`;
+    }).join('\n\n');
+  }
+
+  /**
+   * A step's output, or its error when it did not complete
+   */
+  private formatResult(step: AgentStep): string {
+    if (step.status === 'completed') {
+      const output = step.result?.output || '';
+      const more = step.result?.more;
+      // A resumed run's journal may have cut the marker off, so rebuild it from result.more
+      if (more && !output.includes(MORE_OUTPUT_MARKER)) {
+        const start = Number(step.parameters?.offset) || 0;
+        return `${output}\n${formatMoreMarker(step.tool, start, more.offset, more.total)}`;
+      }
+      return output || '(no output)';
+    }
+    return `Error: ${step.error || step.result?.error || 'Unknown error'}`;
+  }
+
+  /**
+   * A turn's steps as native tool calls and their results, for providers with native tool calling
+   */
+  private toToolTurns(steps: AgentStep[]): AIMessage[] {
+    // Step ids like "t2-1" become provider-safe call ids
+    const callId = (step: AgentStep) => `call_${step.id.replace(/[^a-zA-Z0-9_-]/g, '_')}`;
+    return [
+      {
+        role: 'assistant',
+        content: steps.map(step => ({
+          type: 'tool_call' as const,
+          id: callId(step),
+          name: step.tool,
+          arguments: this.summarizeParameters(step.parameters),
+        })),
+      },
+      {
+        role: 'user',
+        content: steps.map(step => ({
+          type: 'tool_result' as const,
+          toolCallId: callId(step),
+          name: step.tool,
+          content: this.formatResult(step),
+          isError: step.status !== 'completed',
+        })),
+      },
+    ];
+  }
+
+  /**
+   * Result for a run stopped by the user, listing the steps that already ran
+   */
+  private async cancelledResult(
+    userRequest: string,
+    plan: ExecutionPlan | null,
+    overlay: FileOverlay,
+    options: AgentRunOptions
+  ) {
+    const steps = plan?.steps || [];
+    const completed = steps.filter(s => s.status === 'completed');
+    const failed = steps.filter(s => s.status === 'failed');
+    const interrupted = steps.filter(s => s.status === 'cancelled');
+    const notStarted = steps.filter(s => s.status === 'pending' || s.status === 'approved');
+    console.log('=== AGENT TASK CANCELLED ===', { completed: completed.length, interrupted: interrupted.length, notStarted: notStarted.length });
+
+    notStarted.forEach(s => {
+      s.status = 'cancelled';
+      s.error = 'Not started';
+    });
+    const { changes, committed, note } = await this.settleChanges(overlay, [...failed, ...interrupted, ...notStarted], options);
+    backgroundTaskManager.cancelTask(steps);
+    agentTracer.finish('cancelled');
+
+    const list = (title: string, items: AgentStep[]) =>
+      items.length > 0 ? `${title}:\n${items.map(s => `- ${s.description}`).join('\n')}` : '';
+    const report = [
+      'Task cancelled.',
+      steps.length === 0 ? 'No steps had started.' : '',
+      list('Already ran', completed),
+      list('Failed', failed),
+      list('Interrupted', interrupted),
+      list('Not started', notStarted),
+      note,
+    ].filter(Boolean).join('\n\n');
+
+    return {
+      success: false,
+      cancelled: true,
+      plan: plan || { id: Date.now().toString(), goal: userRequest, steps: [], estimatedSteps: 0 },
+      finalOutput: report,
+      stepsCompleted: completed.length,
+      stepsFailed: failed.length,
+      modifiedFiles: committed,
+      changes,
+      changeDiff: changes.length > 0 ? buildChangeDiff(changes) : undefined,
+      rolledBack: changes.length > 0 && !committed && !overlay.dryRun,
+      dryRun: overlay.dryRun ? overlay.snapshot() : undefined,
+    };
+  }
+
+  /**
+   * Commit or roll back the run's staged file changes. Runs where every step
+   * succeeded commit; otherwise onPartialChanges decides, defaulting to rollback.
+   * A dry run keeps its changes staged for the caller to apply or discard.
+   */
+  private async settleChanges(
+    overlay: FileOverlay,
+    problems: AgentStep[],
+    options: AgentRunOptions
+  ): Promise<{ changes: FileChange[]; committed: boolean; note?: string }> {
+    const settled = await this.settleOverlay(overlay, problems, options);
+    agentTracer.record('changes', settled.note || `${settled.changes.length} file changes committed`, {
+      committed: settled.committed,
+      dryRun: overlay.dryRun,
+      files: settled.changes.map(({ path, type }) => ({ path, type })),
+    });
+    return settled;
+  }
+
+  private async settleOverlay(
+    overlay: FileOverlay,
+    problems: AgentStep[],
+    options: AgentRunOptions
+  ): Promise<{ changes: FileChange[]; committed: boolean; note?: string }> {
+    const changes = overlay.getChanges();
+    const fileCount = `${changes.length} file change${changes.length === 1 ? '' : 's'}`;
+    if (overlay.dryRun) {
+      return {
+        changes,
+        committed: false,
+        note: changes.length > 0
+          ? `Dry run: ${fileCount} simulated, nothing was written. Review them to apply or discard.`
+          : 'Dry run: no files would change.',
+      };
+    }
+    if (!overlay.hasChanges()) {
+      return { changes, committed: false };
+    }
+
+    let decision: PartialChangesDecision = 'keep';
+    if (problems.length > 0) {
+      backgroundTaskManager.updateTask({ currentStep: 'Waiting for keep/roll back decision...' });
+      decision = options.onPartialChanges
+        ? await options.onPartialChanges(changes, problems).catch(() => 'rollback' as const)
+        : 'rollback';
+    }
+
+    if (decision === 'rollback') {
+      await overlay.rollback();
+      return { changes, committed: false, note: `Rolled back ${fileCount}; the project is unchanged.` };
+    }
+
+    try {
+      await overlay.commit();
+      console.log('Committed', fileCount, problems.length > 0 ? '(partial)' : '');
+      return { changes, committed: true, note: problems.length > 0 ? `Kept ${fileCount} from the steps that succeeded.` : undefined };
+    } catch (e: any) {
+      // commit() already restored the files it had written
+      return { changes, committed: false, note: `Could not write the changes (${e.message}); the project is unchanged.` };
+    }
+  }
+
+  /**
+   * Record a parsed plan in the run's trace
+   */
+  private tracePlan(plan: ExecutionPlan, label: string) {
+    agentTracer.record('plan', label, {
+      goal: plan.goal,
+      steps: plan.steps.map(({ id, description, tool, parameters, dependencies }) => ({ id, description, tool, parameters, dependencies })),
+      conversationalResponse: plan.conversationalResponse,
+    });
+  }
+
+  /**
+   * Replace the plan's steps with the reviewed list. Dependencies on removed
+   * steps, or on steps moved below the dependent one, are dropped.
+   */
+  private applyReviewedSteps(plan: ExecutionPlan, reviewed: AgentStep[]) {
+    const seen = new Set<string>();
+    plan.steps = reviewed.map(step => {
+      const dependencies = step.dependencies?.filter(dep => seen.has(dep));
+      seen.add(step.id);
+      return { ...step, status: 'pending', dependencies };
+    });
+    plan.estimatedSteps = plan.steps.length;
+    console.log('Plan reviewed:', plan.steps.length, 'steps');
+  }
+
+  /**
+   * Rebuild the plan of an interrupted run. Steps that were executing when the
+   * app was killed had already been cleared to run, so they run again without
+   * asking for approval a second time.
+   */
+  private restorePlan(task: BackgroundTask): ExecutionPlan {
+    const journal = task.journal!;
+    const steps: AgentStep[] = (task.agentSteps || []).map(step =>
+      step.status === 'executing' ? { ...step, status: 'approved', result: undefined } : step
+    );
+    console.log('=== RESUMING AGENT RUN ===', {
+      goal: journal.goal,
+      turn: journal.turn,
+      remaining: steps.filter(s => s.status === 'pending' || s.status === 'approved').length,
+    });
+    return {
+      id: task.id,
+      goal: journal.goal,
+      steps,
+      estimatedSteps: steps.length,
+    };
+  }
+
+  /**
+   * Text-only copy of the loop history for the run journal (images are not persisted)
+   */
+  private toJournalHistory(history: AIMessage[]): AgentRunJournal['history'] {
+    return history
+      .filter((m): m is AIMessage & { role: 'user' | 'assistant' } => m.role === 'user' || m.role === 'assistant')
+      .map(m => ({ role: m.role, content: getMessageText(m.content) }));
+  }
+
+  /**
+   * Compact record of a turn's plan, used as the assistant message in loop history
+   */
+  private describeSteps(steps: AgentStep[]): string {
+    return JSON.stringify({
+      steps: steps.map(s => ({ id: s.id, description: s.description, tool: s.tool, parameters: this.summarizeParameters(s.parameters) })),
+    });
+  }
+
+  /**
+   * Shorten long string parameters (e.g. write_file content) so history stays small
+   */
+  private summarizeParameters(parameters: any): any {
+    if (!parameters || typeof parameters !== 'object') return parameters || {};
+    const summary: Record<string, any> = {};
+    for (const [key, value] of Object.entries(parameters)) {
+      summary[key] = typeof value === 'string' && value.length > 200
+        ? `${value.substring(0, 200)}... (${value.length} chars)`
+        : value;
+    }
+    return summary;
+  }
+
+  /**
+   * Attach image parts to a user message; plain text when there are none
+   */
+  private withImages(text: string, images: AIImagePart[] = []): AIMessage['content'] {
+    return images.length > 0 ? [{ type: 'text', text }, ...images] : text;
+  }
+
+  /**
+   * Convert native tool calls into plan steps. Independent calls run in parallel;
+   * the scheduler still serializes calls that touch the same path.
+   */
+  private planFromToolCalls(userRequest: string, toolCalls: AIToolCall[]): ExecutionPlan {
+    const steps: AgentStep[] = toolCalls.map((call, index) => {
+      const params = call.arguments || {};
+      const target = params.path || params.command || params.query || params.pattern || params.message || params.url || params.package;
+      return {
+        id: String(index + 1),
+        description: target ? `${call.name}: ${target}` : call.name,
+        tool: call.name,
+        parameters: params,
+        status: 'pending' as const,
+      };
+    });
+
+    console.log('=== PLAN CREATED FROM NATIVE TOOL CALLS ===');
+    steps.forEach((s, i) => console.log(`  Step ${i + 1}:`, s.description));
+
+    backgroundTaskManager.updateTask({
+      totalSteps: steps.length,
+      currentStep: `Executing ${steps.length} steps...`,
+      agentSteps: steps,
+    });
+
+    return {
+      id: Date.now().toString(),
+      goal: userRequest,
+      steps,
+      estimatedSteps: steps.length,
+    };
+  }
+
   private async createPlan(
     userRequest: string,
     availableTools: string[],
@@ -360,12 +986,16 @@ CRITICAL RULES:
     hfApiKey?: string,
     geminiApiKey?: string,
     onStream?: (token: string) => void,
-    history: AIMessage[] = []
+    history: AIMessage[] = [],
+    images: AIImagePart[] = [],
+    signal?: AbortSignal,
+    mode: AgentMode = DEFAULT_AGENT_MODE
   ): Promise<ExecutionPlan> {
     console.log('=== CREATING PLAN ===');
     console.log('User request:', userRequest);
     console.log('Available tools:', availableTools.length);
     console.log('History messages:', history.length);
+    console.log('Images:', images.length);
 
     const toolsDesc = toolRegistry.formatForAI();
 
@@ -375,6 +1005,10 @@ CRITICAL RULES:
     const allSkillsList = await skillManager.getSkillListForAI();
     console.log('Relevant skills loaded:', relevantSkills ? 'Yes' : 'No');
     console.log('Total skills available:', allSkillsList ? allSkillsList.split('\n').length : 0);
+    const memory = await projectMemory.formatForAI();
+    console.log('Project memory loaded:', memory ? 'Yes' : 'No');
+    const map = await repoMap.formatForAI(userRequest);
+    console.log('Repo map loaded:', map ? 'Yes' : 'No');
 
     let fullContent = '';
     let isJson = false;
@@ -385,31 +1019,58 @@ CRITICAL RULES:
     const isGLMModel = model.includes('glm') || model.includes('GLM');
     console.log('Is GLM model:', isGLMModel);
 
+    // Providers with native tool calling get tool schemas instead of the JSON plan prompt
+    const nativeTools = supportsNativeTools(model, customModels)
+      ? availableTools.map(name => toolRegistry.getTool(name)).filter((t): t is Tool => !!t)
+      : [];
+    const useNativeTools = nativeTools.length > 0;
+    console.log('Native tool calling:', useNativeTools);
+
     const sanitizedHistory = history
       .filter((m) => m.role === 'user' || m.role === 'assistant')
-      .filter((m) => m.content && m.content.trim().length > 0);
+      .filter((m) => getMessageText(m.content).trim().length > 0);
 
     console.log('Sanitized history length:', sanitizedHistory.length);
 
-    const response = await aiService.streamChat([
-      {
-        role: 'system',
-        content: isGLMModel ? `You are an AI coding assistant. For file/code operations, respond ONLY with JSON:
-{"goal": "task","steps":[{"id":"1","description":"what","tool":"tool","parameters":{},"requiresApproval":true}]}
+    const basePrompt = isGLMModel ? `You are an AI coding assistant. For file/code operations, respond ONLY with JSON:
+{"goal": "task","steps":[{"id":"1","description":"what","tool":"tool","parameters":{},"dependencies":[]}]}
+List in "dependencies" the ids of steps that must finish first (e.g. write after create/list).
 
 CRITICAL WORKFLOW FOR DELETE:
 - If EXACT path is known: Use delete_file directly
 - If path is UNCLEAR (user says "delete the X folders" but you don't know exact path):
   1. First step: list_directory with path "." to find folders
   2. Second step: delete_file with the actual path found
-- NEVER guess paths - always list first if uncertain
+- NEVER guess paths - use the Repo Map, or list first if a path is not in it
+- Paths are relative to the project root; paths outside the project are refused
 
 For CREATE operations: Use create_file or write_file directly.
-Mark requiresApproval: true for delete_file, write_file, create_file, run_command
+For small changes to an existing file: read_file it, then edit_file with exact search/replace text.
+After your steps run you will see their results and can plan more steps. To change an existing file, read_file it first.
+When the task is done, reply with a short plain-text message (no JSON).
 
 Tools: ${availableTools.join(', ')}
 
-For questions without file operations, just answer normally.` : `You are an AI coding assistant with access to development tools.
+For questions without file operations, just answer normally.` : useNativeTools ? `You are an AI coding assistant with access to development tools.
+
+${allSkillsList ? `Skills: ${allSkillsList}` : ''}
+
+${relevantSkills ? `Relevant Skills:\n${relevantSkills}` : ''}
+
+## When to Use Tools:
+- "Create"/"Make"/"Add feature"/"Setup"/"Delete"/"Edit" → call the provided tools
+- Questions/Explanations → respond naturally without calling tools
+- Call several tools at once when they are independent of each other
+
+## Rules:
+- After your tool calls run you will see their results and can call more tools
+- To change an existing file: read_file first, then edit_file with exact search/replace text (write_file only for full rewrites)
+- In large files, search_files for the code you need, then read_file just that startLine/endLine range
+- To find where a function, component or type is declared or used, call find_symbol or find_references instead of listing folders
+- Use paths from the Repo Map directly; if a path is not in it, call list_directory first - NEVER guess folder/file names
+- Create projects in separate folders (e.g., "myapp/")
+- When the user states a lasting project convention or preference, save it with remember
+- When the task is complete, reply with a short plain-text message for the user` : `You are an AI coding assistant with access to development tools.
 
 ## Tools Available: ${availableTools.join(', ')}
 
@@ -422,25 +1083,68 @@ ${relevantSkills ? `Relevant Skills:\n${relevantSkills}` : ''}
 - Questions/Explanations → respond naturally
 
 ## JSON Format:
-{"goal": "task","steps":[{"id":"x","description":"what","tool":"tool","parameters":{},"requiresApproval":false}]}
+{"goal": "task","steps":[{"id":"x","description":"what","tool":"tool","parameters":{},"dependencies":[]}]}
+- "dependencies": ids of steps that must finish before this one (e.g. read/list before write). Steps without dependencies run in parallel.
 
 ## CRITICAL - DELETE Operations:
 - If exact path is known: delete_file directly
 - If path is uncertain: list_directory FIRST, then delete_file with actual path
-- NEVER guess folder/file names - always verify with list_directory first
+- NEVER guess folder/file names - take them from the Repo Map or verify with list_directory first
 - Example: "Delete tic tac toe folders" → list_directory(".") → delete_file("tictactoe")
 
+## Multi-Turn Execution:
+- After your steps run you will see their results (file contents, search hits, git status) and can plan more steps
+- To change an existing file: read_file first, then edit_file in the next turn with exact search/replace text (write_file only for full rewrites)
+- In large files, search_files for the code you need, then read_file just that startLine/endLine range
+- To find where a function, component or type is declared or used, call find_symbol or find_references instead of listing folders
+- When the task is complete, reply with a short plain-text message for the user (no JSON)
+
 ## Other Rules:
 - Create projects in separate folders (e.g., "myapp/")
-- Files needing approval: write_file, create_file, delete_file, run_command, git_push
-- Multi-file: create in parallel when possible
+- When the user states a lasting project convention or preference, save it with remember
+- Files needing approval: write_file, edit_file, create_file, delete_file, run_command, git_push
+- Multi-file: create in parallel when possible, declare dependencies when order matters
+
+For chat: respond naturally. For tasks: respond with ONLY the JSON, no extra text.`;
+    const systemPrompt = [basePrompt, AGENT_MODES[mode].prompt, memory, map].filter(Boolean).join('\n\n');
+
+    // Summarize older turns if the history would overflow the model's context window
+    this.promptReserveTokens = estimateTokens(systemPrompt) + (useNativeTools
+      ? estimateTokens(JSON.stringify(nativeTools.map(t => ({ name: t.name, description: t.description, parameters: t.parameters }))))
+      : 0);
+    const { messages: fittedHistory } = await contextManager.fitHistory(sanitizedHistory, {
+      model,
+      customModels,
+      apiKey,
+      hfApiKey,
+      geminiApiKey,
+      reserveTokens: this.promptReserveTokens + estimateTokens(this.withImages(userRequest, images)),
+      signal,
+    });
+    throwIfCancelled(signal);
+
+    agentTracer.record('prompt', 'Planning request', {
+      model,
+      mode,
+      system: systemPrompt,
+      messages: [...fittedHistory, { role: 'user', content: userRequest }].map((m) => ({
+        role: m.role,
+        content: getMessageText(m.content),
+      })),
+      tools: useNativeTools ? nativeTools.map(t => t.name) : undefined,
+      images: images.length,
+    });
+    const planStartedAt = Date.now();
 
-For chat: respond naturally. For tasks: respond with ONLY the JSON, no extra text.`,
+    const response = await aiService.streamChat([
+      {
+        role: 'system',
+        content: systemPrompt,
       },
-      ...sanitizedHistory,
+      ...fittedHistory,
       {
         role: 'user',
-        content: userRequest,
+        content: this.withImages(userRequest, images),
       },
     ], model, customModels, apiKey, (token) => {
       fullContent += token;
@@ -448,7 +1152,8 @@ For chat: respond naturally. For tasks: respond with ONLY the JSON, no extra tex
       // NEVER stream during plan creation - we need to see the full response first
       // to determine if it's JSON or conversational
       // Streaming happens AFTER we parse the response
-    }, hfApiKey, geminiApiKey);
+    }, hfApiKey, geminiApiKey, undefined, { tools: nativeTools, signal });
+    throwIfCancelled(signal);
 
     console.log('AI Response received');
     console.log('Response length:', fullContent.length);
@@ -458,10 +1163,19 @@ For chat: respond naturally. For tasks: respond with ONLY the JSON, no extra tex
     if (!fullContent && response?.content) {
       fullContent = response.content;
     }
+    agentTracer.record('model_output', 'Planning response', {
+      content: fullContent,
+      toolCalls: response?.toolCalls,
+      error: response?.error,
+    }, Date.now() - planStartedAt);
 
     console.log('AI Response received');
     console.log('Full content length:', fullContent.length);
 
+    if (response?.toolCalls && response.toolCalls.length > 0) {
+      return this.planFromToolCalls(userRequest, response.toolCalls);
+    }
+
     // Try to parse JSON from response
     let planData: any = { goal: userRequest, steps: [] };
     let conversationalResponse: string | undefined;
@@ -646,6 +1360,7 @@ For chat: respond naturally. For tasks: respond with ONLY the JSON, no extra tex
         console.log('GLM detected, attempting to fix JSON...');
         const fixedJson = fixGLMJSON(jsonMatch[0]);
         console.log('Fixed JSON length:', fixedJson.length, 'vs original:', jsonMatch[0].length);
+        const before = jsonMatch[0];
         try {
           // Try parsing the fixed JSON
           const testParsed = JSON.parse(fixedJson);
@@ -653,8 +1368,10 @@ For chat: respond naturally. For tasks: respond with ONLY the JSON, no extra tex
             jsonMatch[0] = fixedJson;
             console.log('GLM JSON fix successful');
           }
+          agentTracer.record('json_fix', 'GLM JSON repair', { before, after: fixedJson, parsed: true });
         } catch (e) {
           console.log('GLM JSON fix did not help, error:', (e as Error).message);
+          agentTracer.record('json_fix', 'GLM JSON repair failed', { before, after: fixedJson, parsed: false, error: (e as Error).message });
         }
       }
 
@@ -717,7 +1434,6 @@ For chat: respond naturally. For tasks: respond with ONLY the JSON, no extra tex
               goal: userRequest,
               steps: [],
               estimatedSteps: 0,
-              requiresApproval: [],
               conversationalResponse,
             };
           }
@@ -750,7 +1466,6 @@ For chat: respond naturally. For tasks: respond with ONLY the JSON, no extra tex
             goal: userRequest,
             steps: [],
             estimatedSteps: 0,
-            requiresApproval: [],
             conversationalResponse,
           };
         }
@@ -764,7 +1479,6 @@ For chat: respond naturally. For tasks: respond with ONLY the JSON, no extra tex
           goal: userRequest,
           steps: [],
           estimatedSteps: 0,
-          requiresApproval: [],
           conversationalResponse,
         };
       }
@@ -775,17 +1489,21 @@ For chat: respond naturally. For tasks: respond with ONLY the JSON, no extra tex
         goal: userRequest,
         steps: [],
         estimatedSteps: 0,
-        requiresApproval: [],
         conversationalResponse: 'Sorry, I encountered an error processing the response.',
       };
     }
 
-    const steps = (planData.steps || []).map((s: any) => ({ ...s, status: 'pending' as const }));
+    // A "requiresApproval" flag from the model is dropped; the approval policy decides
+    const steps = (planData.steps || []).map(({ requiresApproval, ...s }: any, index: number) => ({
+      ...s,
+      id: String(s.id ?? index + 1),
+      dependencies: Array.isArray(s.dependencies) ? s.dependencies.map(String) : undefined,
+      status: 'pending' as const,
+    }));
 
     console.log('=== PLAN CREATED ===');
     console.log('Goal:', planData.goal || userRequest);
     console.log('Total steps:', steps.length);
-    console.log('Needs approval:', steps.filter((s: any) => s.requiresApproval).map((s: any) => s.id));
 
     // Update background task with plan info and initial steps
     backgroundTaskManager.updateTask({
@@ -799,7 +1517,6 @@ For chat: respond naturally. For tasks: respond with ONLY the JSON, no extra tex
       goal: planData.goal || userRequest,
       steps,
       estimatedSteps: steps.length,
-      requiresApproval: steps.filter((s: any) => s.requiresApproval).map((s: any) => s.id),
     };
   }
 }
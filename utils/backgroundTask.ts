@@ -1,28 +1,58 @@
 /**
  * Background Task Manager
- * Keeps agent tasks running even when app goes to background or user switches tabs
+ * Keeps agent tasks running even when app goes to background or user switches tabs.
+ * Agent runs are journaled to storage (at most once a second, and right away
+ * when the app goes to the background) so they can be resumed if the app is
+ * killed mid-run.
  */
 
 import { AppState, AppStateStatus } from 'react-native';
 import { AgentStep } from './autonomousAgent';
+import { storage, AgentRunJournal } from './storage';
+import { FileOverlay } from './fileOverlay';
+import { stagedBlobs } from './stagedBlobs';
 
 export interface BackgroundTask {
   id: string;
   type: 'agent_execution' | 'file_operation';
-  status: 'running' | 'paused' | 'completed' | 'failed';
+  status: 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
   progress: number;
   totalSteps: number;
   currentStep: string;
   startTime: number;
   data?: any;
   agentSteps?: AgentStep[]; // Persist agent steps for resuming UI
+  journal?: AgentRunJournal; // Set for agent runs that can be resumed after a restart
 }
 
+// Step output kept in the journal; full results stay in memory only
+const JOURNAL_OUTPUT_LIMIT = 4000;
+// Updates within this window are written as one journal entry
+const JOURNAL_INTERVAL_MS = 1000;
+
+const toJournalStep = (step: AgentStep): AgentStep => {
+  if (!step.result) return step;
+  const { data, ...result } = step.result;
+  return {
+    ...step,
+    result: {
+      ...result,
+      output: result.output && result.output.length > JOURNAL_OUTPUT_LIMIT
+        ? `${result.output.substring(0, JOURNAL_OUTPUT_LIMIT)}\n... (truncated)`
+        : result.output,
+    },
+  };
+};
+
 class BackgroundTaskManager {
   private currentTask: BackgroundTask | null = null;
   private taskStateCallbacks: Set<(task: BackgroundTask) => void> = new Set();
   private appState: AppStateStatus = 'active';
   private appStateSubscription: any = null;
+  // Journal writes are applied in order so an older snapshot never overwrites a newer one
+  private journalQueue: Promise<void> = Promise.resolve();
+  private pendingJournal: BackgroundTask | null | undefined; // undefined when nothing is waiting to be written
+  private journalTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor() {
     // Listen to app state changes
@@ -36,6 +66,8 @@ class BackgroundTaskManager {
       console.log('[BackgroundTask] App going to background, task:', this.currentTask?.id);
       // Task continues - JS execution pauses but state is preserved
       this.notifyTaskUpdate();
+      // The app may be killed while in the background
+      this.flushJournal();
     } else if (nextAppState === 'active') {
       console.log('[BackgroundTask] App coming to foreground, task:', this.currentTask?.id);
       // App is active again, task should resume
@@ -100,6 +132,18 @@ class BackgroundTaskManager {
     }
   }
 
+  /**
+   * Mark the current task as cancelled by the user
+   */
+  cancelTask(agentSteps?: AgentStep[]): void {
+    if (this.currentTask) {
+      this.currentTask.status = 'cancelled';
+      if (agentSteps) this.currentTask.agentSteps = [...agentSteps];
+      console.log('[BackgroundTask] Task cancelled:', this.currentTask.id);
+      this.notifyTaskUpdate();
+    }
+  }
+
   /**
    * Get the current task
    */
@@ -126,10 +170,88 @@ class BackgroundTaskManager {
 
   private notifyTaskUpdate(): void {
     if (this.currentTask) {
+      this.journalTask(this.currentTask);
       this.taskStateCallbacks.forEach(callback => callback(this.currentTask!));
     }
   }
 
+  private journalTask(task: BackgroundTask): void {
+    if (!task.journal) return;
+    const finished = task.status === 'completed' || task.status === 'failed' || task.status === 'cancelled';
+    this.pendingJournal = finished ? null : task;
+    if (finished) {
+      this.flushJournal();
+    } else if (!this.journalTimer) {
+      this.journalTimer = setTimeout(() => this.flushJournal(), JOURNAL_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Write the latest pending journal entry now
+   */
+  private flushJournal(): void {
+    if (this.journalTimer) {
+      clearTimeout(this.journalTimer);
+      this.journalTimer = null;
+    }
+    if (this.pendingJournal === undefined) return;
+    const task = this.pendingJournal;
+    this.pendingJournal = undefined;
+    this.journalQueue = this.journalQueue
+      .then(() => this.writeJournal(task))
+      .catch((error) => console.error('[BackgroundTask] Failed to journal task:', error));
+  }
+
+  private async writeJournal(task: BackgroundTask | null): Promise<void> {
+    if (!task?.journal) {
+      await storage.setAgentRun(null);
+      await stagedBlobs.clear();
+      return;
+    }
+    // Staged contents go to stagedBlobs; the journal keeps their paths and hashes
+    const { staged, stagedRefs, ...journal } = task.journal;
+    await storage.setAgentRun({
+      ...task,
+      agentSteps: task.agentSteps?.map(toJournalStep),
+      journal: { ...journal, stagedRefs: staged ? await stagedBlobs.save(staged) : undefined },
+    });
+  }
+
+  /**
+   * Journaled run with its staged file contents loaded back
+   */
+  private async readJournal(): Promise<BackgroundTask | null> {
+    this.flushJournal();
+    await this.journalQueue;
+    const task = await storage.getAgentRun();
+    if (!task?.journal?.stagedRefs) return task;
+    const { stagedRefs, ...journal } = task.journal;
+    return { ...task, journal: { ...journal, staged: await stagedBlobs.load(stagedRefs) } };
+  }
+
+  /**
+   * Agent run left unfinished by a previous app session, if any
+   */
+  async getInterruptedTask(): Promise<BackgroundTask | null> {
+    if (this.currentTask) return null;
+    const task = await this.readJournal();
+    if (!task?.journal || !task.agentSteps) return null;
+    return task;
+  }
+
+  /**
+   * Drop the journal of an interrupted run instead of resuming it
+   */
+  async discardInterruptedTask(): Promise<void> {
+    // Restore files the run had already flushed to disk
+    const task = await this.readJournal();
+    if (task?.journal?.staged) {
+      await new FileOverlay(task.journal.staged).rollback();
+    }
+    await storage.setAgentRun(null);
+    await stagedBlobs.clear();
+  }
+
   /**
    * Clean up
    */
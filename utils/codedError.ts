@@ -0,0 +1,17 @@
+/**
+ * Coded Error
+ * An Error with a machine-readable code, so callers can branch on
+ * `error.code` (e.g. 'SYNC_CONFLICT', 'PATH_OUTSIDE_PROJECT') instead of
+ * matching messages.
+ */
+
+export class CodedError<Code extends string = string> extends Error {
+  readonly code: Code;
+
+  constructor(message: string, code: Code) {
+    super(message);
+    // Keep instanceof working when Error subclasses are transpiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.code = code;
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Context Manager
+ * Keeps chat history inside the model's context window. When history gets
+ * close to the limit, older turns are folded into a rolling summary message;
+ * pinned messages and messages with attached files are always kept verbatim.
+ */
+
+import { aiService, AIMessage, getMessageText } from './aiService';
+import { ContextSummary, CustomModel, FileAttachment, Message } from './storage';
+import { DEFAULT_CONTEXT_WINDOW, MODEL_CONTEXT_WINDOWS } from '../constants/Models';
+
+export interface ContextOptions {
+  model: string;
+  customModels?: CustomModel[];
+  apiKey?: string;
+  hfApiKey?: string;
+  geminiApiKey?: string;
+  reserveTokens?: number; // Prompt tokens needed besides the history (system prompt, current request)
+  signal?: AbortSignal;
+}
+
+export interface FitResult {
+  messages: AIMessage[];
+  summary: string | null; // New summary text, or null when the history already fit
+  recentStart: number; // Index in the input history of the first message kept verbatim
+}
+
+// Rough estimate; providers tokenize English and code at ~4 characters per token
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const IMAGE_TOKENS = 1000;
+const MAX_OUTPUT_RESERVE = 8192;
+
+const COMPACT_THRESHOLD = 0.8; // Summarize once history fills this share of its budget
+const RECENT_SHARE = 0.5; // Share of the budget kept as verbatim recent turns
+const SUMMARY_SHARE = 0.15; // Target summary length as a share of the budget
+const MIN_RECENT_MESSAGES = 2;
+
+const SUMMARY_PREFIX = '[Summary of the earlier conversation]';
+
+export function getContextWindow(model: string, customModels: CustomModel[] = []): number {
+  if (customModels.some((m) => m.id === model)) return DEFAULT_CONTEXT_WINDOW;
+  return MODEL_CONTEXT_WINDOWS[model] || DEFAULT_CONTEXT_WINDOW;
+}
+
+export function estimateTokens(content: AIMessage['content']): number {
+  if (typeof content === 'string') return Math.ceil(content.length / CHARS_PER_TOKEN);
+  return content.reduce(
+    (sum, part) => sum + (part.type === 'image' ? IMAGE_TOKENS : Math.ceil(getMessageText([part]).length / CHARS_PER_TOKEN)),
+    0
+  );
+}
+
+export function estimateMessagesTokens(messages: AIMessage[]): number {
+  return messages.reduce((sum, m) => sum + estimateTokens(m.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+}
+
+/**
+ * Tokens available for history once the reply and the rest of the prompt are accounted for
+ */
+const getHistoryBudget = (options: ContextOptions) => {
+  const window = getContextWindow(options.model, options.customModels);
+  const outputReserve = Math.min(Math.floor(window * 0.25), MAX_OUTPUT_RESERVE);
+  return Math.max(Math.floor(window * 0.2), window - outputReserve - (options.reserveTokens || 0));
+};
+
+const toSummaryMessage = (summary: string): AIMessage => ({
+  role: 'user',
+  content: `${SUMMARY_PREFIX}\n${summary}`,
+});
+
+const hasToolResults = (m: AIMessage) => typeof m.content !== 'string' && m.content.some((part) => part.type === 'tool_result');
+
+/**
+ * Plain-text transcript, shortening every message evenly when it exceeds maxChars
+ */
+const buildTranscript = (messages: AIMessage[], maxChars: number) => {
+  const lines = messages.map((m) => {
+    const text = getMessageText(m.content);
+    if (text.startsWith(SUMMARY_PREFIX)) return `Earlier summary: ${text.substring(SUMMARY_PREFIX.length).trim()}`;
+    return `${m.role === 'assistant' ? 'Assistant' : 'User'}: ${text}`;
+  });
+  const total = lines.reduce((sum, line) => sum + line.length + 1, 0);
+  if (total <= maxChars) return lines.join('\n');
+
+  const perLine = Math.max(80, Math.floor(maxChars / lines.length));
+  return lines.map((line) => (line.length > perLine ? `${line.substring(0, perLine)}…` : line)).join('\n');
+};
+
+const summarize = async (messages: AIMessage[], maxTokens: number, options: ContextOptions): Promise<string> => {
+  const window = getContextWindow(options.model, options.customModels);
+  // The transcript has to fit the summarization request itself
+  const transcriptChars = Math.max(2000, (window - maxTokens - 500) * CHARS_PER_TOKEN);
+  const transcript = buildTranscript(messages, transcriptChars);
+  const maxWords = Math.max(60, Math.floor(maxTokens * 0.75));
+
+  console.log('[Context] Summarizing', messages.length, 'messages into ~', maxTokens, 'tokens');
+  const response = await aiService.streamChat([
+    {
+      role: 'system',
+      content: 'You compress conversations between a user and a coding assistant. Keep decisions, requirements, file paths, names, open tasks and unresolved errors. Drop greetings and repetition. Reply with the summary only.',
+    },
+    {
+      role: 'user',
+      content: `Summarize this conversation in at most ${maxWords} words:\n\n${transcript}`,
+    },
+  ], options.model, options.customModels || [], options.apiKey, () => {}, options.hfApiKey, options.geminiApiKey, undefined, { signal: options.signal });
+
+  if (!response.error && response.content.trim()) {
+    return response.content.trim();
+  }
+
+  // Keep excerpts rather than losing the turns when the model can't summarize
+  console.log('[Context] Summary request failed, keeping excerpts:', response.error);
+  return buildTranscript(messages, maxTokens * CHARS_PER_TOKEN);
+};
+
+export const contextManager = {
+  /**
+   * Fold older messages into a summary when the history is near the model's limit.
+   * A leading summary message from a previous call is folded into the new one.
+   */
+  async fitHistory(history: AIMessage[], options: ContextOptions): Promise<FitResult> {
+    const budget = getHistoryBudget(options);
+    const total = estimateMessagesTokens(history);
+    const unchanged: FitResult = { messages: history, summary: null, recentStart: 0 };
+    if (total <= budget * COMPACT_THRESHOLD) return unchanged;
+
+    // Keep the newest messages verbatim
+    let recentStart = history.length;
+    let recentTokens = 0;
+    while (recentStart > 0) {
+      const tokens = estimateMessagesTokens([history[recentStart - 1]]);
+      const keptCount = history.length - recentStart;
+      if (keptCount >= MIN_RECENT_MESSAGES && recentTokens + tokens > budget * RECENT_SHARE) break;
+      recentTokens += tokens;
+      recentStart--;
+    }
+    // Tool results have to stay with the assistant turn that made the calls
+    while (recentStart > 0 && hasToolResults(history[recentStart])) {
+      recentStart--;
+    }
+
+    const older = history.slice(0, recentStart);
+    const pinned = older.filter((m) => m.pinned);
+    const folded = older.filter((m) => !m.pinned);
+    if (folded.length === 0) {
+      console.log('[Context] History over budget but nothing can be folded', { total, budget });
+      return unchanged;
+    }
+
+    console.log('[Context] History', total, 'tokens, budget', budget, '- folding', folded.length, 'messages');
+    const summary = await summarize(folded, Math.floor(budget * SUMMARY_SHARE), options);
+    return {
+      messages: [toSummaryMessage(summary), ...pinned, ...history.slice(recentStart)],
+      summary,
+      recentStart,
+    };
+  },
+
+  /**
+   * Build the history for a chat, starting from its stored summary, and
+   * return the summary to store when more messages were folded
+   */
+  async prepareChatHistory(
+    messages: Message[],
+    summary: ContextSummary | undefined,
+    options: ContextOptions
+  ): Promise<{ history: AIMessage[]; summary?: ContextSummary }> {
+    const toAIMessage = (m: Message): AIMessage => {
+      const files = (m.attachments || []).filter((a) => a.type === 'file') as FileAttachment[];
+      return {
+        role: m.role,
+        content: files.length > 0 ? `${m.content}\n\n[Attached files: ${files.map((f) => f.path).join(', ')}]` : m.content,
+        pinned: m.pinned || files.length > 0,
+      };
+    };
+
+    // A rewind can remove the messages the stored summary covers
+    const throughIndex = summary ? messages.findIndex((m) => m.id === summary.throughMessageId) : -1;
+    const current = throughIndex >= 0 ? summary : undefined;
+    const remaining = messages.slice(throughIndex + 1);
+    const input: AIMessage[] = [
+      ...(current ? [toSummaryMessage(current.content)] : []),
+      ...messages.slice(0, throughIndex + 1).map(toAIMessage).filter((m) => m.pinned),
+      ...remaining.map(toAIMessage),
+    ];
+
+    const result = await this.fitHistory(input, options);
+    if (result.summary === null) {
+      return { history: result.messages, summary: current };
+    }
+
+    const lastFolded = result.recentStart - (input.length - remaining.length) - 1;
+    const throughMessageId = lastFolded >= 0 ? remaining[lastFolded].id : current!.throughMessageId;
+    return { history: result.messages, summary: { content: result.summary, throughMessageId } };
+  },
+};
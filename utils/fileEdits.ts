@@ -0,0 +1,195 @@
+/**
+ * File Edits
+ * Applies surgical changes (search/replace blocks or unified diffs) to file content
+ */
+
+import { CodedError } from './codedError';
+
+export interface SearchReplaceEdit {
+  search: string;
+  replace: string;
+}
+
+export interface EditResult {
+  content: string;
+  applied: number; // Blocks or hunks applied
+  added: number; // Lines added
+  removed: number; // Lines removed
+}
+
+const normalizeNewlines = (text: string) => text.replace(/\r\n/g, '\n');
+
+const countLines = (text: string) => (text ? text.split('\n').length : 0);
+
+const lineNumberAt = (content: string, index: number) => content.substring(0, index).split('\n').length;
+
+const findAll = (content: string, search: string): number[] => {
+  const positions: number[] = [];
+  let index = content.indexOf(search);
+  while (index !== -1) {
+    positions.push(index);
+    index = content.indexOf(search, index + 1);
+  }
+  return positions;
+};
+
+/**
+ * Apply exact search/replace blocks in order. Each search block must match
+ * exactly once in the content as it stands after the previous blocks.
+ */
+export function applySearchReplace(original: string, edits: SearchReplaceEdit[]): EditResult {
+  if (edits.length === 0) {
+    throw new CodedError('No edits provided. Pass search/replace or a list of edits.', 'EDIT_EMPTY');
+  }
+
+  let content = normalizeNewlines(original);
+  let added = 0;
+  let removed = 0;
+
+  edits.forEach((edit, i) => {
+    const label = edits.length > 1 ? `Edit ${i + 1}` : 'Edit';
+    const search = normalizeNewlines(edit.search ?? '');
+    const replace = normalizeNewlines(edit.replace ?? '');
+
+    if (!search) {
+      throw new CodedError(`${label}: search text is empty. Use write_file to create or overwrite a file.`, 'EDIT_EMPTY');
+    }
+
+    const matches = findAll(content, search);
+    if (matches.length === 0) {
+      const firstLine = search.split('\n').find((line) => line.trim().length > 0)?.trim();
+      const hint = firstLine && content.includes(firstLine)
+        ? ` The line "${firstLine}" exists at line ${lineNumberAt(content, content.indexOf(firstLine))}, but the full block does not match (check whitespace and surrounding lines).`
+        : ' Read the file again and copy the exact text to replace.';
+      throw new CodedError(`${label}: search text not found.${hint}`, 'EDIT_ANCHOR_NOT_FOUND');
+    }
+    if (matches.length > 1) {
+      const lines = matches.map((m) => lineNumberAt(content, m)).join(', ');
+      throw new CodedError(
+        `${label}: search text is ambiguous (${matches.length} matches at lines ${lines}). Include more surrounding lines so it matches exactly once.`,
+        'EDIT_ANCHOR_AMBIGUOUS'
+      );
+    }
+
+    content = content.substring(0, matches[0]) + replace + content.substring(matches[0] + search.length);
+    removed += countLines(search);
+    added += countLines(replace);
+  });
+
+  return { content, applied: edits.length, added, removed };
+}
+
+interface DiffHunk {
+  oldStart: number;
+  lines: string[]; // Raw hunk lines including their ' ', '-' or '+' prefix
+}
+
+const parseUnifiedDiff = (patch: string): DiffHunk[] => {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+
+  for (const line of normalizeNewlines(patch).split('\n')) {
+    const header = line.match(/^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/);
+    if (header) {
+      current = { oldStart: parseInt(header[1], 10), lines: [] };
+      hunks.push(current);
+      continue;
+    }
+    if (!current) continue; // Skip ---/+++ file headers and any preamble
+    if (line.startsWith('\\')) continue; // "\ No newline at end of file"
+    if (line.startsWith(' ') || line.startsWith('-') || line.startsWith('+')) {
+      current.lines.push(line);
+    } else if (line === '') {
+      // Some generators drop the leading space on blank context lines
+      current.lines.push(' ');
+    }
+  }
+
+  // A trailing blank line from the patch text itself is not context
+  hunks.forEach((hunk) => {
+    while (hunk.lines.length > 0 && hunk.lines[hunk.lines.length - 1] === ' ') {
+      hunk.lines.pop();
+    }
+  });
+
+  return hunks.filter((h) => h.lines.length > 0);
+};
+
+const matchesAt = (fileLines: string[], block: string[], start: number) => {
+  if (start < 0 || start + block.length > fileLines.length) return false;
+  return block.every((line, i) => fileLines[start + i] === line);
+};
+
+/**
+ * Apply a single-file unified diff. Hunks are located by their context and
+ * removed lines, preferring the position from the hunk header.
+ */
+export function applyUnifiedDiff(original: string, patch: string): EditResult {
+  const hunks = parseUnifiedDiff(patch);
+  if (hunks.length === 0) {
+    throw new CodedError('Patch contains no hunks. Expected a unified diff with "@@ -a,b +c,d @@" headers.', 'EDIT_INVALID_PATCH');
+  }
+
+  const fileLines = normalizeNewlines(original).split('\n');
+  let offset = 0; // Line shift from previously applied hunks
+  let added = 0;
+  let removed = 0;
+
+  hunks.forEach((hunk, i) => {
+    const label = `Hunk ${i + 1} (@@ -${hunk.oldStart})`;
+    const oldBlock = hunk.lines.filter((l) => !l.startsWith('+')).map((l) => l.slice(1));
+    const newBlock = hunk.lines.filter((l) => !l.startsWith('-')).map((l) => l.slice(1));
+
+    let start: number;
+    const expected = Math.max(0, hunk.oldStart - 1 + offset);
+
+    if (oldBlock.length === 0) {
+      // Pure insertion: trust the header position
+      start = Math.min(expected, fileLines.length);
+    } else if (matchesAt(fileLines, oldBlock, expected)) {
+      start = expected;
+    } else {
+      const candidates: number[] = [];
+      for (let pos = 0; pos <= fileLines.length - oldBlock.length; pos++) {
+        if (matchesAt(fileLines, oldBlock, pos)) candidates.push(pos);
+      }
+      if (candidates.length === 0) {
+        throw new CodedError(
+          `${label} does not apply: its context/removed lines were not found. Read the file again and regenerate the patch.`,
+          'EDIT_ANCHOR_NOT_FOUND'
+        );
+      }
+      if (candidates.length > 1) {
+        throw new CodedError(
+          `${label} is ambiguous: its context matches at lines ${candidates.map((c) => c + 1).join(', ')}. Add more context lines.`,
+          'EDIT_ANCHOR_AMBIGUOUS'
+        );
+      }
+      start = candidates[0];
+    }
+
+    fileLines.splice(start, oldBlock.length, ...newBlock);
+    offset += newBlock.length - oldBlock.length;
+    added += hunk.lines.filter((l) => l.startsWith('+')).length;
+    removed += hunk.lines.filter((l) => l.startsWith('-')).length;
+  });
+
+  return { content: fileLines.join('\n'), applied: hunks.length, added, removed };
+}
+
+/**
+ * Apply edit_file parameters: a unified diff (patch), a list of edits, or a single search/replace
+ */
+export function applyEditParams(original: string, params: any): EditResult {
+  if (typeof params.patch === 'string' && params.patch.trim()) {
+    return applyUnifiedDiff(original, params.patch);
+  }
+
+  const edits: SearchReplaceEdit[] = Array.isArray(params.edits)
+    ? params.edits
+    : typeof params.search === 'string'
+      ? [{ search: params.search, replace: params.replace ?? '' }]
+      : [];
+
+  return applySearchReplace(original, edits);
+}
@@ -7,6 +7,7 @@ export interface FileNode {
   type: 'file' | 'folder';
   path: string;
   size?: number;
+  modifiedAt?: number; // Modification time in seconds, when the file system reports one
   children?: FileNode[];
 }
 
@@ -38,6 +39,7 @@ class FileManager {
             type: 'file',
             path: filePath,
             size: info.size,
+            modifiedAt: info.modificationTime,
           });
         }
       }
@@ -131,6 +133,15 @@ class FileManager {
     }
   }
 
+  async isFolder(path: string): Promise<boolean> {
+    try {
+      const info = await FileSystem.getInfoAsync(path);
+      return info.exists && !!info.isDirectory;
+    } catch {
+      return false;
+    }
+  }
+
   async shareFile(path: string): Promise<void> {
     try {
       await Sharing.shareAsync(path);
@@ -0,0 +1,385 @@
+/**
+ * File Overlay
+ * Stages an agent run's file changes in memory so the run can be committed
+ * or rolled back as a whole. Reads see staged content first, then the disk.
+ * Tools that need the real project on disk (git, remote shell, previews)
+ * flush the overlay first; rollback still restores the flushed files from
+ * the originals recorded here. A dry-run overlay never flushes, so the run
+ * only produces a changeset.
+ */
+
+import { fileManager, FileNode } from './fileManager';
+import { resolveProjectPath, toProjectPath } from './projectPaths';
+import type { CodeDiff } from './storage';
+import { CodedError } from './codedError';
+
+export interface FileChange {
+  path: string; // Project-relative
+  type: 'created' | 'modified' | 'deleted';
+  oldContent: string;
+  newContent: string;
+}
+
+// Serializable overlay state, kept in the run journal so a resumed run keeps its staged files
+export interface OverlaySnapshot {
+  files: ({ path: string } & StagedFile)[];
+  folders: string[];
+  deletedFolders: string[];
+}
+
+interface StagedFile {
+  original: string | null; // null when the file did not exist before the run
+  content: string | null; // null when the run deleted it
+  flushed: boolean; // The disk holds the staged content
+  touched: boolean; // A flush changed the file on disk, so rollback has to restore it
+}
+
+const isUnder = (path: string, folder: string) => folder === '' || path === folder || path.startsWith(`${folder}/`);
+
+const parentsOf = (path: string): string[] => {
+  const parts = path.split('/');
+  return parts.slice(0, -1).map((_, i) => parts.slice(0, i + 1).join('/'));
+};
+
+export class FileOverlay {
+  readonly dryRun: boolean;
+  private files = new Map<string, StagedFile>();
+  private folders = new Set<string>(); // Folders created by the run
+  private deletedFolders = new Set<string>();
+  private flushing: Promise<void> | null = null;
+
+  constructor(snapshot?: OverlaySnapshot, options: { dryRun?: boolean } = {}) {
+    this.dryRun = !!options.dryRun;
+    if (snapshot) {
+      snapshot.files.forEach(({ path, ...file }) => this.files.set(path, file));
+      snapshot.folders.forEach((folder) => this.folders.add(folder));
+      snapshot.deletedFolders.forEach((folder) => this.deletedFolders.add(folder));
+    }
+  }
+
+  private key(path: string): string {
+    return resolveProjectPath(path).relative;
+  }
+
+  private uri(relative: string): string {
+    return resolveProjectPath(relative).uri;
+  }
+
+  private inDeletedFolder(relative: string): boolean {
+    return Array.from(this.deletedFolders).some((folder) => isUnder(relative, folder));
+  }
+
+  private async readDisk(relative: string): Promise<string | null> {
+    if (this.inDeletedFolder(relative)) return null;
+    const uri = this.uri(relative);
+    if (!(await fileManager.fileExists(uri))) return null;
+    return fileManager.readFile(uri);
+  }
+
+  private async stage(relative: string, content: string | null): Promise<void> {
+    const existing = this.files.get(relative);
+    if (existing) {
+      existing.content = content;
+      existing.flushed = false;
+      return;
+    }
+    const original = await this.readDisk(relative);
+    this.files.set(relative, { original, content, flushed: false, touched: false });
+  }
+
+  async readFile(path: string): Promise<string> {
+    const relative = this.key(path);
+    const staged = this.files.get(relative);
+    if (staged) {
+      if (staged.content === null) throw new CodedError(`File not found: ${relative}`, 'FILE_NOT_FOUND');
+      return staged.content;
+    }
+    if (this.inDeletedFolder(relative)) throw new CodedError(`File not found: ${relative}`, 'FILE_NOT_FOUND');
+    return fileManager.readFile(this.uri(relative));
+  }
+
+  async writeFile(path: string, content: string): Promise<void> {
+    const relative = this.key(path);
+    parentsOf(relative).forEach((folder) => this.deletedFolders.delete(folder));
+    await this.stage(relative, content);
+  }
+
+  async createFile(path: string): Promise<void> {
+    return this.writeFile(path, '');
+  }
+
+  async createFolder(path: string): Promise<void> {
+    const relative = this.key(path);
+    this.deletedFolders.delete(relative);
+    if (!(await this.fileExists(relative))) this.folders.add(relative);
+  }
+
+  async deleteFile(path: string): Promise<void> {
+    const relative = this.key(path);
+    const staged = this.files.get(relative);
+    if (staged && staged.content !== null) {
+      staged.content = null;
+      staged.flushed = false;
+      return;
+    }
+
+    const nodes = await this.listFiles(relative);
+    const isFolder = this.folders.has(relative) || nodes.length > 0 ||
+      (!staged && !this.inDeletedFolder(relative) && (await fileManager.isFolder(this.uri(relative))));
+    if (!isFolder) {
+      if ((await this.readDisk(relative)) === null) throw new CodedError(`File not found: ${relative}`, 'FILE_NOT_FOUND');
+      await this.stage(relative, null);
+      return;
+    }
+
+    // Deleting a folder stages the deletion of every file in it so rollback can restore them
+    const collect = (list: FileNode[]): string[] =>
+      list.flatMap((node) => (node.type === 'file' ? [toProjectPath(node.path) || ''] : collect(node.children || [])));
+    for (const file of collect(nodes).filter(Boolean)) {
+      await this.stage(file, null);
+    }
+    Array.from(this.folders).filter((folder) => isUnder(folder, relative)).forEach((folder) => this.folders.delete(folder));
+    this.deletedFolders.add(relative);
+  }
+
+  async fileExists(path: string): Promise<boolean> {
+    const relative = this.key(path);
+    const staged = this.files.get(relative);
+    if (staged) return staged.content !== null;
+    if (this.folders.has(relative)) return true;
+    if (Array.from(this.files.entries()).some(([file, f]) => f.content !== null && isUnder(file, relative) && file !== relative)) return true;
+    if (this.inDeletedFolder(relative)) return false;
+    return fileManager.fileExists(this.uri(relative));
+  }
+
+  /**
+   * Disk listing of a folder with staged files, folders and deletions applied
+   */
+  async listFiles(path?: string): Promise<FileNode[]> {
+    const folder = this.key(path || '');
+    const files = new Map<string, Pick<FileNode, 'size' | 'modifiedAt'>>(); // Staged files have no modifiedAt
+    const folders = new Set<string>();
+
+    const walk = (nodes: FileNode[]) => {
+      for (const node of nodes) {
+        const relative = toProjectPath(node.path);
+        if (relative === null || this.inDeletedFolder(relative)) continue;
+        if (node.type === 'folder') {
+          folders.add(relative);
+          walk(node.children || []);
+        } else {
+          files.set(relative, { size: node.size, modifiedAt: node.modifiedAt });
+        }
+      }
+    };
+    if (!this.inDeletedFolder(folder) && (await fileManager.isFolder(this.uri(folder)))) {
+      walk(await fileManager.listFiles(this.uri(folder)));
+    }
+
+    this.files.forEach((staged, relative) => {
+      if (!isUnder(relative, folder) || relative === folder) return;
+      if (staged.content === null) {
+        files.delete(relative);
+      } else {
+        files.set(relative, { size: staged.content.length });
+        parentsOf(relative).forEach((parent) => folders.add(parent));
+      }
+    });
+    this.folders.forEach((created) => {
+      if (isUnder(created, folder) && created !== folder) {
+        folders.add(created);
+        parentsOf(created).forEach((parent) => folders.add(parent));
+      }
+    });
+
+    const build = (parent: string): FileNode[] => {
+      const childOf = (relative: string) =>
+        relative !== parent && isUnder(relative, parent) && !relative.substring(parent ? parent.length + 1 : 0).includes('/');
+      const nodes: FileNode[] = [
+        ...Array.from(folders).filter(childOf).map((relative) => ({
+          id: this.uri(relative),
+          name: relative.split('/').pop()!,
+          type: 'folder' as const,
+          path: this.uri(relative),
+          children: build(relative),
+        })),
+        ...Array.from(files.keys()).filter(childOf).map((relative) => ({
+          id: this.uri(relative),
+          name: relative.split('/').pop()!,
+          type: 'file' as const,
+          path: this.uri(relative),
+          ...files.get(relative),
+        })),
+      ];
+      return nodes
+        .filter((node) => !node.name.startsWith('.'))
+        .sort((a, b) => (a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'folder' ? -1 : 1));
+    };
+    return build(folder);
+  }
+
+  async scanProject(): Promise<FileNode> {
+    return {
+      id: 'root',
+      name: 'Project Files',
+      type: 'folder',
+      path: fileManager.getProjectRoot(),
+      children: await this.listFiles(),
+    };
+  }
+
+  /**
+   * Created, modified and deleted files compared with the project before the run
+   */
+  getChanges(): FileChange[] {
+    const changes: FileChange[] = [];
+    this.files.forEach((staged, path) => {
+      if (staged.original === staged.content) return;
+      if (staged.content === null && staged.original === null) return;
+      changes.push({
+        path,
+        type: staged.original === null ? 'created' : staged.content === null ? 'deleted' : 'modified',
+        oldContent: staged.original ?? '',
+        newContent: staged.content ?? '',
+      });
+    });
+    return changes.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  hasChanges(): boolean {
+    return this.getChanges().length > 0 || this.folders.size > 0;
+  }
+
+  /**
+   * Write staged changes to disk. Originals are kept, so a later rollback
+   * still restores them.
+   */
+  async flush(): Promise<void> {
+    if (this.dryRun) return;
+    // Concurrent steps share one flush
+    if (this.flushing) return this.flushing;
+    this.flushing = (async () => {
+      for (const folder of this.folders) {
+        await fileManager.createFolder(this.uri(folder));
+      }
+      for (const [relative, staged] of this.files) {
+        if (staged.flushed) continue;
+        const uri = this.uri(relative);
+        if (staged.content === null) {
+          if (await fileManager.fileExists(uri)) await fileManager.deleteFile(uri);
+        } else {
+          await fileManager.writeFile(uri, staged.content);
+        }
+        staged.flushed = true;
+        staged.touched = true;
+      }
+      for (const folder of this.deletedFolders) {
+        const uri = this.uri(folder);
+        if (await fileManager.fileExists(uri)) await fileManager.deleteFile(uri);
+      }
+    })();
+    try {
+      await this.flushing;
+    } finally {
+      this.flushing = null;
+    }
+  }
+
+  /**
+   * Files changed on disk since they were staged, e.g. edited by the user
+   * between a dry run and applying it
+   */
+  async findConflicts(): Promise<string[]> {
+    const conflicts: string[] = [];
+    for (const [relative, staged] of this.files) {
+      if (staged.touched) continue;
+      const uri = this.uri(relative);
+      const current = (await fileManager.fileExists(uri)) && !(await fileManager.isFolder(uri))
+        ? await fileManager.readFile(uri)
+        : null;
+      if (current !== staged.original) conflicts.push(relative);
+    }
+    return conflicts;
+  }
+
+  /**
+   * Write every staged change to disk. When a write fails, files already
+   * written are restored and the error is rethrown.
+   */
+  async commit(): Promise<FileChange[]> {
+    if (this.dryRun) {
+      throw new CodedError('A dry run is applied from its snapshot, not committed directly.', 'DRY_RUN');
+    }
+    const changes = this.getChanges();
+    try {
+      await this.flush();
+    } catch (error) {
+      console.error('[Overlay] Commit failed, restoring files:', error);
+      await this.rollback();
+      throw error;
+    }
+    console.log('[Overlay] Committed', changes.length, 'file changes');
+    this.clear();
+    return changes;
+  }
+
+  /**
+   * Drop staged changes and restore any files a flush already wrote
+   */
+  async rollback(): Promise<void> {
+    let restored = 0;
+    for (const [relative, staged] of this.files) {
+      if (!staged.touched) continue;
+      const uri = this.uri(relative);
+      try {
+        if (staged.original === null) {
+          if (await fileManager.fileExists(uri)) await fileManager.deleteFile(uri);
+        } else {
+          await fileManager.writeFile(uri, staged.original);
+        }
+        restored++;
+      } catch (error) {
+        console.error('[Overlay] Could not restore', relative, error);
+      }
+    }
+    // Only folders the run created; their files were removed above
+    for (const folder of this.folders) {
+      const uri = this.uri(folder);
+      if (await fileManager.fileExists(uri)) {
+        const remaining = await fileManager.listFiles(uri);
+        if (remaining.length === 0) await fileManager.deleteFile(uri).catch(() => {});
+      }
+    }
+    console.log('[Overlay] Rolled back,', restored, 'files restored');
+    this.clear();
+  }
+
+  private clear() {
+    this.files.clear();
+    this.folders.clear();
+    this.deletedFolders.clear();
+  }
+
+  snapshot(): OverlaySnapshot {
+    return {
+      files: Array.from(this.files.entries()).map(([path, staged]) => ({ path, ...staged })),
+      folders: Array.from(this.folders),
+      deletedFolders: Array.from(this.deletedFolders),
+    };
+  }
+}
+
+/**
+ * One diff covering every changed file, each introduced by a header line
+ */
+export function buildChangeDiff(changes: FileChange[]): CodeDiff {
+  const section = (change: FileChange, content: string) =>
+    `=== ${change.path} (${change.type}) ===\n${content}`;
+  return {
+    filename: `${changes.length} file${changes.length === 1 ? '' : 's'} changed`,
+    oldCode: changes.map((change) => section(change, change.oldContent)).join('\n\n'),
+    newCode: changes.map((change) => section(change, change.newContent)).join('\n\n'),
+    language: 'text',
+    files: changes.map((change) => change.path),
+  };
+}
@@ -1,5 +1,6 @@
 import * as FileSystem from 'expo-file-system/legacy';
 import { Buffer } from 'buffer';
+import { CodedError } from './codedError';
 
 type StatLike = {
   size: number;
@@ -85,9 +86,7 @@ const stat = async (path: string) => {
   const filePath = normalizePath(path);
   const info = await FileSystem.getInfoAsync(filePath);
   if (!info.exists) {
-    const error: any = new Error(`ENOENT: no such file or directory, stat '${path}'`);
-    error.code = 'ENOENT';
-    throw error;
+    throw new CodedError(`ENOENT: no such file or directory, stat '${path}'`, 'ENOENT');
   }
   return toStat(info);
 };
@@ -105,15 +104,11 @@ const rmdir = async (path: string) => {
 };
 
 const readlink = async () => {
-  const error: any = new Error('Symlinks are not supported in this environment.');
-  error.code = 'ENOSYS';
-  throw error;
+  throw new CodedError('Symlinks are not supported in this environment.', 'ENOSYS');
 };
 
 const symlink = async () => {
-  const error: any = new Error('Symlinks are not supported in this environment.');
-  error.code = 'ENOSYS';
-  throw error;
+  throw new CodedError('Symlinks are not supported in this environment.', 'ENOSYS');
 };
 
 const fsImpl = {
@@ -3,6 +3,7 @@ import http from 'isomorphic-git/http/web';
 import { gitFs } from './gitFs';
 import { fileManager } from './fileManager';
 import { storage, GitSettings } from './storage';
+import { CodedError } from './codedError';
 
 export interface GitStatusSummary {
   branch: string;
@@ -40,9 +41,7 @@ const ensureRepoExists = async () => {
   const gitDir = `${getDir()}/.git`;
   const exists = await fileManager.fileExists(gitDir);
   if (!exists) {
-    const error: any = new Error('Not a git repository. Initialize or clone first.');
-    error.code = 'NO_REPO';
-    throw error;
+    throw new CodedError('Not a git repository. Initialize or clone first.', 'NO_REPO');
   }
 };
 
@@ -168,9 +167,7 @@ export const gitService = {
     const dir = getDir();
     const existing = await fileManager.listFiles(dir);
     if (existing.length > 0) {
-      const error: any = new Error('Project directory is not empty. Clear it before cloning.');
-      error.code = 'DIR_NOT_EMPTY';
-      throw error;
+      throw new CodedError('Project directory is not empty. Clear it before cloning.', 'DIR_NOT_EMPTY');
     }
     const auth = await getAuth(params);
     await git.clone({
@@ -0,0 +1,46 @@
+/**
+ * Image Attachments
+ * Downscales picked images and encodes them as base64 parts for vision models
+ */
+
+import { manipulateAsync, SaveFormat } from 'expo-image-manipulator';
+import type { AIImagePart } from './aiService';
+import { ImageAttachment } from './storage';
+import { CodedError } from './codedError';
+
+// Longest edge sent to providers; larger images are resized by the APIs anyway
+const MAX_IMAGE_DIMENSION = 1568;
+const JPEG_QUALITY = 0.8;
+
+const getResizeAction = (image: ImageAttachment) => {
+  if (!image.width || !image.height) {
+    // Unknown size: constrain the width and keep the aspect ratio
+    return [{ resize: { width: MAX_IMAGE_DIMENSION } }];
+  }
+  if (Math.max(image.width, image.height) <= MAX_IMAGE_DIMENSION) return [];
+  return image.width >= image.height
+    ? [{ resize: { width: MAX_IMAGE_DIMENSION } }]
+    : [{ resize: { height: MAX_IMAGE_DIMENSION } }];
+};
+
+/**
+ * Resize an attachment to fit MAX_IMAGE_DIMENSION and re-encode it as JPEG
+ */
+export async function prepareImageForUpload(image: ImageAttachment): Promise<AIImagePart> {
+  const result = await manipulateAsync(image.uri, getResizeAction(image), {
+    compress: JPEG_QUALITY,
+    format: SaveFormat.JPEG,
+    base64: true,
+  });
+
+  if (!result.base64) {
+    throw new CodedError(`Failed to encode image ${image.name || image.uri}`, 'IMAGE_ENCODE_FAILED');
+  }
+
+  console.log(`Prepared image ${image.name || image.uri}: ${result.width}x${result.height}, ${Math.round(result.base64.length * 0.75 / 1024)} KB`);
+  return { type: 'image', mimeType: 'image/jpeg', data: result.base64 };
+}
+
+export async function prepareImagesForUpload(images: ImageAttachment[]): Promise<AIImagePart[]> {
+  return Promise.all(images.map(prepareImageForUpload));
+}
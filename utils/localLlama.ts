@@ -185,7 +185,8 @@ export const getLocalLlamaContext = async () => {
 
 export const streamLocalChat = async (
   messages: AIMessage[],
-  onToken: (token: string) => void = () => {}
+  onToken: (token: string) => void = () => {},
+  signal?: AbortSignal
 ): Promise<AIResponse> => {
   if (!initLlama) {
     return {
@@ -197,10 +198,20 @@ export const streamLocalChat = async (
   try {
     const context = await getLocalLlamaContext();
     let streamed = '';
+    const stop = () => {
+      context.stopCompletion().catch(() => {});
+    };
+    signal?.addEventListener('abort', stop);
 
     const response = await context.completion(
       {
-        messages: messages.map((m) => ({ role: m.role, content: m.content })),
+        // Text-only model: keep the text parts of multimodal messages
+        messages: messages.map((m) => ({
+          role: m.role,
+          content: typeof m.content === 'string'
+            ? m.content
+            : m.content.map((part) => (part.type === 'text' ? part.text : '')).filter(Boolean).join('\n'),
+        })),
         n_predict: 512,
         temperature: 0.7,
         stop: STOP_WORDS,
@@ -213,8 +224,16 @@ export const streamLocalChat = async (
       }
     );
 
+    signal?.removeEventListener('abort', stop);
+    if (signal?.aborted) {
+      return { content: streamed, error: 'Cancelled' }; // CANCELLED_ERROR (aiService imports this module)
+    }
+
     return {
       content: response?.text || streamed || '',
+      usage: response
+        ? { promptTokens: response.tokens_evaluated || 0, completionTokens: response.tokens_predicted || 0 }
+        : undefined,
     };
   } catch (error) {
     return {
@@ -14,8 +14,12 @@ export interface MCPServer {
   url: string;
   tools: MCPTool[];
   status: 'connected' | 'disconnected' | 'error';
+  workspace: boolean; // Works on the proxy workspace, so its path parameters are kept inside the project
 }
 
+// Proxy servers started in the workspace (mcp-proxy MCP_ROOT) that take file paths
+const WORKSPACE_SERVER_URL = /\/mcp\/(filesystem|git)\/?$/;
+
 export interface MCPToolResult {
   success: boolean;
   output: any;
@@ -28,7 +32,8 @@ class MCPClient {
   /**
    * Connect to an MCP server
    */
-  async connectServer(name: string, url: string): Promise<void> {
+  async connectServer(name: string, url: string, options: { workspace?: boolean } = {}): Promise<void> {
+    const workspace = options.workspace ?? WORKSPACE_SERVER_URL.test(url.trim());
     try {
       // Determine endpoint - Context7 uses direct URL, others may use /mcp/v1
       const endpoint = url.includes('/mcp') && !url.includes('/v1') ? url : `${url}/mcp/v1`;
@@ -107,6 +112,7 @@ class MCPClient {
         url,
         tools,
         status: 'connected',
+        workspace,
       });
     } catch (error) {
       this.servers.set(name, {
@@ -114,6 +120,7 @@ class MCPClient {
         url,
         tools: [],
         status: 'error',
+        workspace,
       });
       throw error;
     }
@@ -125,7 +132,8 @@ class MCPClient {
   async executeTool(
     serverName: string,
     toolName: string,
-    parameters: any
+    parameters: any,
+    signal?: AbortSignal
   ): Promise<MCPToolResult> {
     const server = this.servers.get(serverName);
 
@@ -158,6 +166,7 @@ class MCPClient {
       const response = await fetch(endpoint, {
         method: 'POST',
         headers,
+        signal,
         body: JSON.stringify({
           jsonrpc: '2.0',
           id: Date.now(),
@@ -237,6 +246,13 @@ class MCPClient {
     return allTools;
   }
 
+  /**
+   * Whether a server's path parameters refer to the proxy workspace
+   */
+  isWorkspaceServer(name: string): boolean {
+    return !!this.servers.get(name)?.workspace;
+  }
+
   /**
    * Disconnect a server
    */
@@ -0,0 +1,77 @@
+/**
+ * Project Memory
+ * A per-project markdown file (.mobcode/MEMORY.md) with instructions and
+ * facts the agent should know in every conversation. It is added to the
+ * planning prompt; the agent appends to it with the remember tool.
+ */
+
+import { fileManager } from './fileManager';
+import { resolveProjectPath } from './projectPaths';
+
+export const MEMORY_PATH = '.mobcode/MEMORY.md';
+
+const MAX_PROMPT_CHARS = 6000; // Keeps a long memory file from crowding out the conversation
+
+const MEMORY_HEADER = `# Project Memory
+
+Instructions and facts the agent loads into every conversation in this project.
+`;
+
+// fileManager, or the agent run's FileOverlay so remembered facts are staged with its other changes
+type ProjectFiles = Pick<typeof fileManager, 'readFile' | 'writeFile' | 'fileExists'>;
+
+class ProjectMemory {
+  private getUri(): string {
+    return resolveProjectPath(MEMORY_PATH).uri;
+  }
+
+  /**
+   * Memory file content, or '' when the project has none yet
+   */
+  async read(files: ProjectFiles = fileManager): Promise<string> {
+    const uri = this.getUri();
+    try {
+      if (!(await files.fileExists(uri))) return '';
+      return await files.readFile(uri);
+    } catch (error) {
+      console.error('Error reading project memory:', error);
+      return '';
+    }
+  }
+
+  async write(content: string, files: ProjectFiles = fileManager): Promise<void> {
+    await files.writeFile(this.getUri(), content);
+  }
+
+  /**
+   * Memory content with a fact appended as a list item
+   */
+  withFact(current: string, fact: string): string {
+    const base = current.trim() ? current.replace(/\s*$/, '\n') : `${MEMORY_HEADER}\n`;
+    const item = fact.trim().replace(/\s*\n\s*/g, ' ');
+    return `${base}- ${item}\n`;
+  }
+
+  async remember(fact: string, files: ProjectFiles = fileManager): Promise<void> {
+    const current = await this.read(files);
+    await this.write(this.withFact(current, fact), files);
+    console.log('[Memory] Remembered:', fact.substring(0, 100));
+  }
+
+  /**
+   * Prompt section with the memory file, '' when it is empty
+   */
+  async formatForAI(): Promise<string> {
+    const content = (await this.read()).trim();
+    if (!content) return '';
+    const truncated = content.length > MAX_PROMPT_CHARS
+      ? `${content.substring(0, MAX_PROMPT_CHARS)}\n... (truncated, read_file ${MEMORY_PATH} for the rest)`
+      : content;
+    return `## Project Memory (${MEMORY_PATH})
+Follow these project instructions and use these facts:
+
+${truncated}`;
+  }
+}
+
+export const projectMemory = new ProjectMemory();
@@ -0,0 +1,146 @@
+/**
+ * Project Paths
+ * Every agent file tool resolves its paths here. Input may be project-relative,
+ * start with "/" (treated as the project root) or be a file:// URI inside the
+ * project. "." and ".." are collapsed and anything that ends up outside the
+ * active project root is refused with a PATH_OUTSIDE_PROJECT error.
+ */
+
+import { fileManager } from './fileManager';
+import { CodedError } from './codedError';
+
+export interface ProjectPath {
+  uri: string; // file:// URI passed to fileManager
+  relative: string; // Project-relative path, "" for the root itself
+}
+
+export type PathErrorCode = 'PATH_OUTSIDE_PROJECT' | 'PATH_INVALID';
+
+// Parameter names MCP tools commonly use for file paths
+const MCP_PATH_PARAMS = ['path', 'paths', 'file', 'files', 'source', 'destination', 'directory', 'dir', 'cwd'];
+
+export class PathError extends CodedError<PathErrorCode> {
+  readonly path: string; // The path as given
+
+  constructor(message: string, code: PathErrorCode, path: string) {
+    super(message, code);
+    this.path = path;
+  }
+}
+
+export const isPathError = (error: unknown): error is PathError => error instanceof PathError;
+
+const getRoot = () => fileManager.getProjectRoot().replace(/\/+$/, '');
+
+/**
+ * Collapse "." and ".." segments; null when ".." climbs above the start
+ */
+const normalizeSegments = (path: string): string | null => {
+  const parts: string[] = [];
+  for (const part of path.split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part === '..') {
+      if (parts.length === 0) return null;
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  }
+  return parts.join('/');
+};
+
+/**
+ * Project-relative form of a path, or null when it leaves the project
+ */
+export function toProjectPath(input: string): string | null {
+  const root = getRoot();
+  const rootPath = root.replace(/^file:\/\//, '');
+  let clean = input.trim().replace(/\\/g, '/');
+
+  if (clean.startsWith('file://')) {
+    clean = clean.substring('file://'.length);
+    if (clean !== rootPath && !clean.startsWith(`${rootPath}/`)) return null;
+  }
+  if (rootPath && (clean === rootPath || clean.startsWith(`${rootPath}/`))) {
+    clean = clean.substring(rootPath.length);
+  }
+  return normalizeSegments(clean);
+}
+
+/**
+ * Resolve a tool path inside the project root. An empty path is the root.
+ * Throws PATH_OUTSIDE_PROJECT / PATH_INVALID errors the agent can correct.
+ */
+export function resolveProjectPath(input?: string): ProjectPath {
+  const root = getRoot();
+  if (input === undefined || input === null || input === '') {
+    return { uri: root, relative: '' };
+  }
+  if (typeof input !== 'string' || input.includes('\0')) {
+    throw new PathError(`Invalid path: ${String(input)}`, 'PATH_INVALID', String(input));
+  }
+
+  const relative = toProjectPath(input);
+  if (relative === null) {
+    throw new PathError(
+      `Path "${input}" is outside the project. Use a path relative to the project root, e.g. "src/App.tsx".`,
+      'PATH_OUTSIDE_PROJECT',
+      input
+    );
+  }
+  const uri = root && relative ? `${root}/${relative}` : root || relative;
+  return { uri, relative };
+}
+
+/**
+ * Relative path for the MCP proxy workspace (remote shell cwd, MCP tool
+ * params). Device file:// URIs are mapped to their project path and, as for
+ * project paths, a leading "/" means the workspace root.
+ */
+export function resolveWorkspacePath(input: string): string {
+  const clean = input.trim().replace(/\\/g, '/');
+  if (clean.startsWith('file://')) {
+    return resolveProjectPath(clean).relative || '.';
+  }
+  const relative = normalizeSegments(clean);
+  if (relative === null) {
+    throw new PathError(
+      `Path "${input}" is outside the workspace. Use a path relative to the workspace root.`,
+      'PATH_OUTSIDE_PROJECT',
+      input
+    );
+  }
+  return relative || '.';
+}
+
+/**
+ * Check the path-like parameters of a call to a workspace MCP server
+ * (filesystem, git). Paths become workspace-relative; absolute paths and
+ * ".." escapes fail with PATH_OUTSIDE_PROJECT.
+ */
+export function sandboxMCPParams(params: any): any {
+  if (!params || typeof params !== 'object' || Array.isArray(params)) return params;
+
+  const sandbox = (value: any): any => {
+    if (typeof value === 'string') {
+      const clean = value.trim().replace(/\\/g, '/');
+      // The app can't tell where an absolute path lands on the proxy machine
+      if (!clean.startsWith('file://') && (clean.startsWith('/') || /^[A-Za-z]:\//.test(clean))) {
+        throw new PathError(
+          `Path "${value}" is outside the project. Use a path relative to the project root, e.g. "src/App.tsx".`,
+          'PATH_OUTSIDE_PROJECT',
+          value
+        );
+      }
+      return resolveWorkspacePath(value);
+    }
+    if (Array.isArray(value)) return value.map(sandbox);
+    return value;
+  };
+
+  const result = { ...params };
+  for (const key of MCP_PATH_PARAMS) {
+    if (key in result) result[key] = sandbox(result[key]);
+  }
+  return result;
+}
@@ -0,0 +1,152 @@
+/**
+ * Project Replace
+ * Find-and-replace across the project on top of the shared search engine.
+ * Replacements support $1, $<name>, $& and $$ in regex mode. Every file is
+ * written through a FileOverlay, so a replace lands (or fails) as one change
+ * set that can be undone as a whole.
+ */
+
+import { fileManager } from './fileManager';
+import { FileOverlay, FileChange } from './fileOverlay';
+import { SearchOptions, SearchResults, SearchMatch, buildSearchPattern, searchProject } from './projectSearch';
+import { CodedError } from './codedError';
+
+export interface ReplaceOptions extends SearchOptions {
+  replacement: string;
+}
+
+export interface ReplaceChange extends FileChange {
+  uri: string;
+  count: number; // Matches replaced in the file
+}
+
+type ReplaceFiles = Pick<typeof fileManager, 'readFile' | 'writeFile' | 'scanProject' | 'fileExists'>;
+
+// Match cap for a replace; the search screen lists every match it will touch
+export const MAX_REPLACE_MATCHES = 5000;
+
+/**
+ * Identifies a match so the UI can exclude it from a replace
+ */
+export const matchKey = (path: string, match: Pick<SearchMatch, 'line' | 'column'>) =>
+  `${path}:${match.line}:${match.column}`;
+
+/**
+ * Replacement text for one regex match, expanding $1, $<name>, $& and $$
+ */
+const expandReplacement = (replacement: string, match: RegExpExecArray): string =>
+  replacement.replace(/\$(\$|&|<([^>]+)>|(\d{1,2}))/g, (token, symbol, name, group) => {
+    if (symbol === '$') return '$';
+    if (symbol === '&') return match[0];
+    if (name !== undefined) return match.groups?.[name] ?? token;
+    const index = Number(group);
+    return index > 0 && index < match.length ? match[index] ?? '' : token;
+  });
+
+/**
+ * A line with the matches chosen by `keep` (by column) replaced
+ */
+export function replaceLine(
+  line: string,
+  options: ReplaceOptions,
+  keep: (column: number) => boolean = () => true
+): string {
+  const pattern = buildSearchPattern(options);
+  let result = '';
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(line)) !== null) {
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    if (!keep(match.index)) continue;
+    result += line.substring(last, match.index) + (options.regex ? expandReplacement(options.replacement, match) : options.replacement);
+    last = match.index + match[0].length;
+  }
+  return result + line.substring(last);
+}
+
+/**
+ * Old and new content for every file with at least one match left after
+ * the excluded ones (keys from matchKey)
+ */
+export async function computeReplacements(
+  results: SearchResults,
+  options: ReplaceOptions,
+  excluded: Set<string> = new Set(),
+  files: ReplaceFiles = fileManager
+): Promise<ReplaceChange[]> {
+  const changes: ReplaceChange[] = [];
+
+  for (const file of results.files) {
+    const kept = file.matches.filter((match) => !excluded.has(matchKey(file.path, match)));
+    if (kept.length === 0) continue;
+
+    const oldContent = await files.readFile(file.uri);
+    const lines = oldContent.split('\n');
+    const keptByLine = new Map<number, Set<number>>();
+    kept.forEach((match) => {
+      if (!keptByLine.has(match.line)) keptByLine.set(match.line, new Set());
+      keptByLine.get(match.line)!.add(match.column);
+    });
+
+    keptByLine.forEach((columns, line) => {
+      const index = line - 1;
+      if (index < lines.length) {
+        lines[index] = replaceLine(lines[index], options, (column) => columns.has(column));
+      }
+    });
+
+    const newContent = lines.join('\n');
+    if (newContent !== oldContent) {
+      changes.push({ path: file.path, uri: file.uri, type: 'modified', oldContent, newContent, count: kept.length });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Search and replace in one call, as the replace_in_files tool does. Writes go to
+ * `files`, so inside an agent run they are staged with the run's other changes.
+ */
+export async function replaceInProject(
+  options: ReplaceOptions,
+  files: ReplaceFiles = fileManager
+): Promise<{ changes: ReplaceChange[]; truncated: boolean }> {
+  const results = await searchProject({ ...options, maxResults: options.maxResults || MAX_REPLACE_MATCHES, contextLines: 0 }, files);
+  const changes = await computeReplacements(results, options, new Set(), files);
+  for (const change of changes) {
+    await files.writeFile(change.uri, change.newContent);
+  }
+  return { changes, truncated: results.truncated };
+}
+
+/**
+ * Write replacements as one change set: if any file fails to write, the
+ * files already written are restored
+ */
+export async function applyChangeSet(changes: ReplaceChange[]): Promise<void> {
+  const overlay = new FileOverlay();
+  for (const change of changes) {
+    await overlay.writeFile(change.uri, change.newContent);
+  }
+  await overlay.commit();
+  console.log('[Replace] Applied change set:', changes.length, 'files');
+}
+
+/**
+ * Restore the files of an applied change set. Refuses with REPLACE_CONFLICT
+ * when a file was edited after the replace.
+ */
+export async function undoChangeSet(changes: ReplaceChange[]): Promise<void> {
+  const conflicts: string[] = [];
+  for (const change of changes) {
+    const current = await fileManager.readFile(change.uri).catch(() => null);
+    if (current !== change.newContent) conflicts.push(change.path);
+  }
+  if (conflicts.length > 0) {
+    throw new CodedError(`Changed since the replace: ${conflicts.join(', ')}`, 'REPLACE_CONFLICT');
+  }
+  await applyChangeSet(changes.map((change) => ({ ...change, oldContent: change.newContent, newContent: change.oldContent })));
+}
@@ -0,0 +1,294 @@
+/**
+ * Project Search
+ * Search engine shared by the search_files tool and the FileSearch screen:
+ * plain text or regex, case and whole-word toggles, include/exclude globs,
+ * .gitignore awareness, context lines and a cap on the number of matches.
+ */
+
+import { fileManager, FileNode } from './fileManager';
+import { resolveProjectPath, toProjectPath } from './projectPaths';
+import { CodedError } from './codedError';
+
+export interface SearchOptions {
+  query: string;
+  regex?: boolean; // Treat the query as a regular expression
+  caseSensitive?: boolean;
+  wholeWord?: boolean;
+  include?: string[]; // Globs a file must match, e.g. "src/**/*.tsx"
+  exclude?: string[]; // Globs of files or folders to skip, e.g. "dist"
+  respectGitignore?: boolean; // Default true
+  contextLines?: number; // Lines shown before and after each match
+  maxResults?: number; // Stop after this many matches
+}
+
+export interface SearchMatch {
+  line: number; // 1-based
+  column: number; // 0-based start of the match in the line
+  length: number;
+  text: string; // The whole line
+  before: string[]; // Context lines above
+  after: string[]; // Context lines below
+}
+
+export interface FileSearchResult {
+  path: string; // Project-relative
+  uri: string;
+  name: string;
+  matches: SearchMatch[];
+}
+
+export interface SearchResults {
+  files: FileSearchResult[];
+  matchCount: number;
+  filesSearched: number;
+  truncated: boolean; // maxResults was reached before every file was searched
+}
+
+export const DEFAULT_MAX_RESULTS = 200;
+const MAX_CONTEXT_LINES = 10;
+
+// Never searched, even without a .gitignore
+const ALWAYS_IGNORED = ['node_modules', '.git', '.expo'];
+
+const BINARY_EXTENSIONS = [
+  'png', 'jpg', 'jpeg', 'gif', 'webp', 'bmp', 'ico', 'pdf', 'zip', 'gz', 'tar', 'jar',
+  'ttf', 'otf', 'woff', 'woff2', 'mp3', 'mp4', 'mov', 'wav', 'gguf', 'bin', 'so', 'dylib',
+];
+
+type SearchFiles = Pick<typeof fileManager, 'scanProject' | 'readFile' | 'fileExists'>;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Regex for a glob: "*" and "?" stay within a path segment, "**" spans
+ * folders and "{a,b}" matches either alternative
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  let i = 0;
+  while (i < glob.length) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/';
+      pattern += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 3 : 2;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+      i++;
+    } else if (char === '?') {
+      pattern += '[^/]';
+      i++;
+    } else if (char === '{' && glob.indexOf('}', i) > i) {
+      const end = glob.indexOf('}', i);
+      pattern += `(?:${glob.substring(i + 1, end).split(',').map(escapeRegExp).join('|')})`;
+      i = end + 1;
+    } else {
+      pattern += escapeRegExp(char);
+      i++;
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+interface GlobRule {
+  regex: RegExp;
+  anchored: boolean; // Matched against the whole relative path instead of the name
+  negate: boolean;
+  folderOnly: boolean;
+}
+
+/**
+ * Globs follow .gitignore rules: without a "/" they match a file or folder
+ * name at any depth, otherwise the path from the project root
+ */
+const toRule = (glob: string): GlobRule | null => {
+  let pattern = glob.trim().replace(/\\/g, '/');
+  if (!pattern || pattern.startsWith('#')) return null;
+  const negate = pattern.startsWith('!');
+  if (negate) pattern = pattern.substring(1);
+  const folderOnly = pattern.endsWith('/');
+  pattern = pattern.replace(/\/+$/, '').replace(/^\.\//, '');
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\//, '');
+  if (!pattern) return null;
+  return { regex: globToRegExp(pattern), anchored, negate, folderOnly };
+};
+
+const ruleMatches = (rule: GlobRule, path: string, isFolder: boolean): boolean => {
+  if (rule.folderOnly && !isFolder) return false;
+  return rule.regex.test(rule.anchored ? path : path.split('/').pop() || '');
+};
+
+/**
+ * Whether a path or one of its folders matches any of the globs
+ */
+export function matchesGlobs(path: string, globs: string[]): boolean {
+  const rules = globs.map(toRule).filter((rule): rule is GlobRule => !!rule);
+  const parts = path.split('/');
+  return parts.some((_, i) => {
+    const candidate = parts.slice(0, i + 1).join('/');
+    const isFolder = i < parts.length - 1;
+    return rules.some((rule) => ruleMatches(rule, candidate, isFolder));
+  });
+}
+
+const loadGitignore = async (files: SearchFiles): Promise<GlobRule[]> => {
+  const uri = resolveProjectPath('.gitignore').uri;
+  try {
+    if (!(await files.fileExists(uri))) return [];
+    const content = await files.readFile(uri);
+    return content.split('\n').map(toRule).filter((rule): rule is GlobRule => !!rule);
+  } catch (error) {
+    console.error('Error reading .gitignore:', error);
+    return [];
+  }
+};
+
+/**
+ * The last matching rule wins, so "!keep.log" re-includes after "*.log"
+ */
+const isIgnored = (rules: GlobRule[], path: string, isFolder: boolean): boolean => {
+  let ignored = false;
+  for (const rule of rules) {
+    if (ruleMatches(rule, path, isFolder)) ignored = !rule.negate;
+  }
+  return ignored;
+};
+
+/**
+ * Regex for the query and toggles. Throws SEARCH_INVALID_PATTERN for a bad regex.
+ */
+export function buildSearchPattern(options: Pick<SearchOptions, 'query' | 'regex' | 'caseSensitive' | 'wholeWord'>): RegExp {
+  let source = options.regex ? options.query : escapeRegExp(options.query);
+  if (options.wholeWord) source = `\\b(?:${source})\\b`;
+  try {
+    return new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+  } catch (error: any) {
+    throw new CodedError(error.message, 'SEARCH_INVALID_PATTERN');
+  }
+}
+
+/**
+ * Project files in tree order that the search options and .gitignore allow
+ */
+export async function collectSearchFiles(
+  options: Pick<SearchOptions, 'include' | 'exclude' | 'respectGitignore'>,
+  files: SearchFiles = fileManager
+): Promise<FileNode[]> {
+  const gitignore = options.respectGitignore === false ? [] : await loadGitignore(files);
+  const exclude = [...ALWAYS_IGNORED, ...(options.exclude || [])].map(toRule).filter((rule): rule is GlobRule => !!rule);
+  const include = options.include?.filter((glob) => glob.trim()) || [];
+  const result: FileNode[] = [];
+
+  const walk = (nodes: FileNode[]) => {
+    for (const node of nodes) {
+      const relative = toProjectPath(node.path);
+      if (relative === null) continue;
+      const isFolder = node.type === 'folder';
+      if (exclude.some((rule) => ruleMatches(rule, relative, isFolder))) continue;
+      if (isIgnored(gitignore, relative, isFolder)) continue;
+      if (isFolder) {
+        walk(node.children || []);
+        continue;
+      }
+      const extension = node.name.split('.').pop()?.toLowerCase() || '';
+      if (BINARY_EXTENSIONS.includes(extension)) continue;
+      if (include.length > 0 && !matchesGlobs(relative, include)) continue;
+      result.push(node);
+    }
+  };
+
+  walk((await files.scanProject()).children || []);
+  return result;
+}
+
+export async function searchProject(options: SearchOptions, files: SearchFiles = fileManager): Promise<SearchResults> {
+  if (!options.query) {
+    throw new CodedError('Search query is empty', 'SEARCH_EMPTY_QUERY');
+  }
+  const pattern = buildSearchPattern(options);
+  const contextLines = Math.min(Math.max(0, options.contextLines || 0), MAX_CONTEXT_LINES);
+  const maxResults = options.maxResults && options.maxResults > 0 ? options.maxResults : DEFAULT_MAX_RESULTS;
+
+  const candidates = await collectSearchFiles(options, files);
+  const results: FileSearchResult[] = [];
+  let matchCount = 0;
+  let filesSearched = 0;
+  let truncated = false;
+
+  for (const node of candidates) {
+    if (matchCount >= maxResults) {
+      truncated = true;
+      break;
+    }
+    let content: string;
+    try {
+      content = await files.readFile(node.path);
+    } catch (error) {
+      continue; // Skip unreadable files
+    }
+    filesSearched++;
+    if (content.includes('\0')) continue; // Binary content
+
+    const lines = content.split('\n');
+    const matches: SearchMatch[] = [];
+    for (let index = 0; index < lines.length && matchCount < maxResults; index++) {
+      const line = lines[index];
+      pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(line)) !== null) {
+        if (match[0].length === 0) {
+          pattern.lastIndex++; // Empty matches would never advance
+          continue;
+        }
+        matches.push({
+          line: index + 1,
+          column: match.index,
+          length: match[0].length,
+          text: line,
+          before: lines.slice(Math.max(0, index - contextLines), index),
+          after: lines.slice(index + 1, index + 1 + contextLines),
+        });
+        if (++matchCount >= maxResults) {
+          truncated = index < lines.length - 1 || pattern.lastIndex < line.length;
+          break;
+        }
+      }
+    }
+
+    if (matches.length > 0) {
+      results.push({ path: toProjectPath(node.path) || node.name, uri: node.path, name: node.name, matches });
+    }
+  }
+
+  return { files: results, matchCount, filesSearched, truncated };
+}
+
+/**
+ * Grep-style text for the agent: "path:line: text" for matches and
+ * "path-line- text" for context, with "--" between separate hunks
+ */
+export function formatSearchResults(results: SearchResults): string {
+  if (results.matchCount === 0) return 'No matches found';
+
+  const sections = results.files.map((file) => {
+    const matched = new Set(file.matches.map((m) => m.line));
+    const shown = new Map<number, string>();
+    for (const match of file.matches) {
+      match.before.forEach((text, i) => shown.set(match.line - match.before.length + i, text));
+      shown.set(match.line, match.text);
+      match.after.forEach((text, i) => shown.set(match.line + 1 + i, text));
+    }
+
+    const lineNumbers = [...shown.keys()].sort((a, b) => a - b);
+    return lineNumbers.map((line, i) => {
+      const gap = i > 0 && line !== lineNumbers[i - 1] + 1 ? '--\n' : '';
+      const separator = matched.has(line) ? ':' : '-';
+      return `${gap}${file.path}${separator}${line}${separator} ${shown.get(line)}`;
+    }).join('\n');
+  });
+
+  const summary = `${results.matchCount} match${results.matchCount === 1 ? '' : 'es'} in ${results.files.length} file${results.files.length === 1 ? '' : 's'}`;
+  const more = results.truncated ? ' (stopped at the result limit; narrow the search with include/exclude or raise maxResults)' : '';
+  return `${sections.join('\n--\n')}\n\n${summary}${more}`;
+}
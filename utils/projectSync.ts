@@ -0,0 +1,333 @@
+/**
+ * Project Sync
+ * Mirrors the device project to the MCP proxy workspace using content hashes.
+ * Each file is compared three ways: local hash, remote hash and the hash both
+ * sides had at the last sync (base). Only the side that changed is copied;
+ * files changed on both sides are reported as conflicts.
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import * as git from 'isomorphic-git';
+import { Buffer } from 'buffer';
+import { fileManager } from './fileManager';
+import { getProxyBaseUrl } from './remoteShell';
+import { storage, ProxySettings, SyncState } from './storage';
+import { CodedError } from './codedError';
+
+export type SyncFileStatus = 'modified' | 'added' | 'deleted' | 'conflict';
+
+export interface SyncReport {
+  pushed: string[];
+  pulled: string[];
+  deletedLocal: string[];
+  deletedRemote: string[];
+  conflicts: string[];
+  errors: string[];
+}
+
+const SYNC_IGNORED = ['node_modules']; // Dot entries are skipped as well, matching the proxy
+const SYNC_MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+const getRoot = () => {
+  const root = fileManager.getProjectRoot() || '';
+  return root.endsWith('/') ? root : `${root}/`;
+};
+
+const toFullPath = (relPath: string) => `${getRoot()}${relPath}`;
+
+/**
+ * Convert an absolute project path (as used by fileManager) to the sync path
+ */
+export const toRelativePath = (fullPath: string) => {
+  const root = getRoot();
+  const path = fullPath.startsWith(root) ? fullPath.substring(root.length) : fullPath;
+  return path.replace(/\/+/g, '/').replace(/^\//, '');
+};
+
+const hashContent = async (base64: string) => {
+  const { oid } = await git.hashBlob({ object: Buffer.from(base64, 'base64') });
+  return oid;
+};
+
+type LocalManifest = Record<string, string>;
+
+/**
+ * Hash every project file, reusing cached hashes for files whose size and
+ * modification time are unchanged
+ */
+const scanLocal = async (state: SyncState): Promise<LocalManifest> => {
+  const manifest: LocalManifest = {};
+  const nextCache: SyncState['localCache'] = {};
+
+  const walk = async (relDir: string) => {
+    const entries = await FileSystem.readDirectoryAsync(toFullPath(relDir));
+    for (const name of entries) {
+      if (name.startsWith('.') || SYNC_IGNORED.includes(name)) continue;
+      const relPath = relDir ? `${relDir}/${name}` : name;
+      const info = await FileSystem.getInfoAsync(toFullPath(relPath));
+      if (!info.exists) continue;
+
+      if (info.isDirectory) {
+        await walk(relPath);
+        continue;
+      }
+      if (info.size > SYNC_MAX_FILE_SIZE) continue;
+
+      const cached = state.localCache[relPath];
+      if (cached && cached.mtime === info.modificationTime && cached.size === info.size) {
+        manifest[relPath] = cached.hash;
+      } else {
+        const content = await FileSystem.readAsStringAsync(toFullPath(relPath), {
+          encoding: FileSystem.EncodingType.Base64,
+        });
+        manifest[relPath] = await hashContent(content);
+      }
+      nextCache[relPath] = { mtime: info.modificationTime, size: info.size, hash: manifest[relPath] };
+    }
+  };
+
+  await walk('');
+  state.localCache = nextCache;
+  return manifest;
+};
+
+const request = async (settings: ProxySettings, method: string, path: string, body?: any) => {
+  const response = await fetch(`${getProxyBaseUrl(settings)}${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(settings.token ? { Authorization: `Bearer ${settings.token}` } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  }).catch(() => {
+    throw new CodedError(`Cannot reach the MCP proxy at ${getProxyBaseUrl(settings)}`, 'PROXY_UNREACHABLE');
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (response.status === 409) {
+    throw new CodedError(data.error || 'Remote file changed', 'SYNC_CONFLICT');
+  }
+  if (response.status === 404 && !data.error) {
+    throw new CodedError('The MCP proxy does not support sync. Update mcp-proxy.', 'SYNC_UNAVAILABLE');
+  }
+  if (!response.ok) {
+    throw new CodedError(data.error || `Proxy returned ${response.status}`, response.status === 404 ? 'SYNC_NOT_FOUND' : 'SYNC_FAILED');
+  }
+  return data;
+};
+
+const queryPath = (relPath: string, baseHash?: string) =>
+  `path=${encodeURIComponent(relPath)}${baseHash ? `&baseHash=${baseHash}` : ''}`;
+
+const pushFile = async (settings: ProxySettings, relPath: string, baseHash?: string | null) => {
+  const content = await FileSystem.readAsStringAsync(toFullPath(relPath), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  // baseHash undefined overwrites unconditionally (used when resolving conflicts)
+  const data = await request(settings, 'PUT', '/sync/file', { path: relPath, content, baseHash });
+  return data.hash as string;
+};
+
+const pullFile = async (settings: ProxySettings, relPath: string) => {
+  const data = await request(settings, 'GET', `/sync/file?${queryPath(relPath)}`);
+  const fullPath = toFullPath(relPath);
+  const dir = fullPath.substring(0, fullPath.lastIndexOf('/'));
+  const dirInfo = await FileSystem.getInfoAsync(dir);
+  if (!dirInfo.exists) {
+    await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+  }
+  await FileSystem.writeAsStringAsync(fullPath, data.content, { encoding: FileSystem.EncodingType.Base64 });
+  return data.hash as string;
+};
+
+async function runSync(): Promise<SyncReport> {
+  const settings = await storage.getProxySettings();
+  if (!settings.url.trim()) {
+    throw new CodedError('Set the MCP proxy URL in MCP Servers → Proxy Workspace first.', 'NO_PROXY_URL');
+  }
+
+  const state = await storage.getSyncState(fileManager.getProjectRoot());
+  const remoteData = await request(settings, 'GET', '/sync/manifest');
+  const remote: LocalManifest = Object.fromEntries(
+    Object.entries(remoteData.files || {}).map(([path, file]: [string, any]) => [path, file.hash])
+  );
+  const local = await scanLocal(state);
+
+  const report: SyncReport = { pushed: [], pulled: [], deletedLocal: [], deletedRemote: [], conflicts: [], errors: [] };
+  const paths = new Set([...Object.keys(local), ...Object.keys(remote), ...Object.keys(state.base)]);
+  console.log('[Sync] Comparing', paths.size, 'paths');
+
+  const markSynced = (path: string, hash?: string) => {
+    if (hash) state.base[path] = hash;
+    else delete state.base[path];
+  };
+
+  for (const path of Array.from(paths).sort()) {
+    const localHash = local[path];
+    const remoteHash = remote[path];
+    const baseHash = state.base[path];
+
+    if (localHash === remoteHash) {
+      markSynced(path, localHash);
+      continue;
+    }
+
+    const localChanged = localHash !== baseHash;
+    const remoteChanged = remoteHash !== baseHash;
+
+    try {
+      if (localChanged && !remoteChanged) {
+        if (localHash) {
+          markSynced(path, await pushFile(settings, path, remoteHash ?? null));
+          report.pushed.push(path);
+        } else {
+          await request(settings, 'DELETE', `/sync/file?${queryPath(path, remoteHash)}`);
+          markSynced(path);
+          report.deletedRemote.push(path);
+        }
+      } else if (remoteChanged && !localChanged) {
+        if (remoteHash) {
+          markSynced(path, await pullFile(settings, path));
+          report.pulled.push(path);
+        } else {
+          await fileManager.deleteFile(toFullPath(path));
+          markSynced(path);
+          report.deletedLocal.push(path);
+        }
+      } else {
+        report.conflicts.push(path);
+      }
+    } catch (error: any) {
+      if (error.code === 'SYNC_CONFLICT') {
+        report.conflicts.push(path);
+      } else {
+        console.error('[Sync] Failed:', path, error);
+        report.errors.push(`${path}: ${error.message}`);
+      }
+    }
+  }
+
+  state.conflicts = report.conflicts;
+  state.lastSyncAt = Date.now();
+  // Files written by the pull get new modification times; rescan their hashes next time
+  report.pulled.forEach((path) => delete state.localCache[path]);
+  await storage.setSyncState(fileManager.getProjectRoot(), state);
+
+  console.log('[Sync] Done:', {
+    pushed: report.pushed.length,
+    pulled: report.pulled.length,
+    deletedLocal: report.deletedLocal.length,
+    deletedRemote: report.deletedRemote.length,
+    conflicts: report.conflicts.length,
+    errors: report.errors.length,
+  });
+  return report;
+}
+
+const listeners = new Set<() => void>();
+let syncing: Promise<SyncReport> | null = null;
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export const projectSync = {
+  async isConfigured(): Promise<boolean> {
+    const settings = await storage.getProxySettings();
+    return !!settings.url.trim();
+  },
+
+  async isAutoSyncEnabled(): Promise<boolean> {
+    const settings = await storage.getProxySettings();
+    return settings.autoSync && !!settings.url.trim();
+  },
+
+  isSyncing(): boolean {
+    return syncing !== null;
+  },
+
+  /**
+   * Subscribe to sync start/finish; returns an unsubscribe function
+   */
+  onChange(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  },
+
+  /**
+   * Two-way sync. Concurrent calls share the running sync.
+   */
+  async sync(): Promise<SyncReport> {
+    if (syncing) return syncing;
+    syncing = runSync().finally(() => {
+      syncing = null;
+      notify();
+    });
+    notify();
+    return syncing;
+  },
+
+  /**
+   * Resolve a conflict by keeping one side and overwriting the other
+   */
+  async resolveConflict(path: string, keep: 'local' | 'remote'): Promise<void> {
+    const settings = await storage.getProxySettings();
+    const state = await storage.getSyncState(fileManager.getProjectRoot());
+    const localExists = await fileManager.fileExists(toFullPath(path));
+
+    if (keep === 'local') {
+      if (localExists) {
+        state.base[path] = await pushFile(settings, path);
+      } else {
+        await request(settings, 'DELETE', `/sync/file?${queryPath(path)}`);
+        delete state.base[path];
+      }
+    } else {
+      try {
+        state.base[path] = await pullFile(settings, path);
+        delete state.localCache[path];
+      } catch (error: any) {
+        // Deleted on the proxy: drop the local copy too
+        if (error.code !== 'SYNC_NOT_FOUND') throw error;
+        if (localExists) await fileManager.deleteFile(toFullPath(path));
+        delete state.base[path];
+      }
+    }
+
+    state.conflicts = state.conflicts.filter((p) => p !== path);
+    await storage.setSyncState(fileManager.getProjectRoot(), state);
+    notify();
+  },
+
+  /**
+   * Local-only view of what changed since the last sync, for the file explorer.
+   * Remote changes are only known after the next sync.
+   */
+  async getFileStatuses(): Promise<{ statuses: Record<string, SyncFileStatus>; lastSyncAt: number | null }> {
+    // Compare against the result of a sync that is still running, not the state before it
+    if (syncing) await syncing.catch(() => undefined);
+    const root = fileManager.getProjectRoot();
+    const state = await storage.getSyncState(root);
+    const local = await scanLocal(state);
+
+    // Keep the refreshed hash cache, leaving base and conflicts as the latest sync saved them
+    if (!syncing) {
+      const latest = await storage.getSyncState(root);
+      await storage.setSyncState(root, { ...latest, localCache: state.localCache });
+    }
+
+    const statuses: Record<string, SyncFileStatus> = {};
+    if (state.lastSyncAt === null) return { statuses, lastSyncAt: null };
+
+    Object.entries(local).forEach(([path, hash]) => {
+      if (!state.base[path]) statuses[path] = 'added';
+      else if (state.base[path] !== hash) statuses[path] = 'modified';
+    });
+    Object.keys(state.base).forEach((path) => {
+      if (!local[path]) statuses[path] = 'deleted';
+    });
+    state.conflicts.forEach((path) => {
+      statuses[path] = 'conflict';
+    });
+
+    return { statuses, lastSyncAt: state.lastSyncAt };
+  },
+};
@@ -0,0 +1,184 @@
+/**
+ * Remote Shell
+ * Runs terminal commands in the MCP proxy workspace (mcp-proxy/index.js /shell/exec)
+ */
+
+import { storage, ProxySettings } from './storage';
+import { CodedError } from './codedError';
+
+export interface ShellResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: string | null;
+  timedOut: boolean;
+  durationMs: number;
+}
+
+export interface ShellExecOptions {
+  cwd?: string; // Relative to the proxy workspace
+  timeoutMs?: number;
+  onOutput?: (chunk: string, stream: 'stdout' | 'stderr') => void;
+  signal?: AbortSignal; // Closing the request makes the proxy kill the process
+}
+
+export interface ProxyStatus {
+  workspace: boolean; // Proxy was started with WORKSPACE
+  syncEnabled: boolean; // And with WORKSPACE_TOKEN, which sync needs
+  shellEnabled: boolean;
+  allowedCommands: string[];
+  requiresToken: boolean;
+}
+
+export const getProxyBaseUrl = (settings: ProxySettings) => settings.url.trim().replace(/\/+$/, '').replace(/\/mcp(\/.*)?$/, '');
+
+// Extra time for the proxy to report a timeout before the request itself gives up
+const REQUEST_GRACE_MS = 10000;
+
+export const remoteShell = {
+  async isEnabled(): Promise<boolean> {
+    const settings = await storage.getProxySettings();
+    return settings.shellEnabled && !!settings.url.trim();
+  },
+
+  /**
+   * Ask the proxy which workspace features it has enabled (GET /health)
+   */
+  async checkStatus(settings?: ProxySettings): Promise<ProxyStatus> {
+    const current = settings || await storage.getProxySettings();
+    if (!current.url.trim()) {
+      throw new CodedError('Set the MCP proxy URL first.', 'NO_PROXY_URL');
+    }
+
+    const response = await fetch(`${getProxyBaseUrl(current)}/health`);
+    if (!response.ok) {
+      throw new CodedError(`Proxy returned ${response.status}: ${response.statusText}`, 'PROXY_ERROR');
+    }
+    const data = await response.json();
+    return {
+      workspace: !!data.workspace,
+      syncEnabled: !!data.workspace?.sync,
+      shellEnabled: !!data.shell?.enabled,
+      allowedCommands: data.shell?.allowedCommands || [],
+      requiresToken: !!data.workspace?.requiresToken,
+    };
+  },
+
+  /**
+   * Run a command and stream its output. Resolves once the process exits;
+   * rejects when the proxy refuses the command or cannot be reached.
+   */
+  async exec(command: string, args: string[] = [], options: ShellExecOptions = {}): Promise<ShellResult> {
+    const settings = await storage.getProxySettings();
+    if (!settings.url.trim()) {
+      throw new CodedError('Remote shell has no proxy URL. Set it in MCP Servers → Proxy Workspace.', 'NO_PROXY_URL');
+    }
+
+    if (options.signal?.aborted) {
+      throw new CodedError(`"${command}" was cancelled`, 'SHELL_CANCELLED');
+    }
+
+    const timeoutMs = options.timeoutMs || settings.shellTimeoutMs;
+    const url = `${getProxyBaseUrl(settings)}/shell/exec`;
+    console.log('[RemoteShell] exec:', command, args.join(' '), 'cwd:', options.cwd || '.');
+
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open('POST', url);
+      xhr.setRequestHeader('Content-Type', 'application/json');
+      if (settings.token) {
+        xhr.setRequestHeader('Authorization', `Bearer ${settings.token}`);
+      }
+      xhr.timeout = timeoutMs + REQUEST_GRACE_MS;
+
+      const result: ShellResult = {
+        stdout: '',
+        stderr: '',
+        exitCode: null,
+        signal: null,
+        timedOut: false,
+        durationMs: 0,
+      };
+      let lastIndex = 0;
+      let pending = '';
+      let exited = false;
+      let spawnError: string | undefined;
+
+      const handleLine = (line: string) => {
+        if (!line.trim()) return;
+        try {
+          const event = JSON.parse(line);
+          if (event.type === 'stdout' || event.type === 'stderr') {
+            result[event.type as 'stdout' | 'stderr'] += event.data;
+            options.onOutput?.(event.data, event.type);
+          } else if (event.type === 'exit') {
+            exited = true;
+            result.exitCode = event.code ?? null;
+            result.signal = event.signal ?? null;
+            result.timedOut = !!event.timedOut;
+            result.durationMs = event.durationMs || 0;
+            spawnError = event.error;
+          }
+        } catch (e) {
+          console.log('[RemoteShell] Failed to parse line:', line.substring(0, 200));
+        }
+      };
+
+      const drain = () => {
+        if (xhr.status !== 200) return;
+        const chunk = xhr.responseText.substring(lastIndex);
+        lastIndex = xhr.responseText.length;
+        const lines = (pending + chunk).split('\n');
+        pending = lines.pop() || '';
+        lines.forEach(handleLine);
+      };
+
+      xhr.onprogress = drain;
+
+      xhr.onload = () => {
+        if (xhr.status !== 200) {
+          let message = xhr.responseText;
+          try {
+            message = JSON.parse(xhr.responseText).error || message;
+          } catch (e) {
+            // Not JSON (e.g. an older proxy without /shell)
+          }
+          const code = xhr.status === 404 ? 'SHELL_UNAVAILABLE' : xhr.status === 401 ? 'SHELL_UNAUTHORIZED' : 'SHELL_REJECTED';
+          reject(new CodedError(xhr.status === 404 ? 'The MCP proxy does not support the remote shell. Update mcp-proxy.' : message, code));
+          return;
+        }
+
+        drain();
+        handleLine(pending);
+
+        if (spawnError) {
+          reject(new CodedError(`Failed to start "${command}": ${spawnError}`, 'SPAWN_FAILED'));
+        } else if (!exited) {
+          reject(new CodedError('Connection to the proxy closed before the command finished.', 'SHELL_DISCONNECTED'));
+        } else {
+          resolve(result);
+        }
+      };
+
+      xhr.onerror = () => {
+        reject(new CodedError(`Cannot reach the MCP proxy at ${getProxyBaseUrl(settings)}`, 'PROXY_UNREACHABLE'));
+      };
+
+      xhr.ontimeout = () => {
+        reject(new CodedError(`No response from the proxy after ${Math.round(xhr.timeout / 1000)}s`, 'SHELL_TIMEOUT'));
+      };
+
+      xhr.onabort = () => {
+        reject(new CodedError(`"${command}" was cancelled`, 'SHELL_CANCELLED'));
+      };
+      options.signal?.addEventListener('abort', () => xhr.abort());
+
+      xhr.send(JSON.stringify({
+        command,
+        args,
+        cwd: options.cwd || '.',
+        timeoutMs,
+      }));
+    });
+  },
+};
@@ -0,0 +1,167 @@
+/**
+ * Repo Map
+ * A compact map of the project for the planning prompt: its files grouped by
+ * folder with the main exported symbols of each. When the project does not
+ * fit the token budget, the files most relevant to the request are kept.
+ * Built from the symbol index, so it stays current as files change.
+ */
+
+import { fileManager, FileNode } from './fileManager';
+import { toProjectPath } from './projectPaths';
+import { collectSearchFiles } from './projectSearch';
+import { symbolIndex, CodeSymbol } from './symbolIndex';
+import { estimateTokens } from './contextManager';
+
+export interface RepoMapFile {
+  path: string; // Project-relative
+  symbols: CodeSymbol[]; // Exported symbols, in file order
+  score: number; // Relevance to the request
+}
+
+export interface RepoMapResult {
+  text: string;
+  shown: number; // Files in the map
+  total: number; // Files in the project
+}
+
+export const REPO_MAP_TOKEN_BUDGET = 1500;
+
+const MAX_SYMBOLS_PER_FILE = 6;
+
+// Files that tell the planner how the project is put together
+const KEY_FILES = /(^|\/)(package\.json|app\.json|tsconfig\.json|README\.md|(index|App|main|_layout)\.[jt]sx?)$/;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'when', 'then', 'than', 'them', 'they',
+  'add', 'make', 'create', 'update', 'change', 'fix', 'use', 'using', 'new', 'file', 'files', 'code',
+  'please', 'should', 'would', 'could', 'can', 'all', 'any', 'our', 'your', 'want', 'need', 'also',
+]);
+
+type RepoMapFiles = Pick<typeof fileManager, 'scanProject' | 'readFile' | 'fileExists'>;
+
+/**
+ * Lowercase words of the request worth matching against paths and symbols
+ */
+const toTerms = (request: string): string[] =>
+  Array.from(new Set(
+    request
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length >= 3 && !STOP_WORDS.has(word))
+  ));
+
+const scoreFile = (path: string, symbols: CodeSymbol[], terms: string[]): number => {
+  const pathWords = path.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  const names = symbols.map((symbol) => symbol.name.toLowerCase());
+  let score = 0;
+
+  for (const term of terms) {
+    if (pathWords.some((word) => word === term || word.startsWith(term) || (word.length >= 4 && term.startsWith(word)))) {
+      score += 4;
+    } else if (path.toLowerCase().includes(term)) {
+      score += 2;
+    }
+    if (names.some((name) => name.includes(term))) score += 2;
+  }
+
+  if (KEY_FILES.test(path)) score += 1.5;
+  score += Math.min(symbols.length, 5) * 0.2;
+  score -= (path.split('/').length - 1) * 0.1; // Prefer shallow files when nothing else decides
+  return score;
+};
+
+const formatFileLine = (file: RepoMapFile, indent: string): string => {
+  const name = file.path.split('/').pop() || file.path;
+  if (file.symbols.length === 0) return `${indent}${name}`;
+  const shown = file.symbols.slice(0, MAX_SYMBOLS_PER_FILE).map((symbol) => symbol.name);
+  const more = file.symbols.length > MAX_SYMBOLS_PER_FILE ? `, +${file.symbols.length - MAX_SYMBOLS_PER_FILE} more` : '';
+  return `${indent}${name}: ${shown.join(', ')}${more}`;
+};
+
+const folderOf = (path: string): string => (path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '');
+
+/**
+ * Root files first, then one "folder/" heading per folder with its files indented
+ */
+const renderMap = (files: RepoMapFile[]): string => {
+  const byFolder = new Map<string, RepoMapFile[]>();
+  [...files].sort((a, b) => a.path.localeCompare(b.path)).forEach((file) => {
+    const folder = folderOf(file.path);
+    if (!byFolder.has(folder)) byFolder.set(folder, []);
+    byFolder.get(folder)!.push(file);
+  });
+
+  const folders = Array.from(byFolder.keys()).sort((a, b) => (a === '' ? -1 : b === '' ? 1 : a.localeCompare(b)));
+  return folders
+    .map((folder) => {
+      const lines = byFolder.get(folder)!.map((file) => formatFileLine(file, folder ? '  ' : ''));
+      return folder ? `${folder}/\n${lines.join('\n')}` : lines.join('\n');
+    })
+    .join('\n');
+};
+
+class RepoMap {
+  /**
+   * Map of the project within `tokenBudget`, keeping the files that score
+   * highest for the request when they do not all fit
+   */
+  async build(request: string, tokenBudget: number = REPO_MAP_TOKEN_BUDGET, files: RepoMapFiles = fileManager): Promise<RepoMapResult> {
+    const [nodes, symbols] = await Promise.all([
+      collectSearchFiles({}, files),
+      symbolIndex.refresh(files),
+    ]);
+
+    const exportsByPath = new Map<string, CodeSymbol[]>();
+    symbols.filter((symbol) => symbol.exported).forEach((symbol) => {
+      if (!exportsByPath.has(symbol.path)) exportsByPath.set(symbol.path, []);
+      exportsByPath.get(symbol.path)!.push(symbol);
+    });
+
+    const terms = toTerms(request);
+    const ranked: RepoMapFile[] = nodes
+      .map((node: FileNode) => toProjectPath(node.path) || node.name)
+      .map((path) => {
+        const fileSymbols = (exportsByPath.get(path) || []).sort((a, b) => a.line - b.line);
+        return { path, symbols: fileSymbols, score: scoreFile(path, fileSymbols, terms) };
+      })
+      .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+
+    // Add files in rank order while the rendered map stays within budget
+    const kept: RepoMapFile[] = [];
+    const folders = new Set<string>();
+    let tokens = 0;
+    for (const file of ranked) {
+      const folder = folderOf(file.path);
+      const cost = estimateTokens(formatFileLine(file, '  ')) + (folder && !folders.has(folder) ? estimateTokens(`${folder}/`) : 0) + 1;
+      if (tokens + cost > tokenBudget) continue; // A shorter line further down may still fit
+      kept.push(file);
+      folders.add(folder);
+      tokens += cost;
+    }
+
+    return { text: renderMap(kept), shown: kept.length, total: ranked.length };
+  }
+
+  /**
+   * Prompt section with the map, '' for an empty project
+   */
+  async formatForAI(request: string, tokenBudget: number = REPO_MAP_TOKEN_BUDGET): Promise<string> {
+    try {
+      const map = await this.build(request, tokenBudget);
+      if (map.total === 0) return '';
+      const omitted = map.total > map.shown
+        ? `\n... ${map.total - map.shown} more files not shown (find them with list_directory or find_symbol)`
+        : '';
+      return `## Repo Map
+Project files by folder, with the main exports of each. These paths exist: use them directly instead of listing folders first.
+
+${map.text}${omitted}`;
+    } catch (error) {
+      console.error('Error building repo map:', error);
+      return '';
+    }
+  }
+}
+
+export const repoMap = new RepoMap();
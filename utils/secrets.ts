@@ -0,0 +1,187 @@
+/**
+ * Secrets
+ * API keys and tokens live in the platform keystore (expo-secure-store), which
+ * encrypts them at rest with a device-held key. Known secret values are
+ * redacted from console output and saved chats. The web build has no keystore
+ * and keeps them unencrypted in browser storage.
+ */
+
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import * as LocalAuthentication from 'expo-local-authentication';
+import { CodedError } from './codedError';
+
+export type SecretName =
+  | 'openai_key'
+  | 'anthropic_key'
+  | 'gemini_key'
+  | 'glm_key'
+  | 'openrouter_key'
+  | 'huggingface_key'
+  | 'git_token'
+  | 'proxy_token'
+  | `custom_model_${string}`;
+
+const SECRETS_LOCKED_KEY = '@mobcode_secrets_locked';
+const REDACTED = '[REDACTED]';
+// Shorter values (e.g. "test") would redact ordinary words
+const MIN_REDACT_LENGTH = 8;
+
+// SecureStore keys may only contain letters, digits, ".", "-" and "_"
+const toStoreKey = (name: SecretName) => `mobcode_secret_${name.replace(/[^A-Za-z0-9._-]/g, '_')}`;
+
+// expo-secure-store has no web implementation; the web build keeps secrets in AsyncStorage
+const useSecureStore = Platform.OS !== 'web';
+
+const readSecret = (name: SecretName) =>
+  useSecureStore ? SecureStore.getItemAsync(toStoreKey(name)) : AsyncStorage.getItem(`@${toStoreKey(name)}`);
+
+const writeSecret = (name: SecretName, value: string) => {
+  if (useSecureStore) {
+    return value ? SecureStore.setItemAsync(toStoreKey(name), value) : SecureStore.deleteItemAsync(toStoreKey(name));
+  }
+  return value ? AsyncStorage.setItem(`@${toStoreKey(name)}`, value) : AsyncStorage.removeItem(`@${toStoreKey(name)}`);
+};
+
+let plaintextWarned = false;
+const warnPlaintext = () => {
+  if (useSecureStore || plaintextWarned) return;
+  plaintextWarned = true;
+  console.warn('[Secrets] No secure store on web: keys and tokens are saved unencrypted in browser storage');
+};
+
+const cache = new Map<SecretName, string>();
+
+const knownValues = () =>
+  Array.from(cache.values()).filter((value) => value.length >= MIN_REDACT_LENGTH);
+
+/**
+ * Replace every known secret value in text with [REDACTED]
+ */
+export function redactSecrets(text: string): string {
+  let result = text;
+  for (const value of knownValues()) {
+    if (result.includes(value)) result = result.split(value).join(REDACTED);
+  }
+  return result;
+}
+
+const redactLogArg = (arg: any) => {
+  if (typeof arg === 'string') return redactSecrets(arg);
+  if (arg && typeof arg === 'object' && !(arg instanceof Error)) {
+    try {
+      const json = JSON.stringify(arg);
+      if (json && knownValues().some((value) => json.includes(value))) return redactSecrets(json);
+    } catch (e) {
+      // Circular structures are logged as-is
+    }
+  }
+  if (arg instanceof Error && knownValues().some((value) => arg.message.includes(value))) {
+    return `${arg.name}: ${redactSecrets(arg.message)}`;
+  }
+  return arg;
+};
+
+// Installed on import so secrets are filtered from every log line, including early ones
+let logRedactionInstalled = false;
+const installLogRedaction = () => {
+  if (logRedactionInstalled) return;
+  logRedactionInstalled = true;
+  (['log', 'info', 'warn', 'error', 'debug'] as const).forEach((level) => {
+    const original = console[level].bind(console);
+    console[level] = (...args: any[]) => {
+      if (cache.size === 0) return original(...args);
+      original(...args.map(redactLogArg));
+    };
+  });
+};
+installLogRedaction();
+
+export const secrets = {
+  async get(name: SecretName): Promise<string> {
+    if (cache.has(name)) return cache.get(name)!;
+    try {
+      const value = (await readSecret(name)) || '';
+      cache.set(name, value);
+      return value;
+    } catch (error) {
+      console.error('Error reading secret:', name, error);
+      return '';
+    }
+  },
+
+  /**
+   * Throws SECRET_WRITE_FAILED when the store refuses the value, so callers
+   * don't report a key as saved when it isn't
+   */
+  async set(name: SecretName, value: string): Promise<void> {
+    try {
+      await writeSecret(name, value);
+    } catch (error: any) {
+      console.error('Error saving secret:', name, error);
+      throw new CodedError(`Could not save ${name} to secure storage: ${error?.message || error}`, 'SECRET_WRITE_FAILED');
+    }
+    cache.set(name, value);
+    if (value) warnPlaintext();
+  },
+
+  async delete(name: SecretName): Promise<void> {
+    return this.set(name, '');
+  },
+
+  /**
+   * False on web, where secrets are kept unencrypted in browser storage
+   */
+  isEncrypted(): boolean {
+    return useSecureStore;
+  },
+
+  /**
+   * Whether git pushes require biometric or passcode confirmation
+   */
+  async isLocked(): Promise<boolean> {
+    try {
+      return (await AsyncStorage.getItem(SECRETS_LOCKED_KEY)) === 'true';
+    } catch (error) {
+      console.error('Error reading secrets lock:', error);
+      return false;
+    }
+  },
+
+  /**
+   * Turning the lock on or off needs a successful authentication, so it
+   * can't be enabled on a device without a passcode or biometrics
+   */
+  async setLocked(locked: boolean): Promise<void> {
+    const enrolled = await LocalAuthentication.isEnrolledAsync().catch(() => false);
+    if (!enrolled) {
+      throw new CodedError('Set up a device passcode or biometrics to lock secrets.', 'AUTH_UNAVAILABLE');
+    }
+    const authenticated = await this.authenticate(locked ? 'Lock secrets' : 'Unlock secrets');
+    if (!authenticated) {
+      throw new CodedError('Authentication failed.', 'AUTH_FAILED');
+    }
+    await AsyncStorage.setItem(SECRETS_LOCKED_KEY, locked ? 'true' : 'false');
+  },
+
+  async authenticate(reason: string): Promise<boolean> {
+    try {
+      const result = await LocalAuthentication.authenticateAsync({ promptMessage: reason });
+      return result.success;
+    } catch (error) {
+      console.error('Authentication error:', error);
+      return false;
+    }
+  },
+
+  /**
+   * Throws SECRETS_LOCKED unless the lock is off or the user re-authenticates
+   */
+  async requireUnlock(reason: string): Promise<void> {
+    if (!(await this.isLocked())) return;
+    if (!(await this.authenticate(reason))) {
+      throw new CodedError('Secrets are locked. Authenticate to continue.', 'SECRETS_LOCKED');
+    }
+  },
+};
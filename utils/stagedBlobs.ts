@@ -0,0 +1,146 @@
+/**
+ * Staged Blobs
+ * Contents of the files an agent run has staged, saved once per content hash
+ * in the cache directory. The run journal keeps only paths and hashes, so it
+ * stays small however large the staged files are. Blobs no longer referenced
+ * are deleted, and all of them once the run ends.
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import { fileManager } from './fileManager';
+import { resolveProjectPath } from './projectPaths';
+import type { OverlaySnapshot } from './fileOverlay';
+
+// A staged file as recorded in the journal: hashes instead of contents
+export interface StagedFileRef {
+  path: string;
+  original: string | null; // Hash of the content before the run, null when the file did not exist
+  content: string | null; // Hash of the staged content, null when the run deleted the file
+  flushed: boolean;
+  touched: boolean;
+}
+
+export interface StagedSnapshotRef {
+  files: StagedFileRef[];
+  folders: string[];
+  deletedFolders: string[];
+}
+
+const BLOB_DIR = `${FileSystem.cacheDirectory}agent-run-staged`;
+
+/**
+ * Two 32-bit string hashes (FNV-1a and djb2) and the length, as hex
+ */
+export const hashContent = (text: string): string => {
+  let fnv = 0x811c9dc5;
+  let djb = 5381;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    fnv = Math.imul(fnv ^ code, 0x01000193);
+    djb = (Math.imul(djb, 33) + code) | 0;
+  }
+  const hex = (value: number) => (value >>> 0).toString(16).padStart(8, '0');
+  return `${hex(fnv)}${hex(djb)}-${text.length.toString(16)}`;
+};
+
+const blobPath = (hash: string) => `${BLOB_DIR}/${hash}`;
+
+class StagedBlobs {
+  private written = new Set<string>(); // Hashes saved by this session
+  private hashes = new Map<string, { text: string; hash: string }>(); // Last hash per path and side, to skip rehashing unchanged files
+
+  private hashOf(key: string, text: string | null): string | null {
+    if (text === null) return null;
+    const known = this.hashes.get(key);
+    if (known && known.text === text) return known.hash;
+    const hash = hashContent(text);
+    this.hashes.set(key, { text, hash });
+    return hash;
+  }
+
+  private async write(hash: string | null, text: string | null): Promise<void> {
+    if (hash === null || text === null || this.written.has(hash)) return;
+    if (this.written.size === 0) {
+      await FileSystem.makeDirectoryAsync(BLOB_DIR, { intermediates: true }).catch(() => undefined);
+    }
+    await FileSystem.writeAsStringAsync(blobPath(hash), text);
+    this.written.add(hash);
+  }
+
+  private async read(hash: string): Promise<string | null> {
+    try {
+      return await FileSystem.readAsStringAsync(blobPath(hash));
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Save contents not saved yet and return the snapshot with hashes in their place
+   */
+  async save(snapshot: OverlaySnapshot): Promise<StagedSnapshotRef> {
+    const files: StagedFileRef[] = [];
+    for (const { path, original, content, flushed, touched } of snapshot.files) {
+      const ref: StagedFileRef = {
+        path,
+        original: this.hashOf(`${path}:original`, original),
+        content: this.hashOf(`${path}:content`, content),
+        flushed,
+        touched,
+      };
+      await this.write(ref.original, original);
+      await this.write(ref.content, content);
+      files.push(ref);
+    }
+
+    // Drop versions of files the run has since changed again
+    const referenced = new Set(files.flatMap((file) => [file.original, file.content]));
+    for (const hash of Array.from(this.written)) {
+      if (referenced.has(hash)) continue;
+      this.written.delete(hash);
+      await FileSystem.deleteAsync(blobPath(hash), { idempotent: true });
+    }
+
+    return { files, folders: snapshot.folders, deletedFolders: snapshot.deletedFolders };
+  }
+
+  /**
+   * Rebuild the snapshot from saved blobs. A missing blob is taken from disk
+   * when the file there still has that hash; otherwise the change is dropped.
+   */
+  async load(ref: StagedSnapshotRef): Promise<OverlaySnapshot> {
+    const files: OverlaySnapshot['files'] = [];
+    for (const file of ref.files) {
+      let disk: string | null | undefined;
+      const resolve = async (hash: string | null): Promise<string | null | undefined> => {
+        if (hash === null) return null;
+        const saved = await this.read(hash);
+        if (saved !== null) return saved;
+        if (disk === undefined) {
+          disk = await fileManager.readFile(resolveProjectPath(file.path).uri).catch(() => null);
+        }
+        return disk !== null && hashContent(disk) === hash ? disk : undefined;
+      };
+
+      const original = await resolve(file.original);
+      const content = await resolve(file.content);
+      if (original === undefined || content === undefined) {
+        console.warn('[StagedBlobs] Staged change to', file.path, 'could not be restored');
+        continue;
+      }
+      files.push({ path: file.path, original, content, flushed: file.flushed, touched: file.touched });
+    }
+    return { files, folders: ref.folders, deletedFolders: ref.deletedFolders };
+  }
+
+  /**
+   * Delete every blob, once the run they belong to is over
+   */
+  async clear(): Promise<void> {
+    this.written.clear();
+    this.hashes.clear();
+    await FileSystem.deleteAsync(BLOB_DIR, { idempotent: true });
+  }
+}
+
+export const stagedBlobs = new StagedBlobs();
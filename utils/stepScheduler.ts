@@ -0,0 +1,215 @@
+/**
+ * Step Scheduler
+ * Runs agent plan steps as a dependency graph instead of fixed-size batches
+ */
+
+import { AgentStep } from './autonomousAgent';
+import { toProjectPath } from './projectPaths';
+import { MEMORY_PATH } from './projectMemory';
+
+export interface ScheduleOptions {
+  maxConcurrency?: number;
+  signal?: AbortSignal; // Once aborted no new steps start; running steps finish on their own
+  onStepBlocked?: (step: AgentStep) => void;
+}
+
+export const DEFAULT_MAX_CONCURRENCY = 5;
+
+// Paths outside the project are kept as written; the tool refuses them when it runs
+const normalizePath = (path: string): string => toProjectPath(path) ?? path.trim();
+
+/**
+ * Collect the project paths a step reads or writes, used to serialize
+ * steps that touch the same file or folder.
+ */
+export const getStepPaths = (step: AgentStep): string[] => {
+  const params = step.parameters || {};
+  const paths: string[] = [];
+
+  if (typeof params.path === 'string') {
+    paths.push(params.path);
+  } else if (step.tool === 'list_directory') {
+    paths.push('.');
+  } else if (step.tool === 'remember') {
+    paths.push(MEMORY_PATH);
+  } else if (step.tool === 'replace_in_files') {
+    paths.push('.'); // Can change any file, so it runs alone
+  }
+
+  if (Array.isArray(params.files)) {
+    params.files.forEach((file: any) => typeof file === 'string' && paths.push(file));
+  }
+
+  if (step.tool === 'run_command') {
+    const args = Array.isArray(params.args) ? params.args : params.args ? [params.args] : [];
+    args.forEach((arg: any) => typeof arg === 'string' && !arg.startsWith('-') && paths.push(arg));
+  }
+
+  return paths.map(normalizePath);
+};
+
+const pathsOverlap = (a: string, b: string): boolean => {
+  if (a === b || a === '' || b === '') return true;
+  return a.startsWith(`${b}/`) || b.startsWith(`${a}/`);
+};
+
+const stepsConflict = (a: AgentStep, b: AgentStep): boolean => {
+  const aPaths = getStepPaths(a);
+  const bPaths = getStepPaths(b);
+  return aPaths.some((p) => bPaths.some((q) => pathsOverlap(p, q)));
+};
+
+/**
+ * Build the full dependency list for every step: declared dependencies,
+ * plus an implicit edge to every earlier step touching an overlapping path,
+ * plus every earlier step when the step is marked as not parallel-safe.
+ */
+export const buildDependencyGraph = (steps: AgentStep[]): Map<string, string[]> => {
+  const graph = new Map<string, string[]>();
+
+  steps.forEach((step, index) => {
+    const deps = new Set<string>();
+    (step.dependencies || []).forEach((dep) => {
+      if (dep !== step.id) deps.add(String(dep));
+    });
+
+    for (let i = 0; i < index; i++) {
+      const earlier = steps[i];
+      if (step.canParallel === false || earlier.canParallel === false || stepsConflict(step, earlier)) {
+        deps.add(earlier.id);
+      }
+    }
+
+    // Unknown ids are kept so the step surfaces as blocked instead of silently running
+    graph.set(step.id, Array.from(deps));
+  });
+
+  return graph;
+};
+
+/**
+ * Order steps so that every step comes after its dependencies (Kahn's algorithm).
+ * Steps that are part of a cycle are returned separately.
+ */
+export const topologicalOrder = (
+  steps: AgentStep[],
+  graph: Map<string, string[]> = buildDependencyGraph(steps)
+): { ordered: AgentStep[]; cyclic: AgentStep[] } => {
+  const byId = new Map(steps.map((s) => [s.id, s]));
+  const inDegree = new Map<string, number>();
+  const dependents = new Map<string, string[]>();
+
+  steps.forEach((step) => {
+    const deps = (graph.get(step.id) || []).filter((dep) => byId.has(dep));
+    inDegree.set(step.id, deps.length);
+    deps.forEach((dep) => {
+      dependents.set(dep, [...(dependents.get(dep) || []), step.id]);
+    });
+  });
+
+  const queue = steps.filter((s) => inDegree.get(s.id) === 0).map((s) => s.id);
+  const ordered: AgentStep[] = [];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    ordered.push(byId.get(id)!);
+    (dependents.get(id) || []).forEach((next) => {
+      const remaining = (inDegree.get(next) || 0) - 1;
+      inDegree.set(next, remaining);
+      if (remaining === 0) queue.push(next);
+    });
+  }
+
+  const orderedIds = new Set(ordered.map((s) => s.id));
+  return { ordered, cyclic: steps.filter((s) => !orderedIds.has(s.id)) };
+};
+
+const stepLabel = (steps: AgentStep[], id: string): string => {
+  const index = steps.findIndex((s) => s.id === id);
+  return index >= 0 ? `step ${index + 1}` : `unknown step "${id}"`;
+};
+
+/**
+ * Execute steps respecting their dependency graph. Independent steps run
+ * concurrently up to maxConcurrency; dependents of failed or blocked steps
+ * are marked blocked instead of running.
+ */
+export async function runStepGraph(
+  steps: AgentStep[],
+  runStep: (step: AgentStep) => Promise<void>,
+  options: ScheduleOptions = {}
+): Promise<void> {
+  const maxConcurrency = Math.max(1, options.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY);
+  const graph = buildDependencyGraph(steps);
+  const { ordered, cyclic } = topologicalOrder(steps, graph);
+  const byId = new Map(steps.map((s) => [s.id, s]));
+
+  const block = (step: AgentStep, blockerId: string, reason?: string) => {
+    step.status = 'blocked';
+    step.blockedBy = blockerId;
+    step.error = reason || `Blocked by ${stepLabel(steps, blockerId)}`;
+    options.onStepBlocked?.(step);
+  };
+
+  cyclic.forEach((step) => {
+    const blocker = (graph.get(step.id) || []).find((dep) => cyclic.some((c) => c.id === dep)) || step.id;
+    block(step, blocker, `Blocked by circular dependency on ${stepLabel(steps, blocker)}`);
+  });
+
+  const pending = ordered.filter((s) => s.status === 'pending' || s.status === 'approved');
+  const running = new Map<string, Promise<void>>();
+
+  while (pending.length > 0 || running.size > 0) {
+    if (options.signal?.aborted) {
+      // Leave the remaining steps pending so the caller can report them as not started
+      pending.splice(0);
+      await Promise.all(running.values());
+      break;
+    }
+
+    let started = false;
+
+    for (let i = 0; i < pending.length && running.size < maxConcurrency; i++) {
+      const step = pending[i];
+      const deps = graph.get(step.id) || [];
+
+      const missing = deps.find((dep) => !byId.has(dep));
+      const failedDep = deps.find((dep) => {
+        const status = byId.get(dep)?.status;
+        return status === 'failed' || status === 'blocked';
+      });
+      if (missing || failedDep) {
+        block(step, (missing || failedDep)!);
+        pending.splice(i, 1);
+        i--;
+        continue;
+      }
+
+      const ready = deps.every((dep) => byId.get(dep)?.status === 'completed');
+      if (!ready) continue;
+
+      pending.splice(i, 1);
+      i--;
+      started = true;
+      const task = runStep(step)
+        .catch((e) => {
+          step.status = 'failed';
+          step.error = String(e);
+        })
+        .finally(() => {
+          running.delete(step.id);
+        });
+      running.set(step.id, task);
+    }
+
+    if (running.size > 0) {
+      await Promise.race(running.values());
+    } else if (!started && pending.length > 0) {
+      // Nothing running and nothing ready: remaining steps can never start
+      pending.splice(0).forEach((step) => {
+        const blocker = (graph.get(step.id) || []).find((dep) => byId.get(dep)?.status !== 'completed') || step.id;
+        block(step, blocker);
+      });
+    }
+  }
+}
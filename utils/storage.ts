@@ -1,4 +1,8 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { secrets, SecretName, redactSecrets } from './secrets';
+import type { BackgroundTask } from './backgroundTask';
+import type { OverlaySnapshot } from './fileOverlay';
+import type { StagedSnapshotRef } from './stagedBlobs';
 
 export interface Chat {
   id: string;
@@ -7,6 +11,15 @@ export interface Chat {
   model: string;
   createdAt: Date;
   updatedAt: Date;
+  contextSummary?: ContextSummary; // Rolling summary of older messages sent instead of them
+  mode?: AgentMode; // Agent mode chosen in the composer, autonomous when unset
+}
+
+export type AgentMode = 'ask' | 'plan' | 'autonomous';
+
+export interface ContextSummary {
+  content: string;
+  throughMessageId: string; // Last message folded into the summary
 }
 
 export interface Message {
@@ -18,6 +31,8 @@ export interface Message {
   approval?: ApprovalRequest;
   attachments?: MessageAttachment[];
   gitCheckpointHash?: string; // Git commit hash for checkpoint/rewind feature
+  pinned?: boolean; // Always sent to the model, never folded into the context summary
+  dryRun?: DryRunChangeSet;
 }
 
 export interface ApprovalRequest {
@@ -33,6 +48,7 @@ export interface CodeDiff {
   oldCode: string;
   newCode: string;
   language: string;
+  files?: string[]; // Set when the diff combines the changes of several files
 }
 
 export interface FileAttachment {
@@ -70,6 +86,104 @@ export interface GitSettings {
   authorEmail: string;
 }
 
+export interface ProxySettings {
+  url: string; // MCP proxy base URL, e.g. http://192.168.1.100:3000
+  token: string; // Matches WORKSPACE_TOKEN on the proxy (required for the remote shell); kept in secrets
+  shellEnabled: boolean; // Run run_command on the proxy instead of the emulated shell
+  shellTimeoutMs: number;
+  autoSync: boolean; // Sync the project around remote commands and agent runs
+}
+
+const DEFAULT_PROXY_SETTINGS: ProxySettings = {
+  url: '',
+  token: '',
+  shellEnabled: false,
+  shellTimeoutMs: 60000,
+  autoSync: false,
+};
+
+// Limits for agent runs; unset values use the agent's defaults
+export interface AgentSettings {
+  maxTurns?: number; // Planning turns (initial plan + follow-ups)
+  maxSteps?: number; // Tool steps across all turns
+}
+
+export interface SyncState {
+  base: Record<string, string>; // Project-relative path -> blob hash at the last sync
+  conflicts: string[]; // Paths changed on both sides since the last sync
+  localCache: Record<string, { mtime: number; size: number; hash: string }>; // Avoids rehashing unchanged files
+  lastSyncAt: number | null;
+}
+
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  cost: number; // Estimated USD, priced requests only
+  requests: number;
+  unpricedRequests: number; // Requests to models without a MODEL_PRICING entry
+}
+
+export interface UsageStats {
+  chats: Record<string, UsageTotals>; // Chat id -> totals
+  days: Record<string, UsageTotals>; // Local date (YYYY-MM-DD) -> totals
+}
+
+export type ApprovalEffect = 'allow' | 'ask' | 'deny';
+
+export interface ApprovalRule {
+  id: string;
+  target: string; // Tool name, tool category (read, write, delete, command, git, preview, mcp) or "*"
+  pathPrefix?: string; // Only matches steps whose paths are all inside this project folder
+  effect: ApprovalEffect;
+  session?: boolean; // Kept in memory only and forgotten when the app restarts
+  createdAt: number;
+}
+
+// Everything besides the step states needed to pick an agent run back up after a restart
+export interface AgentRunJournal {
+  chatId: string | null;
+  userRequest: string;
+  model: string;
+  availableTools: string[];
+  goal: string;
+  turn: number; // Planning turn the run is on
+  turnStart: number; // Index of the current turn's first step
+  history: { role: 'user' | 'assistant'; content: string }[]; // Loop history so far (text only)
+  checkpointHash?: string;
+  staged?: OverlaySnapshot; // File changes staged by the run and not yet committed (in memory only)
+  stagedRefs?: StagedSnapshotRef; // How `staged` is saved: paths and content hashes, contents in stagedBlobs
+  dryRun?: boolean;
+  mode?: AgentMode;
+}
+
+export type TraceEventType = 'prompt' | 'model_output' | 'json_fix' | 'plan' | 'approval' | 'tool_call' | 'changes' | 'error';
+
+export interface TraceEvent {
+  type: TraceEventType;
+  time: number;
+  label: string;
+  durationMs?: number;
+  data?: any;
+}
+
+// Structured record of one agent run, for debugging plans and bug reports
+export interface AgentTrace {
+  id: string; // Background task id of the run
+  request: string;
+  model: string;
+  startedAt: number;
+  endedAt?: number;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  events: TraceEvent[];
+}
+
+// Changes simulated by a dry run, applied for real or thrown away from the chat
+export interface DryRunChangeSet {
+  goal: string;
+  snapshot: OverlaySnapshot;
+  status: 'pending' | 'applied' | 'discarded';
+}
+
 const CHATS_KEY = '@cursor_chats';
 const CURRENT_CHAT_KEY = '@cursor_current_chat';
 const MODEL_KEY = '@cursor_model';
@@ -84,6 +198,121 @@ const REMOTE_SKILLS_KEY = '@mobcode_remote_skills';
 const REMOTE_SKILLS_SYNC_KEY = '@mobcode_remote_skills_sync_time';
 const OPENROUTER_KEY_KEY = '@cursor_openrouter_key';
 const OPENROUTER_MODELS_KEY = '@mobcode_openrouter_models';
+const PROXY_SETTINGS_KEY = '@mobcode_proxy_settings';
+// Sync state per project root; the previous single state is dropped, so the first sync of each project starts fresh
+const SYNC_STATES_KEY = '@mobcode_sync_states';
+const USAGE_STATS_KEY = '@mobcode_usage_stats';
+const AGENT_RUN_KEY = '@mobcode_agent_run';
+const REVIEW_PLANS_KEY = '@mobcode_review_plans';
+const DRY_RUN_KEY = '@mobcode_dry_run';
+const AGENT_SETTINGS_KEY = '@mobcode_agent_settings';
+const APPROVAL_RULES_KEY = '@mobcode_approval_rules';
+const AGENT_TRACES_KEY = '@mobcode_agent_traces';
+const SECRETS_MIGRATED_KEY = '@mobcode_secrets_migrated';
+// Bumped when another plaintext value moves to the secure store, so the migration runs again
+const SECRETS_MIGRATION_VERSION = '2';
+
+// Plaintext AsyncStorage keys used before secrets moved to the secure store
+const LEGACY_SECRET_KEYS: Array<[string, SecretName]> = [
+  [OPENAI_KEY_KEY, 'openai_key'],
+  [ANTHROPIC_KEY_KEY, 'anthropic_key'],
+  [HF_KEY_KEY, 'huggingface_key'],
+  [GEMINI_KEY_KEY, 'gemini_key'],
+  [GLM_KEY_KEY, 'glm_key'],
+  [OPENROUTER_KEY_KEY, 'openrouter_key'],
+];
+
+const customModelSecret = (modelId: string): SecretName => `custom_model_${modelId}`;
+
+// Copy a plaintext value into the secure store; false if it didn't stick
+const moveToSecrets = async (name: SecretName, value: string) => {
+  try {
+    await secrets.set(name, value);
+  } catch (error) {
+    return false;
+  }
+  return (await secrets.get(name)) === value;
+};
+
+async function runSecretsMigration(): Promise<void> {
+  if ((await AsyncStorage.getItem(SECRETS_MIGRATED_KEY)) === SECRETS_MIGRATION_VERSION) return;
+  let complete = true;
+
+  for (const [key, name] of LEGACY_SECRET_KEYS) {
+    const value = await AsyncStorage.getItem(key);
+    if (!value) continue;
+    if (await moveToSecrets(name, value)) await AsyncStorage.removeItem(key);
+    else complete = false;
+  }
+
+  const gitData = await AsyncStorage.getItem(GIT_SETTINGS_KEY);
+  const gitSettings = gitData ? JSON.parse(gitData) : null;
+  if (gitSettings?.token) {
+    if (await moveToSecrets('git_token', gitSettings.token)) {
+      delete gitSettings.token;
+      await AsyncStorage.setItem(GIT_SETTINGS_KEY, JSON.stringify(gitSettings));
+    } else {
+      complete = false;
+    }
+  }
+
+  const proxyData = await AsyncStorage.getItem(PROXY_SETTINGS_KEY);
+  const proxySettings = proxyData ? JSON.parse(proxyData) : null;
+  if (proxySettings?.token) {
+    if (await moveToSecrets('proxy_token', proxySettings.token)) {
+      delete proxySettings.token;
+      await AsyncStorage.setItem(PROXY_SETTINGS_KEY, JSON.stringify(proxySettings));
+    } else {
+      complete = false;
+    }
+  }
+
+  const modelsData = await AsyncStorage.getItem(CUSTOM_MODELS_KEY);
+  const models: any[] = modelsData ? JSON.parse(modelsData) : [];
+  let modelsChanged = false;
+  for (const model of models) {
+    if (!model.apiKey) continue;
+    if (await moveToSecrets(customModelSecret(model.id), model.apiKey)) {
+      delete model.apiKey;
+      modelsChanged = true;
+    } else {
+      complete = false;
+    }
+  }
+  if (modelsChanged) {
+    await AsyncStorage.setItem(CUSTOM_MODELS_KEY, JSON.stringify(models));
+  }
+
+  // Retried on the next launch if the secure store refused a value
+  if (complete) {
+    await AsyncStorage.setItem(SECRETS_MIGRATED_KEY, SECRETS_MIGRATION_VERSION);
+    console.log('[Secrets] Moved plaintext keys to secure storage');
+  }
+}
+
+let secretsMigration: Promise<void> | null = null;
+
+// Runs once per launch before any secret is read
+const migrateSecrets = () => {
+  if (!secretsMigration) {
+    secretsMigration = runSecretsMigration().catch((error) => {
+      console.error('Error migrating secrets:', error);
+    });
+  }
+  return secretsMigration;
+};
+
+// Saved chats never contain secret values, so exports and backups can't leak them
+const redactChat = (chat: Chat): Chat => ({
+  ...chat,
+  messages: chat.messages.map((m) => ({
+    ...m,
+    content: redactSecrets(m.content),
+    approval: m.approval?.parameters
+      ? { ...m.approval, parameters: JSON.parse(redactSecrets(JSON.stringify(m.approval.parameters))) }
+      : m.approval,
+  })),
+});
 
 export const storage = {
   // Get all chats
@@ -113,9 +342,9 @@ export const storage = {
       const chats = await this.getChats();
       const index = chats.findIndex((c) => c.id === chat.id);
       if (index >= 0) {
-        chats[index] = chat;
+        chats[index] = redactChat(chat);
       } else {
-        chats.unshift(chat);
+        chats.unshift(redactChat(chat));
       }
       await AsyncStorage.setItem(CHATS_KEY, JSON.stringify(chats));
     } catch (error) {
@@ -159,7 +388,7 @@ export const storage = {
   async setCurrentChat(chat: Chat | null): Promise<void> {
     try {
       if (chat) {
-        await AsyncStorage.setItem(CURRENT_CHAT_KEY, JSON.stringify(chat));
+        await AsyncStorage.setItem(CURRENT_CHAT_KEY, JSON.stringify(redactChat(chat)));
       } else {
         await AsyncStorage.removeItem(CURRENT_CHAT_KEY);
       }
@@ -188,16 +417,90 @@ export const storage = {
     }
   },
 
+  // Whether agent plans wait for review before running (on by default)
+  async getReviewPlans(): Promise<boolean> {
+    try {
+      return (await AsyncStorage.getItem(REVIEW_PLANS_KEY)) !== 'false';
+    } catch (error) {
+      console.error('Error getting plan review setting:', error);
+      return true;
+    }
+  },
+
+  async setReviewPlans(enabled: boolean): Promise<void> {
+    try {
+      await AsyncStorage.setItem(REVIEW_PLANS_KEY, enabled ? 'true' : 'false');
+    } catch (error) {
+      console.error('Error saving plan review setting:', error);
+    }
+  },
+
+  async getDryRun(): Promise<boolean> {
+    try {
+      return (await AsyncStorage.getItem(DRY_RUN_KEY)) === 'true';
+    } catch (error) {
+      console.error('Error getting dry run setting:', error);
+      return false;
+    }
+  },
+
+  async setDryRun(enabled: boolean): Promise<void> {
+    try {
+      await AsyncStorage.setItem(DRY_RUN_KEY, enabled ? 'true' : 'false');
+    } catch (error) {
+      console.error('Error saving dry run setting:', error);
+    }
+  },
+
+  async getAgentSettings(): Promise<AgentSettings> {
+    try {
+      const data = await AsyncStorage.getItem(AGENT_SETTINGS_KEY);
+      return data ? JSON.parse(data) : {};
+    } catch (error) {
+      console.error('Error getting agent settings:', error);
+      return {};
+    }
+  },
+
+  async setAgentSettings(settings: AgentSettings): Promise<void> {
+    try {
+      await AsyncStorage.setItem(AGENT_SETTINGS_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Error saving agent settings:', error);
+    }
+  },
+
+  // Get saved approval rules (session rules are never stored)
+  async getApprovalRules(): Promise<ApprovalRule[]> {
+    try {
+      const data = await AsyncStorage.getItem(APPROVAL_RULES_KEY);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error('Error getting approval rules:', error);
+      return [];
+    }
+  },
+
+  async setApprovalRules(rules: ApprovalRule[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(APPROVAL_RULES_KEY, JSON.stringify(rules));
+    } catch (error) {
+      console.error('Error saving approval rules:', error);
+    }
+  },
+
   // Get all custom models
   async getCustomModels(): Promise<CustomModel[]> {
     try {
+      await migrateSecrets();
       const data = await AsyncStorage.getItem(CUSTOM_MODELS_KEY);
       if (!data) return [];
       const models = JSON.parse(data);
-      return models.map((model: any) => ({
+      return Promise.all(models.map(async (model: any) => ({
         ...model,
+        apiKey: await secrets.get(customModelSecret(model.id)),
         createdAt: new Date(model.createdAt),
-      }));
+      })));
     } catch (error) {
       console.error('Error getting custom models:', error);
       return [];
@@ -214,9 +517,12 @@ export const storage = {
       } else {
         models.unshift(model);
       }
-      await AsyncStorage.setItem(CUSTOM_MODELS_KEY, JSON.stringify(models));
+      await secrets.set(customModelSecret(model.id), model.apiKey);
+      // API keys are kept in the secure store, not in the model list
+      await AsyncStorage.setItem(CUSTOM_MODELS_KEY, JSON.stringify(models.map(({ apiKey, ...rest }) => rest)));
     } catch (error) {
       console.error('Error saving custom model:', error);
+      throw error;
     }
   },
 
@@ -225,7 +531,8 @@ export const storage = {
     try {
       const models = await this.getCustomModels();
       const filtered = models.filter((m) => m.id !== modelId);
-      await AsyncStorage.setItem(CUSTOM_MODELS_KEY, JSON.stringify(filtered));
+      await AsyncStorage.setItem(CUSTOM_MODELS_KEY, JSON.stringify(filtered.map(({ apiKey, ...rest }) => rest)));
+      await secrets.delete(customModelSecret(modelId));
     } catch (error) {
       console.error('Error deleting custom model:', error);
     }
@@ -233,113 +540,75 @@ export const storage = {
 
   // Get OpenAI API key
   async getOpenAIKey(): Promise<string> {
-    try {
-      const key = await AsyncStorage.getItem(OPENAI_KEY_KEY);
-      return key || '';
-    } catch (error) {
-      console.error('Error getting OpenAI key:', error);
-      return '';
-    }
+    await migrateSecrets();
+    return secrets.get('openai_key');
   },
 
   // Set OpenAI API key
   async setOpenAIKey(key: string): Promise<void> {
-    try {
-      await AsyncStorage.setItem(OPENAI_KEY_KEY, key);
-    } catch (error) {
-      console.error('Error setting OpenAI key:', error);
-    }
+    await migrateSecrets();
+    await secrets.set('openai_key', key);
   },
 
   // Get Anthropic API key
   async getAnthropicKey(): Promise<string> {
-    try {
-      const key = await AsyncStorage.getItem(ANTHROPIC_KEY_KEY);
-      return key || '';
-    } catch (error) {
-      console.error('Error getting Anthropic key:', error);
-      return '';
-    }
+    await migrateSecrets();
+    return secrets.get('anthropic_key');
   },
 
   // Set Anthropic API key
   async setAnthropicKey(key: string): Promise<void> {
-    try {
-      await AsyncStorage.setItem(ANTHROPIC_KEY_KEY, key);
-    } catch (error) {
-      console.error('Error setting Anthropic key:', error);
-    }
+    await migrateSecrets();
+    await secrets.set('anthropic_key', key);
   },
 
   // Get Hugging Face API key
   async getHuggingFaceKey(): Promise<string> {
-    try {
-      const key = await AsyncStorage.getItem(HF_KEY_KEY);
-      return key || '';
-    } catch (error) {
-      console.error('Error getting Hugging Face key:', error);
-      return '';
-    }
+    await migrateSecrets();
+    return secrets.get('huggingface_key');
   },
 
   // Set Hugging Face API key
   async setHuggingFaceKey(key: string): Promise<void> {
-    try {
-      await AsyncStorage.setItem(HF_KEY_KEY, key);
-    } catch (error) {
-      console.error('Error setting Hugging Face key:', error);
-    }
+    await migrateSecrets();
+    await secrets.set('huggingface_key', key);
   },
 
   // Get Gemini API key
   async getGeminiKey(): Promise<string> {
-    try {
-      const key = await AsyncStorage.getItem(GEMINI_KEY_KEY);
-      return key || '';
-    } catch (error) {
-      console.error('Error getting Gemini key:', error);
-      return '';
-    }
+    await migrateSecrets();
+    return secrets.get('gemini_key');
   },
 
   // Set Gemini API key
   async setGeminiKey(key: string): Promise<void> {
-    try {
-      await AsyncStorage.setItem(GEMINI_KEY_KEY, key);
-    } catch (error) {
-      console.error('Error setting Gemini key:', error);
-    }
+    await migrateSecrets();
+    await secrets.set('gemini_key', key);
   },
 
   // Get GLM API key
   async getGlmKey(): Promise<string> {
-    try {
-      const key = await AsyncStorage.getItem(GLM_KEY_KEY);
-      return key || '';
-    } catch (error) {
-      console.error('Error getting GLM key:', error);
-      return '';
-    }
+    await migrateSecrets();
+    return secrets.get('glm_key');
   },
 
   // Set GLM API key
   async setGlmKey(key: string): Promise<void> {
-    try {
-      await AsyncStorage.setItem(GLM_KEY_KEY, key);
-    } catch (error) {
-      console.error('Error setting GLM key:', error);
-    }
+    await migrateSecrets();
+    await secrets.set('glm_key', key);
   },
 
   // Get git settings
   async getGitSettings(): Promise<GitSettings> {
     try {
+      await migrateSecrets();
       const data = await AsyncStorage.getItem(GIT_SETTINGS_KEY);
+      const token = await secrets.get('git_token');
       if (!data) {
         return {
           remoteUrl: '',
           username: '',
-          token: '',
+          token,
           authorName: 'Mobcode User',
           authorEmail: 'user@example.com',
         };
@@ -348,7 +617,7 @@ export const storage = {
       return {
         remoteUrl: parsed.remoteUrl || '',
         username: parsed.username || '',
-        token: parsed.token || '',
+        token,
         authorName: parsed.authorName || 'Mobcode User',
         authorEmail: parsed.authorEmail || 'user@example.com',
       };
@@ -367,9 +636,13 @@ export const storage = {
   // Save git settings
   async setGitSettings(settings: GitSettings): Promise<void> {
     try {
-      await AsyncStorage.setItem(GIT_SETTINGS_KEY, JSON.stringify(settings));
+      await migrateSecrets();
+      const { token, ...rest } = settings;
+      await secrets.set('git_token', token);
+      await AsyncStorage.setItem(GIT_SETTINGS_KEY, JSON.stringify(rest));
     } catch (error) {
       console.error('Error saving git settings:', error);
+      throw error;
     }
   },
 
@@ -417,22 +690,14 @@ export const storage = {
 
   // Get OpenRouter API key
   async getOpenRouterKey(): Promise<string> {
-    try {
-      const key = await AsyncStorage.getItem(OPENROUTER_KEY_KEY);
-      return key || '';
-    } catch (error) {
-      console.error('Error getting OpenRouter key:', error);
-      return '';
-    }
+    await migrateSecrets();
+    return secrets.get('openrouter_key');
   },
 
   // Set OpenRouter API key
   async setOpenRouterKey(key: string): Promise<void> {
-    try {
-      await AsyncStorage.setItem(OPENROUTER_KEY_KEY, key);
-    } catch (error) {
-      console.error('Error setting OpenRouter key:', error);
-    }
+    await migrateSecrets();
+    await secrets.set('openrouter_key', key);
   },
 
   // Get cached OpenRouter models
@@ -455,4 +720,121 @@ export const storage = {
       console.error('Error saving OpenRouter models:', error);
     }
   },
+
+  // Get MCP proxy workspace settings (remote shell and sync)
+  async getProxySettings(): Promise<ProxySettings> {
+    try {
+      await migrateSecrets();
+      const data = await AsyncStorage.getItem(PROXY_SETTINGS_KEY);
+      const token = await secrets.get('proxy_token');
+      if (!data) return { ...DEFAULT_PROXY_SETTINGS, token };
+      return { ...DEFAULT_PROXY_SETTINGS, ...JSON.parse(data), token };
+    } catch (error) {
+      console.error('Error getting proxy settings:', error);
+      return { ...DEFAULT_PROXY_SETTINGS };
+    }
+  },
+
+  // Save MCP proxy workspace settings
+  async setProxySettings(settings: ProxySettings): Promise<void> {
+    try {
+      await migrateSecrets();
+      const { token, ...rest } = settings;
+      await secrets.set('proxy_token', token);
+      await AsyncStorage.setItem(PROXY_SETTINGS_KEY, JSON.stringify(rest));
+    } catch (error) {
+      console.error('Error saving proxy settings:', error);
+      throw error;
+    }
+  },
+
+  // Get the sync state of one project, keyed by its root
+  async getSyncState(projectRoot: string): Promise<SyncState> {
+    const empty: SyncState = { base: {}, conflicts: [], localCache: {}, lastSyncAt: null };
+    try {
+      const data = await AsyncStorage.getItem(SYNC_STATES_KEY);
+      const states: Record<string, SyncState> = data ? JSON.parse(data) : {};
+      if (!states[projectRoot]) return empty;
+      return { ...empty, ...states[projectRoot] };
+    } catch (error) {
+      console.error('Error getting sync state:', error);
+      return empty;
+    }
+  },
+
+  // Save the sync state of one project
+  async setSyncState(projectRoot: string, state: SyncState): Promise<void> {
+    try {
+      const data = await AsyncStorage.getItem(SYNC_STATES_KEY);
+      const states: Record<string, SyncState> = data ? JSON.parse(data) : {};
+      states[projectRoot] = state;
+      await AsyncStorage.setItem(SYNC_STATES_KEY, JSON.stringify(states));
+    } catch (error) {
+      console.error('Error saving sync state:', error);
+    }
+  },
+
+  // Get token usage totals per chat and per day
+  async getUsageStats(): Promise<UsageStats> {
+    const empty: UsageStats = { chats: {}, days: {} };
+    try {
+      const data = await AsyncStorage.getItem(USAGE_STATS_KEY);
+      if (!data) return empty;
+      return { ...empty, ...JSON.parse(data) };
+    } catch (error) {
+      console.error('Error getting usage stats:', error);
+      return empty;
+    }
+  },
+
+  // Save token usage totals
+  async setUsageStats(stats: UsageStats): Promise<void> {
+    try {
+      await AsyncStorage.setItem(USAGE_STATS_KEY, JSON.stringify(stats));
+    } catch (error) {
+      console.error('Error saving usage stats:', error);
+    }
+  },
+
+  // Get the journaled agent run (left behind when the app was killed mid-run)
+  async getAgentRun(): Promise<BackgroundTask | null> {
+    try {
+      const data = await AsyncStorage.getItem(AGENT_RUN_KEY);
+      return data ? JSON.parse(data) : null;
+    } catch (error) {
+      console.error('Error getting agent run:', error);
+      return null;
+    }
+  },
+
+  async getAgentTraces(): Promise<AgentTrace[]> {
+    try {
+      const data = await AsyncStorage.getItem(AGENT_TRACES_KEY);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error('Error getting agent traces:', error);
+      return [];
+    }
+  },
+
+  async setAgentTraces(traces: AgentTrace[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(AGENT_TRACES_KEY, redactSecrets(JSON.stringify(traces)));
+    } catch (error) {
+      console.error('Error saving agent traces:', error);
+    }
+  },
+
+  // Journal the running agent task, or clear it with null
+  async setAgentRun(task: BackgroundTask | null): Promise<void> {
+    try {
+      if (task) {
+        await AsyncStorage.setItem(AGENT_RUN_KEY, redactSecrets(JSON.stringify(task)));
+      } else {
+        await AsyncStorage.removeItem(AGENT_RUN_KEY);
+      }
+    } catch (error) {
+      console.error('Error saving agent run:', error);
+    }
+  },
 };
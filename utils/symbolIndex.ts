@@ -0,0 +1,249 @@
+/**
+ * Symbol Index
+ * Top-level declarations of the project's TS/JS files (functions, components,
+ * classes, types and their locations), found with line-based patterns. The
+ * index is refreshed on every lookup but only re-parses files whose size or
+ * modification time changed, so it follows edits without a full rebuild.
+ */
+
+import { fileManager, FileNode } from './fileManager';
+import { toProjectPath } from './projectPaths';
+import { collectSearchFiles, searchProject, SearchResults } from './projectSearch';
+
+export type SymbolKind = 'function' | 'component' | 'class' | 'interface' | 'type' | 'enum' | 'variable';
+
+export interface CodeSymbol {
+  name: string;
+  kind: SymbolKind;
+  path: string; // Project-relative
+  uri: string;
+  line: number; // 1-based
+  column: number; // 0-based start of the name
+  exported: boolean;
+  signature: string; // The declaration line, shortened
+}
+
+export interface SymbolQuery {
+  kind?: SymbolKind;
+  exportedOnly?: boolean;
+  limit?: number;
+}
+
+export const SOURCE_GLOBS = ['*.{ts,tsx,js,jsx,mjs,cjs}'];
+
+const MAX_FILE_SIZE = 512 * 1024; // Larger files are usually bundles or generated code
+const MAX_SIGNATURE_LENGTH = 120;
+const DEFAULT_SYMBOL_LIMIT = 50;
+
+type IndexFiles = Pick<typeof fileManager, 'scanProject' | 'readFile' | 'fileExists'>;
+
+interface IndexedFile {
+  stamp: string | null; // null for files without a modification time, which are re-parsed every time
+  symbols: CodeSymbol[];
+}
+
+const DECLARATION = /^(export\s+(?:default\s+)?)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(function\*?|class|interface|type|const\s+enum|enum|const|let|var)\s+([A-Za-z_$][\w$]*)/;
+const COMMONJS_EXPORT = /^(?:module\.)?exports\.([A-Za-z_$][\w$]*)\s*=/;
+const EXPORT_LIST = /^export\s*\{([^}]*)\}\s*;?\s*$/;
+const DEFAULT_EXPORT = /^export\s+default\s+([A-Za-z_$][\w$]*)\s*;?\s*$/;
+const FUNCTION_VALUE = /^\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|\(\s*$|[A-Za-z_$][\w$]*\s*=>)/;
+const COMPONENT_VALUE = /^\s*(?::[^=]+)?=\s*(?:React\.)?(?:memo|forwardRef)\s*[(<]/;
+const COMPONENT_CLASS = /\bextends\s+(?:React\.)?(?:Pure)?Component\b/;
+
+const isPascalCase = (name: string) => /^[A-Z][A-Za-z0-9]*$/.test(name) && /[a-z]/.test(name);
+
+const stampOf = (node: FileNode): string | null =>
+  node.modifiedAt !== undefined ? `${node.modifiedAt}:${node.size ?? ''}` : null;
+
+const toSignature = (line: string): string => {
+  const signature = line.trim().replace(/\s*\{\s*$/, '');
+  return signature.length > MAX_SIGNATURE_LENGTH ? `${signature.substring(0, MAX_SIGNATURE_LENGTH)}...` : signature;
+};
+
+const toKind = (keyword: string, name: string, rest: string, componentFile: boolean): SymbolKind => {
+  if (keyword.startsWith('function')) return componentFile && isPascalCase(name) ? 'component' : 'function';
+  if (keyword === 'class') return COMPONENT_CLASS.test(rest) ? 'component' : 'class';
+  if (keyword === 'interface') return 'interface';
+  if (keyword === 'type') return 'type';
+  if (keyword.endsWith('enum')) return 'enum';
+  if (isPascalCase(name) && COMPONENT_VALUE.test(rest)) return 'component';
+  if (FUNCTION_VALUE.test(rest)) return componentFile && isPascalCase(name) ? 'component' : 'function';
+  return 'variable';
+};
+
+/**
+ * Top-level declarations of one file. Only lines starting at column 0 are
+ * read, which skips nested code without parsing the file.
+ */
+export function parseSymbols(path: string, uri: string, content: string): CodeSymbol[] {
+  const componentFile = /\.(tsx|jsx)$/.test(path) || /from\s+['"]react['"]/.test(content);
+  const symbols: CodeSymbol[] = [];
+  const exportedLater = new Set<string>(); // Names from "export { a, b }" and "export default a"
+
+  content.split('\n').forEach((text, index) => {
+    const declaration = DECLARATION.exec(text);
+    if (declaration) {
+      const [match, exportPrefix, keyword, name] = declaration;
+      symbols.push({
+        name,
+        kind: toKind(keyword.replace(/\s+/g, ' '), name, text.substring(match.length), componentFile),
+        path,
+        uri,
+        line: index + 1,
+        column: match.length - name.length,
+        exported: !!exportPrefix,
+        signature: toSignature(text),
+      });
+      return;
+    }
+
+    const commonjs = COMMONJS_EXPORT.exec(text);
+    if (commonjs) {
+      const rest = text.substring(commonjs[0].length - 1);
+      symbols.push({
+        name: commonjs[1],
+        kind: FUNCTION_VALUE.test(rest) ? 'function' : 'variable',
+        path,
+        uri,
+        line: index + 1,
+        column: text.indexOf(commonjs[1], text.indexOf('exports.') + 8),
+        exported: true,
+        signature: toSignature(text),
+      });
+      return;
+    }
+
+    const list = EXPORT_LIST.exec(text);
+    if (list) {
+      list[1].split(',').forEach((item) => {
+        const local = item.trim().split(/\s+as\s+/)[0];
+        if (local) exportedLater.add(local);
+      });
+      return;
+    }
+
+    const defaultExport = DEFAULT_EXPORT.exec(text);
+    if (defaultExport) exportedLater.add(defaultExport[1]);
+  });
+
+  return symbols.map((symbol) => (exportedLater.has(symbol.name) ? { ...symbol, exported: true } : symbol));
+}
+
+const rankMatch = (name: string, query: string): number => {
+  if (name === query) return 0;
+  const lowerName = name.toLowerCase();
+  const lowerQuery = query.toLowerCase();
+  if (lowerName === lowerQuery) return 1;
+  if (lowerName.startsWith(lowerQuery)) return 2;
+  if (lowerName.includes(lowerQuery)) return 3;
+  return -1;
+};
+
+class SymbolIndex {
+  private files = new Map<string, IndexedFile>(); // uri -> symbols
+  private refreshing: Promise<CodeSymbol[]> | null = null;
+
+  /**
+   * Every symbol in the project, re-parsing only files that changed since the
+   * last refresh. Pass the agent run's FileOverlay to see its staged changes.
+   */
+  async refresh(files: IndexFiles = fileManager): Promise<CodeSymbol[]> {
+    // Concurrent refreshes of the project on disk share one scan
+    if (files !== fileManager) return this.update(files);
+    if (!this.refreshing) {
+      this.refreshing = this.update(files).finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async update(files: IndexFiles): Promise<CodeSymbol[]> {
+    const nodes = await collectSearchFiles({ include: SOURCE_GLOBS, exclude: ['*.min.js'] }, files);
+    const next = new Map<string, IndexedFile>();
+    let parsed = 0;
+
+    for (const node of nodes) {
+      if (node.size !== undefined && node.size > MAX_FILE_SIZE) continue;
+      const stamp = stampOf(node);
+      const cached = this.files.get(node.path);
+      if (cached && stamp !== null && cached.stamp === stamp) {
+        next.set(node.path, cached);
+        continue;
+      }
+      try {
+        const content = await files.readFile(node.path);
+        const path = toProjectPath(node.path) || node.name;
+        next.set(node.path, { stamp, symbols: parseSymbols(path, node.path, content) });
+        parsed++;
+      } catch (error) {
+        continue; // Skip unreadable files
+      }
+    }
+
+    // Staged overlay files are not kept, so the disk version is re-read once the run ends
+    if (files === fileManager) this.files = next;
+    if (parsed > 0) console.log('[SymbolIndex] Parsed', parsed, 'of', nodes.length, 'files');
+    return Array.from(next.values()).flatMap((file) => file.symbols);
+  }
+
+  /**
+   * Symbols whose name matches the query: exact matches first, then
+   * prefixes, then substrings; exported symbols before local ones
+   */
+  async findSymbols(query: string, options: SymbolQuery = {}, files: IndexFiles = fileManager): Promise<CodeSymbol[]> {
+    const symbols = await this.refresh(files);
+    return symbols
+      .filter((symbol) => (!options.kind || symbol.kind === options.kind) && (!options.exportedOnly || symbol.exported))
+      .map((symbol) => ({ symbol, rank: rankMatch(symbol.name, query.trim()) }))
+      .filter(({ rank }) => rank >= 0)
+      .sort((a, b) => a.rank - b.rank || Number(b.symbol.exported) - Number(a.symbol.exported) || a.symbol.path.localeCompare(b.symbol.path))
+      .slice(0, options.limit || DEFAULT_SYMBOL_LIMIT)
+      .map(({ symbol }) => symbol);
+  }
+
+  /**
+   * Declarations of exactly this name. Those in `fromPath` come first, then
+   * exported ones, since those are the ones an import can refer to.
+   */
+  async findDefinitions(name: string, fromPath?: string, files: IndexFiles = fileManager): Promise<CodeSymbol[]> {
+    const symbols = await this.refresh(files);
+    return symbols
+      .filter((symbol) => symbol.name === name)
+      .sort((a, b) =>
+        Number(b.path === fromPath) - Number(a.path === fromPath) ||
+        Number(b.exported) - Number(a.exported) ||
+        a.path.localeCompare(b.path));
+  }
+
+  /**
+   * Whole-word, case-sensitive uses of a name in TS/JS files, with its definitions
+   */
+  async findReferences(
+    name: string,
+    maxResults?: number,
+    files: IndexFiles = fileManager
+  ): Promise<{ definitions: CodeSymbol[]; results: SearchResults }> {
+    const definitions = await this.findDefinitions(name, undefined, files);
+    const results = await searchProject({
+      query: name,
+      caseSensitive: true,
+      wholeWord: true,
+      include: SOURCE_GLOBS,
+      exclude: ['*.min.js'],
+      maxResults,
+    }, files);
+    return { definitions, results };
+  }
+}
+
+export const symbolIndex = new SymbolIndex();
+
+/**
+ * "name (kind) path:line - signature" lines for the agent
+ */
+export function formatSymbols(symbols: CodeSymbol[]): string {
+  return symbols
+    .map((symbol) => `${symbol.name} (${symbol.exported ? 'exported ' : ''}${symbol.kind}) ${symbol.path}:${symbol.line} - ${symbol.signature}`)
+    .join('\n');
+}
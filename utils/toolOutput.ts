@@ -0,0 +1,66 @@
+/**
+ * Tool Output
+ * Pages long tool output so a single result cannot fill the model's context.
+ * A page that stops early ends with a marker saying where the rest starts;
+ * calling the same tool again with that `offset` returns the next page.
+ */
+
+import type { ToolParameter } from './toolRegistry';
+
+// Characters of output returned per tool call when the caller sets no budget
+export const DEFAULT_OUTPUT_BUDGET = 8000;
+
+export const MORE_OUTPUT_MARKER = '[More output available';
+
+// Accepted by every tool that does not declare an offset of its own
+export const OUTPUT_OFFSET_PARAMETER: ToolParameter = {
+  name: 'offset',
+  type: 'number',
+  description: `Character offset to continue long output from, as given by a "${MORE_OUTPUT_MARKER}" marker. Tools that change things are not run again; the rest of their saved output is returned`,
+};
+
+export interface OutputPage {
+  output: string;
+  more?: { offset: number; total: number }; // Set when output remains after this page
+}
+
+/**
+ * Identifies a call by tool and parameters (without offset), so later pages
+ * are served from its saved output
+ */
+export const outputKey = (toolName: string, params: any): string => {
+  const stable = (value: any): any => {
+    if (Array.isArray(value)) return value.map(stable);
+    if (!value || typeof value !== 'object') return value;
+    return Object.fromEntries(Object.keys(value).sort().map((key) => [key, stable(value[key])]));
+  };
+  return `${toolName}:${JSON.stringify(stable(params ?? {}))}`;
+};
+
+export const formatMoreMarker = (toolName: string, start: number, end: number, total: number) =>
+  `${MORE_OUTPUT_MARKER}: showing characters ${start}-${end} of ${total}. Call ${toolName} again with the same parameters and offset: ${end}]`;
+
+/**
+ * The page of `output` starting at `offset`, at most `budget` characters long.
+ * Pages end on a line break when there is one in the second half of the page.
+ */
+export function pageOutput(output: string, toolName: string, offset: number = 0, budget: number = DEFAULT_OUTPUT_BUDGET): OutputPage {
+  const start = Math.max(0, Math.floor(Number(offset)) || 0);
+  if (start === 0 && output.length <= budget) return { output };
+  if (start >= output.length) {
+    return { output: `[No more output: offset ${start} is past the end (${output.length} characters)]` };
+  }
+
+  const header = start > 0 ? `[Output continued from character ${start} of ${output.length}]\n` : '';
+  if (output.length - start <= budget) {
+    return { output: header + output.substring(start) };
+  }
+
+  let end = start + budget;
+  const lineBreak = output.lastIndexOf('\n', end - 1);
+  if (lineBreak >= start + budget / 2) end = lineBreak + 1;
+  return {
+    output: `${header}${output.substring(start, end).replace(/\n$/, '')}\n${formatMoreMarker(toolName, start, end, output.length)}`,
+    more: { offset: end, total: output.length },
+  };
+}
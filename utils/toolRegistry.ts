@@ -3,6 +3,20 @@ import { mcpClient } from './mcpClient';
 import { gitService } from './gitService';
 import { previewBus } from './previewBus';
 import { SAMPLE_PROJECTS } from '../data/sampleProjects';
+import { applyEditParams } from './fileEdits';
+import { remoteShell } from './remoteShell';
+import { projectSync } from './projectSync';
+import { backgroundTaskManager } from './backgroundTask';
+import { secrets } from './secrets';
+import { resolveProjectPath, resolveWorkspacePath, sandboxMCPParams, isPathError } from './projectPaths';
+import { projectMemory, MEMORY_PATH } from './projectMemory';
+import { searchProject, formatSearchResults, DEFAULT_MAX_RESULTS } from './projectSearch';
+import { replaceInProject, computeReplacements, ReplaceOptions, MAX_REPLACE_MATCHES } from './projectReplace';
+import { symbolIndex, formatSymbols } from './symbolIndex';
+import { buildChangeDiff } from './fileOverlay';
+import { pageOutput, outputKey, OUTPUT_OFFSET_PARAMETER, MORE_OUTPUT_MARKER } from './toolOutput';
+import type { FileOverlay } from './fileOverlay';
+import type { CodeDiff } from './storage';
 
 export interface ToolParameter {
   name: string;
@@ -10,25 +24,53 @@ export interface ToolParameter {
   description: string;
   required?: boolean;
   default?: any;
+  items?: any; // JSON schema for array elements (defaults to string)
 }
 
 export interface Tool {
   name: string;
   description: string;
   parameters: ToolParameter[];
-  execute: (params: any) => Promise<ToolResult>;
+  execute: (params: any, context?: ToolContext) => Promise<ToolResult>;
+  preview?: (params: any, context?: ToolContext) => Promise<CodeDiff>; // Shows the change before approval
   requiresApproval?: boolean;
+  readOnly?: boolean; // Only reads (files, git status/log, package info): run again for each output page and on disk in dry runs
+  usesDisk?: boolean; // Works on the project on disk, so staged agent changes are flushed first
 }
 
+export interface ToolContext {
+  signal?: AbortSignal; // Aborted when the user cancels the agent run
+  files?: FileOverlay; // Stages file changes for the agent run instead of writing them directly
+  outputBudget?: number; // Characters of output per call before it is paged (DEFAULT_OUTPUT_BUDGET when unset)
+}
+
+const projectFiles = (context?: ToolContext) => context?.files || fileManager;
+
+const MAX_SAVED_OUTPUTS = 10;
+
+// Result for a tool a dry run cannot simulate, so the plan does not build on a made-up success
+const notSimulated = (what: string): ToolResult => ({
+  success: false,
+  output: '',
+  error: `[Dry run] ${what} is not simulated: it works on the project on disk or a remote, which a dry run leaves untouched. Plan the remaining steps without its result.`,
+  data: { dryRun: true, notSimulated: true },
+});
+
+// Models sometimes send a comma-separated string instead of a list
+const toList = (value: any): string[] | undefined =>
+  Array.isArray(value) ? value.map(String) : typeof value === 'string' && value ? value.split(',') : undefined;
+
 export interface ToolResult {
   success: boolean;
   output: string;
   error?: string;
   data?: any;
+  more?: { offset: number; total: number }; // Output was paged; call again with this offset for the rest
 }
 
 class ToolRegistry {
   private tools: Map<string, Tool> = new Map();
+  private pagedOutputs = new Map<string, ToolResult>(); // Full results of paged calls with side effects, oldest first
 
   constructor() {
     this.registerBuiltInTools();
@@ -38,11 +80,74 @@ class ToolRegistry {
     this.tools.set(tool.name, tool);
   }
 
-  async execute(toolName: string, params: any): Promise<ToolResult> {
+  async execute(toolName: string, params: any, context: ToolContext = {}): Promise<ToolResult> {
+    if (context.signal?.aborted) {
+      return { success: false, output: '', error: 'Cancelled' };
+    }
+
+    // A tool with an offset parameter of its own pages its output itself
+    if (this.declaresOffset(toolName)) {
+      return this.pageResult(toolName, await this.run(toolName, params, context), 0, context);
+    }
+
+    // Read-only tools run again for each page, so it reflects the current files. Later pages of
+    // other tools come from the saved output, so their side effects are not repeated.
+    const { offset, ...callParams } = params || {};
+    const key = outputKey(toolName, callParams);
+    const start = Math.max(0, Number(offset) || 0);
+    const readOnly = this.isReadOnly(toolName);
+    if (start > 0 && !readOnly) {
+      const saved = this.pagedOutputs.get(key);
+      if (!saved) {
+        return {
+          success: false,
+          output: '',
+          error: `The output of this ${toolName} call is no longer saved. Call ${toolName} without offset to run it again.`,
+        };
+      }
+      return this.pageResult(toolName, saved, start, context);
+    }
+
+    const result = await this.run(toolName, callParams, context);
+    const page = this.pageResult(toolName, result, start, context);
+    if (page.more && !readOnly) this.saveOutput(key, result);
+    return page;
+  }
+
+  /**
+   * A call that only reads more of an output saved by an earlier call
+   */
+  isContinuation(toolName: string, params: any): boolean {
+    if (this.declaresOffset(toolName) || !(Number(params?.offset) > 0)) return false;
+    const { offset, ...callParams } = params;
+    return this.pagedOutputs.has(outputKey(toolName, callParams));
+  }
+
+  private declaresOffset(toolName: string): boolean {
+    if (toolName.includes('/')) {
+      return !!mcpClient.getAllTools().get(toolName)?.tool.inputSchema?.properties?.offset;
+    }
+    return !!this.tools.get(toolName)?.parameters.some((p) => p.name === 'offset');
+  }
+
+  // MCP tools and tools not marked readOnly may have side effects
+  private isReadOnly(toolName: string): boolean {
+    return this.tools.get(toolName)?.readOnly === true;
+  }
+
+  private saveOutput(key: string, result: ToolResult): void {
+    this.pagedOutputs.delete(key);
+    this.pagedOutputs.set(key, result);
+    if (this.pagedOutputs.size > MAX_SAVED_OUTPUTS) {
+      this.pagedOutputs.delete(this.pagedOutputs.keys().next().value as string);
+    }
+  }
+
+  private async run(toolName: string, params: any, context: ToolContext): Promise<ToolResult> {
     // Check if it's an MCP tool (format: server_name/tool_name)
     if (toolName.includes('/')) {
       const [serverName, tool] = toolName.split('/');
-      return this.executeMCPTool(serverName, tool, params);
+      return this.executeMCPTool(serverName, tool, params, context.signal);
     }
 
     const tool = this.tools.get(toolName);
@@ -55,19 +160,46 @@ class ToolRegistry {
     }
 
     try {
-      return await tool.execute(params);
-    } catch (error) {
+      if (tool.usesDisk && context.files?.dryRun) {
+        // Read-only tools still run, against the disk; anything that changes it is refused, not faked
+        if (tool.readOnly) {
+          const result = await tool.execute(params, context);
+          return result.success
+            ? { ...result, output: `[Dry run] Shows the project on disk, without this run's simulated changes.\n${result.output}` }
+            : result;
+        }
+        return notSimulated(toolName);
+      }
+      if (tool.usesDisk && context.files) {
+        await context.files.flush();
+      }
+      return await tool.execute(params, context);
+    } catch (error: any) {
       return {
         success: false,
         output: '',
         error: error instanceof Error ? error.message : String(error),
+        // Path errors carry the offending path so the agent can retry with a project path
+        data: isPathError(error) ? { code: error.code, path: error.path } : undefined,
       };
     }
   }
 
-  private async executeMCPTool(serverName: string, toolName: string, params: any): Promise<ToolResult> {
+  /**
+   * Keep the output within the context's budget, ending a partial page with a
+   * marker that tells the model which offset to call again with
+   */
+  private pageResult(toolName: string, result: ToolResult, offset: any, context: ToolContext): ToolResult {
+    if (!result.output) return result;
+    const page = pageOutput(result.output, toolName, offset, context.outputBudget);
+    return page.more ? { ...result, output: page.output, more: page.more } : { ...result, output: page.output };
+  }
+
+  private async executeMCPTool(serverName: string, toolName: string, params: any, signal?: AbortSignal): Promise<ToolResult> {
     try {
-      const result = await mcpClient.executeTool(serverName, toolName, params);
+      // Only workspace servers take project paths; others (e.g. GitHub) use paths of their own
+      const args = mcpClient.isWorkspaceServer(serverName) ? sandboxMCPParams(params) : params;
+      const result = await mcpClient.executeTool(serverName, toolName, args, signal);
 
       if (!result.success) {
         return {
@@ -82,15 +214,27 @@ class ToolRegistry {
         output: JSON.stringify(result.output, null, 2),
         data: result.output,
       };
-    } catch (error) {
+    } catch (error: any) {
       return {
         success: false,
         output: '',
         error: error instanceof Error ? error.message : String(error),
+        data: isPathError(error) ? { code: error.code, path: error.path } : undefined,
       };
     }
   }
 
+  // Compute the change a tool would make, for approval UIs (null if the tool has no preview)
+  async preview(toolName: string, params: any, context: ToolContext = {}): Promise<CodeDiff | null> {
+    const tool = this.tools.get(toolName);
+    if (!tool?.preview) return null;
+    return tool.preview(params, context);
+  }
+
+  getTool(name: string): Tool | undefined {
+    return this.tools.get(name);
+  }
+
   listTools(): Tool[] {
     return Array.from(this.tools.values());
   }
@@ -112,39 +256,59 @@ class ToolRegistry {
       })
       .join('\n\n');
 
-    return builtInTools + mcpTools;
+    const paging = `## Long output
+Output longer than the budget is cut off with "${MORE_OUTPUT_MARKER}: ... offset: N]". To read on, call the same tool again with the same parameters plus:
+  - ${OUTPUT_OFFSET_PARAMETER.name}: ${OUTPUT_OFFSET_PARAMETER.type} (optional) - ${OUTPUT_OFFSET_PARAMETER.description}`;
+
+    return `${builtInTools}\n\n${paging}${mcpTools}`;
   }
 
   private registerBuiltInTools(): void {
-    const resolvePath = (inputPath?: string): string => {
-      const root = fileManager.getProjectRoot();
-      const normalizedRoot = root.endsWith('/') ? root.slice(0, -1) : root;
-      if (!inputPath) return normalizedRoot || root;
-      if (inputPath.startsWith('file://')) return inputPath;
-      if (normalizedRoot && inputPath.startsWith(normalizedRoot)) return inputPath;
-      const clean = inputPath.startsWith('/') ? inputPath.slice(1) : inputPath;
-      return normalizedRoot ? `${normalizedRoot}/${clean}` : clean;
-    };
+    const resolvePath = (inputPath?: string): string => resolveProjectPath(inputPath).uri;
 
     // File operations
     this.register({
       name: 'read_file',
-      description: 'Read the contents of a file',
+      description: 'Read a file, or a range of its lines. Output starts with the total line count and prefixes each line with its number and a tab; the numbers are not part of the file, so leave them out of edit_file search text.',
       parameters: [
         { name: 'path', type: 'string', description: 'File path to read', required: true },
+        { name: 'startLine', type: 'number', description: 'First line to read, 1-based (default: 1)', required: false },
+        { name: 'endLine', type: 'number', description: 'Last line to read, inclusive (default: end of file)', required: false },
       ],
-      execute: async (params) => {
-        const content = await fileManager.readFile(resolvePath(params.path));
-        return { success: true, output: content };
+      execute: async (params, context) => {
+        const content = await projectFiles(context).readFile(resolvePath(params.path));
+        const lines = content.split('\n');
+        const totalLines = lines.length;
+        const startLine = Math.max(1, Math.floor(Number(params.startLine)) || 1);
+        const endLine = Math.min(totalLines, Math.floor(Number(params.endLine)) || totalLines);
+        if (startLine > totalLines || endLine < startLine) {
+          return {
+            success: false,
+            output: '',
+            error: `Line range ${startLine}-${params.endLine ?? totalLines} is outside ${params.path} (${totalLines} lines)`,
+          };
+        }
+
+        const numbered = lines
+          .slice(startLine - 1, endLine)
+          .map((line, i) => `${startLine + i}\t${line}`)
+          .join('\n');
+        const range = startLine === 1 && endLine === totalLines ? `${totalLines} line${totalLines === 1 ? '' : 's'}` : `lines ${startLine}-${endLine} of ${totalLines}`;
+        return {
+          success: true,
+          output: `${params.path} (${range})\n${numbered}`,
+          data: { content: lines.slice(startLine - 1, endLine).join('\n'), startLine, endLine, totalLines },
+        };
       },
       requiresApproval: false,
+      readOnly: true,
     });
 
     this.register({
       name: 'open_html_preview',
       description: 'Open the in-app HTML preview for a local HTML file',
       parameters: [
-        { name: 'path', type: 'string', description: 'Path to the HTML file (relative to project root or absolute file://)', required: true },
+        { name: 'path', type: 'string', description: 'Path to the HTML file (relative to project root)', required: true },
         { name: 'name', type: 'string', description: 'Optional display name for the preview', required: false },
       ],
       execute: async (params) => {
@@ -157,13 +321,14 @@ class ToolRegistry {
         return { success: true, output: `Opened HTML preview: ${resolvedPath}` };
       },
       requiresApproval: false,
+      usesDisk: true,
     });
 
     this.register({
       name: 'open_react_preview',
       description: 'Open the in-app React preview for a local React file (.jsx/.tsx)',
       parameters: [
-        { name: 'path', type: 'string', description: 'Path to the React file (relative to project root or absolute file://)', required: true },
+        { name: 'path', type: 'string', description: 'Path to the React file (relative to project root)', required: true },
         { name: 'name', type: 'string', description: 'Optional display name for the preview', required: false },
       ],
       execute: async (params) => {
@@ -176,6 +341,7 @@ class ToolRegistry {
         return { success: true, output: `Opened React preview: ${resolvedPath}` };
       },
       requiresApproval: false,
+      usesDisk: true,
     });
 
     this.register({
@@ -196,6 +362,7 @@ class ToolRegistry {
         };
       },
       requiresApproval: false,
+      readOnly: true,
     });
 
     this.register({
@@ -227,23 +394,77 @@ class ToolRegistry {
         { name: 'path', type: 'string', description: 'File path to write', required: true },
         { name: 'content', type: 'string', description: 'Content to write', required: true },
       ],
-      execute: async (params) => {
+      execute: async (params, context) => {
         const resolvedPath = resolvePath(params.path);
-        await fileManager.writeFile(resolvedPath, params.content);
+        await projectFiles(context).writeFile(resolvedPath, params.content);
         return { success: true, output: `File written: ${resolvedPath}` };
       },
       requiresApproval: true,
     });
 
+    const previewEdit = async (params: any, context?: ToolContext): Promise<CodeDiff> => {
+      const resolvedPath = resolvePath(params.path);
+      const oldCode = await projectFiles(context).readFile(resolvedPath);
+      const { content } = applyEditParams(oldCode, params);
+      return {
+        filename: params.path,
+        oldCode,
+        newCode: content,
+        language: resolvedPath.split('.').pop()?.toLowerCase() || 'text',
+      };
+    };
+
+    this.register({
+      name: 'edit_file',
+      description: 'Edit part of an existing file. Pass either search/replace (exact text that must match once), a list of edits, or a unified diff patch. Prefer this over write_file for small changes.',
+      parameters: [
+        { name: 'path', type: 'string', description: 'File path to edit', required: true },
+        { name: 'search', type: 'string', description: 'Exact existing text to replace (must match exactly once)', required: false },
+        { name: 'replace', type: 'string', description: 'Replacement text for search', required: false },
+        {
+          name: 'edits',
+          type: 'array',
+          description: 'Multiple search/replace blocks applied in order',
+          required: false,
+          items: {
+            type: 'object',
+            properties: { search: { type: 'string' }, replace: { type: 'string' } },
+            required: ['search', 'replace'],
+          },
+        },
+        { name: 'patch', type: 'string', description: 'Unified diff for this file (with @@ hunk headers)', required: false },
+      ],
+      execute: async (params, context) => {
+        const resolvedPath = resolvePath(params.path);
+        if (!(await projectFiles(context).fileExists(resolvedPath))) {
+          return { success: false, output: '', error: `File not found: ${params.path}. Use write_file to create it.` };
+        }
+        const original = await projectFiles(context).readFile(resolvedPath);
+        try {
+          const { content, ...stats } = applyEditParams(original, params);
+          await projectFiles(context).writeFile(resolvedPath, content);
+          return {
+            success: true,
+            output: `Edited ${params.path}: ${stats.applied} change${stats.applied === 1 ? '' : 's'} applied (+${stats.added} -${stats.removed} lines)`,
+            data: { path: resolvedPath, ...stats },
+          };
+        } catch (error: any) {
+          return { success: false, output: '', error: error.message, data: { code: error.code } };
+        }
+      },
+      preview: previewEdit,
+      requiresApproval: true,
+    });
+
     this.register({
       name: 'create_file',
       description: 'Create a new empty file',
       parameters: [
         { name: 'path', type: 'string', description: 'File path to create', required: true },
       ],
-      execute: async (params) => {
+      execute: async (params, context) => {
         const resolvedPath = resolvePath(params.path);
-        await fileManager.createFile(resolvedPath);
+        await projectFiles(context).createFile(resolvedPath);
         return { success: true, output: `File created: ${resolvedPath}` };
       },
       requiresApproval: true,
@@ -255,9 +476,9 @@ class ToolRegistry {
       parameters: [
         { name: 'path', type: 'string', description: 'File/folder path to delete', required: true },
       ],
-      execute: async (params) => {
+      execute: async (params, context) => {
         const resolvedPath = resolvePath(params.path);
-        await fileManager.deleteFile(resolvedPath);
+        await projectFiles(context).deleteFile(resolvedPath);
         return { success: true, output: `Deleted: ${resolvedPath}` };
       },
       requiresApproval: true,
@@ -269,79 +490,141 @@ class ToolRegistry {
       parameters: [
         { name: 'path', type: 'string', description: 'Directory path (default: project root)', required: false },
       ],
-      execute: async (params) => {
+      execute: async (params, context) => {
         const path = resolvePath(params.path);
-        const files = await fileManager.listFiles(path);
+        const files = await projectFiles(context).listFiles(path);
         const fileList = files.map(f => `${f.type === 'folder' ? '[DIR]' : '[FILE]'} ${f.name}`).join('\n');
         return { success: true, output: fileList || 'Empty directory', data: files };
       },
       requiresApproval: false,
+      readOnly: true,
     });
 
     this.register({
       name: 'search_files',
-      description: 'Search for text across all files',
+      description: 'Search file contents across the project. Plain text by default; set regex for a regular expression. Narrow with include/exclude globs (e.g. "src/**/*.tsx", "dist"). Files ignored by .gitignore are skipped. Output is "path:line: text" with context lines as "path-line- text".',
       parameters: [
-        { name: 'query', type: 'string', description: 'Text to search for', required: true },
+        { name: 'query', type: 'string', description: 'Text or regular expression to search for', required: true },
+        { name: 'regex', type: 'boolean', description: 'Treat query as a regular expression (default: false)', required: false },
+        { name: 'caseSensitive', type: 'boolean', description: 'Match case exactly (default: false)', required: false },
+        { name: 'wholeWord', type: 'boolean', description: 'Only match whole words (default: false)', required: false },
+        { name: 'include', type: 'array', description: 'Only search files matching these globs', required: false },
+        { name: 'exclude', type: 'array', description: 'Skip files or folders matching these globs', required: false },
+        { name: 'contextLines', type: 'number', description: 'Lines of context before and after each match (default: 0, max 10)', required: false },
+        { name: 'maxResults', type: 'number', description: `Stop after this many matches (default: ${DEFAULT_MAX_RESULTS})`, required: false },
+        { name: 'respectGitignore', type: 'boolean', description: 'Skip files ignored by .gitignore (default: true)', required: false },
       ],
-      execute: async (params) => {
-        // Use the existing file search logic
-        const tree = await fileManager.scanProject();
-        const results: string[] = [];
-
-        const searchInNode = async (node: any, depth: number = 0): Promise<void> => {
-          if (node.type === 'file') {
-            try {
-              const content = await fileManager.readFile(node.path);
-              const lines = content.split('\n');
-              lines.forEach((line, index) => {
-                if (line.toLowerCase().includes(params.query.toLowerCase())) {
-                  results.push(`${node.path}:${index + 1}: ${line.trim()}`);
-                }
-              });
-            } catch (e) {
-              // Skip unreadable files
-            }
-          }
-          if (node.children) {
-            for (const child of node.children) {
-              await searchInNode(child, depth + 1);
-            }
-          }
-        };
-
-        if (tree.children) {
-          for (const child of tree.children) {
-            await searchInNode(child);
-          }
-        }
+      execute: async (params, context) => {
+        const results = await searchProject({
+          query: params.query,
+          regex: !!params.regex,
+          caseSensitive: !!params.caseSensitive,
+          wholeWord: !!params.wholeWord,
+          include: toList(params.include),
+          exclude: toList(params.exclude),
+          contextLines: Number(params.contextLines) || 0,
+          maxResults: Number(params.maxResults) || undefined,
+          respectGitignore: params.respectGitignore !== false,
+        }, projectFiles(context));
 
         return {
           success: true,
-          output: results.length > 0 ? results.join('\n') : 'No matches found',
-          data: { matchCount: results.length, results },
+          output: formatSearchResults(results),
+          data: {
+            matchCount: results.matchCount,
+            truncated: results.truncated,
+            results: results.files.flatMap((file) => file.matches.map((m) => `${file.path}:${m.line}: ${m.text.trim()}`)),
+          },
         };
       },
       requiresApproval: false,
+      readOnly: true,
     });
 
-    // Terminal commands (emulated)
+    // Auto sync: push local edits before a remote command, pull its output files after
+    const syncAroundCommand = async (): Promise<string | null> => {
+      if (!(await projectSync.isAutoSyncEnabled())) return null;
+      try {
+        const report = await projectSync.sync();
+        return report.conflicts.length > 0
+          ? `Sync conflicts (resolve in Explorer): ${report.conflicts.join(', ')}`
+          : null;
+      } catch (error: any) {
+        return `Sync failed: ${error.message}`;
+      }
+    };
+
+    const runRemoteCommand = async (command: string, args: string[], params: any, signal?: AbortSignal): Promise<ToolResult> => {
+      let lastLine = '';
+      try {
+        const syncBefore = await syncAroundCommand();
+        const result = await remoteShell.exec(command, args.map(String), {
+          cwd: params.cwd ? resolveWorkspacePath(String(params.cwd)) : undefined,
+          timeoutMs: params.timeout ? Number(params.timeout) * 1000 : undefined,
+          signal,
+          onOutput: (chunk) => {
+            // Surface the latest output line as live progress
+            const line = chunk.split('\n').map((l) => l.trim()).filter(Boolean).pop();
+            if (line && line !== lastLine) {
+              lastLine = line;
+              backgroundTaskManager.updateTask({ currentStep: `${command}: ${line.substring(0, 80)}` });
+            }
+          },
+        });
+        const syncAfter = await syncAroundCommand();
+
+        const status = result.timedOut
+          ? `Timed out after ${(result.durationMs / 1000).toFixed(1)}s`
+          : `Exit code: ${result.exitCode ?? result.signal} (${(result.durationMs / 1000).toFixed(1)}s)`;
+        const output = [
+          `$ ${[command, ...args].join(' ')}`,
+          result.stdout.trimEnd(),
+          result.stderr.trim() ? `[stderr]\n${result.stderr.trimEnd()}` : '',
+          status,
+          syncBefore,
+          syncAfter,
+        ].filter(Boolean).join('\n');
+        const success = result.exitCode === 0 && !result.timedOut;
+
+        return {
+          success,
+          output,
+          error: success ? undefined : status,
+          data: result,
+        };
+      } catch (error: any) {
+        return { success: false, output: '', error: error.message, data: { code: error.code } };
+      }
+    };
+
+    // Terminal commands (remote shell via the MCP proxy, or emulated)
     this.register({
       name: 'run_command',
-      description: 'Execute a terminal command (emulated for common commands)',
+      description: 'Execute a terminal command. Runs in the MCP proxy workspace when Remote Shell is enabled (npm, node, tsc, git...); otherwise emulates ls, pwd, mkdir, touch, cat, rm, grep, head, tail, wc, cp, mv',
       parameters: [
-        { name: 'command', type: 'string', description: 'Command to execute (e.g., ls, pwd, mkdir)', required: true },
+        { name: 'command', type: 'string', description: 'Command to execute (e.g., npm, ls, pwd)', required: true },
         { name: 'args', type: 'array', description: 'Command arguments', required: false, default: [] },
+        { name: 'cwd', type: 'string', description: 'Working directory relative to the workspace (remote shell only)', required: false },
+        { name: 'timeout', type: 'number', description: 'Timeout in seconds (remote shell only)', required: false },
       ],
-      execute: async (params) => {
+      execute: async (params, context) => {
         const { command, args = [] } = params;
         const cmdArgs = Array.isArray(args) ? args : [args];
 
+        if (await remoteShell.isEnabled()) {
+          if (context?.files?.dryRun) {
+            return notSimulated(`run_command (${[command, ...cmdArgs].join(' ')})`);
+          }
+          // The remote workspace is synced from disk
+          await context?.files?.flush();
+          return runRemoteCommand(command, cmdArgs, params, context?.signal);
+        }
+
         // Emulated commands
         switch (command) {
           case 'ls':
           case 'dir':
-            const files = await fileManager.listFiles();
+            const files = await projectFiles(context).listFiles();
             const output = files.map(f => `${f.type === 'folder' ? '📁' : '📄'} ${f.name}`).join('\n');
             return { success: true, output };
 
@@ -352,28 +635,28 @@ class ToolRegistry {
             if (cmdArgs.length === 0) {
               return { success: false, output: '', error: 'mkdir requires a directory name' };
             }
-            await fileManager.createFolder(`${fileManager.getProjectRoot()}/${cmdArgs[0]}`);
+            await projectFiles(context).createFolder(resolvePath(cmdArgs[0]));
             return { success: true, output: `Directory created: ${cmdArgs[0]}` };
 
           case 'touch':
             if (cmdArgs.length === 0) {
               return { success: false, output: '', error: 'touch requires a filename' };
             }
-            await fileManager.createFile(`${fileManager.getProjectRoot()}/${cmdArgs[0]}`);
+            await projectFiles(context).createFile(resolvePath(cmdArgs[0]));
             return { success: true, output: `File created: ${cmdArgs[0]}` };
 
           case 'cat':
             if (cmdArgs.length === 0) {
               return { success: false, output: '', error: 'cat requires a filename' };
             }
-            const content = await fileManager.readFile(`${fileManager.getProjectRoot()}/${cmdArgs[0]}`);
+            const content = await projectFiles(context).readFile(resolvePath(cmdArgs[0]));
             return { success: true, output: content };
 
           case 'rm':
             if (cmdArgs.length === 0) {
               return { success: false, output: '', error: 'rm requires a filename' };
             }
-            await fileManager.deleteFile(`${fileManager.getProjectRoot()}/${cmdArgs[0]}`);
+            await projectFiles(context).deleteFile(resolvePath(cmdArgs[0]));
             return { success: true, output: `Deleted: ${cmdArgs[0]}` };
 
           case 'grep':
@@ -381,7 +664,7 @@ class ToolRegistry {
               return { success: false, output: '', error: 'grep requires pattern and filename' };
             }
             const [pattern, ...grepFiles] = cmdArgs;
-            const fileContent = await fileManager.readFile(`${fileManager.getProjectRoot()}/${grepFiles[0]}`);
+            const fileContent = await projectFiles(context).readFile(resolvePath(grepFiles[0]));
             const grepLines = fileContent.split('\n');
             const matches = grepLines
               .map((line, i) => (line.toLowerCase().includes(pattern.toLowerCase()) ? `${i + 1}: ${line}` : null))
@@ -392,7 +675,7 @@ class ToolRegistry {
             if (cmdArgs.length === 0) {
               return { success: false, output: '', error: 'head requires a filename' };
             }
-            const headContent = await fileManager.readFile(`${fileManager.getProjectRoot()}/${cmdArgs[0]}`);
+            const headContent = await projectFiles(context).readFile(resolvePath(cmdArgs[0]));
             const headLines = cmdArgs[1] ? parseInt(cmdArgs[1]) : 10;
             return { success: true, output: headContent.split('\n').slice(0, headLines).join('\n') };
 
@@ -400,7 +683,7 @@ class ToolRegistry {
             if (cmdArgs.length === 0) {
               return { success: false, output: '', error: 'tail requires a filename' };
             }
-            const tailContent = await fileManager.readFile(`${fileManager.getProjectRoot()}/${cmdArgs[0]}`);
+            const tailContent = await projectFiles(context).readFile(resolvePath(cmdArgs[0]));
             const tailLines = cmdArgs[1] ? parseInt(cmdArgs[1]) : 10;
             return { success: true, output: tailContent.split('\n').slice(-tailLines).join('\n') };
 
@@ -408,7 +691,7 @@ class ToolRegistry {
             if (cmdArgs.length === 0) {
               return { success: false, output: '', error: 'wc requires a filename' };
             }
-            const wcContent = await fileManager.readFile(`${fileManager.getProjectRoot()}/${cmdArgs[0]}`);
+            const wcContent = await projectFiles(context).readFile(resolvePath(cmdArgs[0]));
             const wcLines = wcContent.split('\n').length;
             const wcWords = wcContent.split(/\s+/).filter(w => w.length > 0).length;
             const wcChars = wcContent.length;
@@ -418,24 +701,24 @@ class ToolRegistry {
             if (cmdArgs.length < 2) {
               return { success: false, output: '', error: 'cp requires source and destination' };
             }
-            const cpContent = await fileManager.readFile(`${fileManager.getProjectRoot()}/${cmdArgs[0]}`);
-            await fileManager.writeFile(`${fileManager.getProjectRoot()}/${cmdArgs[1]}`, cpContent);
+            const cpContent = await projectFiles(context).readFile(resolvePath(cmdArgs[0]));
+            await projectFiles(context).writeFile(resolvePath(cmdArgs[1]), cpContent);
             return { success: true, output: `Copied ${cmdArgs[0]} to ${cmdArgs[1]}` };
 
           case 'mv':
             if (cmdArgs.length < 2) {
               return { success: false, output: '', error: 'mv requires source and destination' };
             }
-            const mvContent = await fileManager.readFile(`${fileManager.getProjectRoot()}/${cmdArgs[0]}`);
-            await fileManager.writeFile(`${fileManager.getProjectRoot()}/${cmdArgs[1]}`, mvContent);
-            await fileManager.deleteFile(`${fileManager.getProjectRoot()}/${cmdArgs[0]}`);
+            const mvContent = await projectFiles(context).readFile(resolvePath(cmdArgs[0]));
+            await projectFiles(context).writeFile(resolvePath(cmdArgs[1]), mvContent);
+            await projectFiles(context).deleteFile(resolvePath(cmdArgs[0]));
             return { success: true, output: `Moved ${cmdArgs[0]} to ${cmdArgs[1]}` };
 
           default:
             return {
               success: false,
               output: '',
-              error: `Command "${command}" not supported. Supported: ls, pwd, mkdir, touch, cat, rm, grep, head, tail, wc, cp, mv`,
+              error: `Command "${command}" not supported. Supported: ls, pwd, mkdir, touch, cat, rm, grep, head, tail, wc, cp, mv. Enable Remote Shell (MCP Servers) to run other commands on the proxy.`,
             };
         }
       },
@@ -449,8 +732,8 @@ class ToolRegistry {
       parameters: [
         { name: 'pattern', type: 'string', description: 'File name pattern (e.g., "*.tsx", "test.*")', required: true },
       ],
-      execute: async (params) => {
-        const tree = await fileManager.scanProject();
+      execute: async (params, context) => {
+        const tree = await projectFiles(context).scanProject();
         const matches: string[] = [];
 
         const searchNode = (node: any) => {
@@ -473,6 +756,7 @@ class ToolRegistry {
         };
       },
       requiresApproval: false,
+      readOnly: true,
     });
 
     this.register({
@@ -482,24 +766,95 @@ class ToolRegistry {
         { name: 'path', type: 'string', description: 'File path', required: true },
         { name: 'content', type: 'string', description: 'Content to append', required: true },
       ],
-      execute: async (params) => {
+      execute: async (params, context) => {
         const resolvedPath = resolvePath(params.path);
-        const existing = await fileManager.readFile(resolvedPath);
-        await fileManager.writeFile(resolvedPath, existing + '\n' + params.content);
+        const existing = await projectFiles(context).readFile(resolvedPath);
+        await projectFiles(context).writeFile(resolvedPath, existing + '\n' + params.content);
         return { success: true, output: `Appended to: ${resolvedPath}` };
       },
       requiresApproval: true,
     });
 
+    const toReplaceOptions = (params: any): ReplaceOptions => ({
+      query: params.query,
+      replacement: params.replacement ?? '',
+      regex: !!params.regex,
+      caseSensitive: !!params.caseSensitive,
+      wholeWord: !!params.wholeWord,
+      include: toList(params.include),
+      exclude: toList(params.exclude),
+      respectGitignore: params.respectGitignore !== false,
+    });
+
+    this.register({
+      name: 'replace_in_files',
+      description: 'Find and replace text across the project (rename a string, import path or CSS class). Set regex to use a regular expression; the replacement can use $1, $<name> and $& for capture groups. Narrow with include/exclude globs. Use search_files first to check what will match.',
+      parameters: [
+        { name: 'query', type: 'string', description: 'Text or regular expression to find', required: true },
+        { name: 'replacement', type: 'string', description: 'Replacement text', required: true },
+        { name: 'regex', type: 'boolean', description: 'Treat query as a regular expression (default: false)', required: false },
+        { name: 'caseSensitive', type: 'boolean', description: 'Match case exactly (default: false)', required: false },
+        { name: 'wholeWord', type: 'boolean', description: 'Only match whole words (default: false)', required: false },
+        { name: 'include', type: 'array', description: 'Only change files matching these globs', required: false },
+        { name: 'exclude', type: 'array', description: 'Skip files or folders matching these globs', required: false },
+      ],
+      execute: async (params, context) => {
+        const { changes, truncated } = await replaceInProject(toReplaceOptions(params), projectFiles(context));
+        if (changes.length === 0) {
+          return { success: true, output: 'No matches found; nothing was replaced', data: { files: [], replacements: 0 } };
+        }
+        const replacements = changes.reduce((sum, change) => sum + change.count, 0);
+        const lines = changes.map((change) => `${change.path}: ${change.count} replacement${change.count === 1 ? '' : 's'}`);
+        return {
+          success: true,
+          output: `Replaced ${replacements} match${replacements === 1 ? '' : 'es'} in ${changes.length} file${changes.length === 1 ? '' : 's'}:\n${lines.join('\n')}${
+            truncated ? `\n(Stopped at ${MAX_REPLACE_MATCHES} matches; run it again for the rest)` : ''}`,
+          data: { files: changes.map((change) => change.path), replacements, truncated },
+        };
+      },
+      preview: async (params, context) => {
+        const options = toReplaceOptions(params);
+        const files = projectFiles(context);
+        const results = await searchProject({ ...options, maxResults: MAX_REPLACE_MATCHES }, files);
+        return buildChangeDiff(await computeReplacements(results, options, new Set(), files));
+      },
+      requiresApproval: true,
+    });
+
+    this.register({
+      name: 'remember',
+      description: `Save a lasting fact or instruction about this project (conventions, commands, decisions) to ${MEMORY_PATH}. It is loaded into every future conversation. The user confirms each fact.`,
+      parameters: [
+        { name: 'fact', type: 'string', description: 'One short fact or instruction, e.g. "Use pnpm, not npm"', required: true },
+      ],
+      execute: async (params, context) => {
+        if (!params.fact?.trim()) {
+          return { success: false, output: '', error: 'fact is required' };
+        }
+        await projectMemory.remember(params.fact, projectFiles(context));
+        return { success: true, output: `Remembered in ${MEMORY_PATH}: ${params.fact.trim()}` };
+      },
+      preview: async (params, context) => {
+        const oldCode = await projectMemory.read(projectFiles(context));
+        return {
+          filename: MEMORY_PATH,
+          oldCode,
+          newCode: projectMemory.withFact(oldCode, params.fact || ''),
+          language: 'md',
+        };
+      },
+      requiresApproval: true,
+    });
+
     this.register({
       name: 'file_info',
       description: 'Get file information (size, line count, type)',
       parameters: [
         { name: 'path', type: 'string', description: 'File path', required: true },
       ],
-      execute: async (params) => {
+      execute: async (params, context) => {
         const resolvedPath = resolvePath(params.path);
-        const content = await fileManager.readFile(resolvedPath);
+        const content = await projectFiles(context).readFile(resolvedPath);
         const lines = content.split('\n').length;
         const words = content.split(/\s+/).filter(w => w.length > 0).length;
         const chars = content.length;
@@ -512,6 +867,7 @@ class ToolRegistry {
         };
       },
       requiresApproval: false,
+      readOnly: true,
     });
 
     this.register({
@@ -520,16 +876,16 @@ class ToolRegistry {
       parameters: [
         { name: 'path', type: 'string', description: 'File path or "all" for entire project', required: false, default: 'all' },
       ],
-      execute: async (params) => {
+      execute: async (params, context) => {
         if (params.path === 'all') {
-          const tree = await fileManager.scanProject();
+          const tree = await projectFiles(context).scanProject();
           let totalLines = 0;
           let fileCount = 0;
 
           const countNode = async (node: any) => {
             if (node.type === 'file') {
               try {
-                const content = await fileManager.readFile(node.path);
+                const content = await projectFiles(context).readFile(node.path);
                 totalLines += content.split('\n').length;
                 fileCount++;
               } catch (e) {
@@ -556,7 +912,7 @@ class ToolRegistry {
           };
         } else {
           const resolvedPath = resolvePath(params.path);
-          const content = await fileManager.readFile(resolvedPath);
+          const content = await projectFiles(context).readFile(resolvedPath);
           const lines = content.split('\n').length;
           return {
             success: true,
@@ -566,6 +922,7 @@ class ToolRegistry {
         }
       },
       requiresApproval: false,
+      readOnly: true,
     });
 
     this.register({
@@ -574,8 +931,8 @@ class ToolRegistry {
       parameters: [
         { name: 'path', type: 'string', description: 'File path', required: true },
       ],
-      execute: async (params) => {
-        const content = await fileManager.readFile(resolvePath(params.path));
+      execute: async (params, context) => {
+        const content = await projectFiles(context).readFile(resolvePath(params.path));
         const imports = content.match(/^import .*$/gm);
 
         return {
@@ -585,6 +942,63 @@ class ToolRegistry {
         };
       },
       requiresApproval: false,
+      readOnly: true,
+    });
+
+    this.register({
+      name: 'find_symbol',
+      description: 'Find where functions, components, classes, types and constants are declared in the project\'s TS/JS files, by name. Exact matches come first, then names starting with or containing the query. Faster than listing folders to locate code.',
+      parameters: [
+        { name: 'query', type: 'string', description: 'Symbol name or part of it', required: true },
+        { name: 'kind', type: 'string', description: 'Only this kind: function, component, class, interface, type, enum or variable', required: false },
+        { name: 'exportedOnly', type: 'boolean', description: 'Only exported symbols (default: false)', required: false },
+      ],
+      execute: async (params, context) => {
+        const symbols = await symbolIndex.findSymbols(String(params.query || ''), {
+          kind: params.kind || undefined,
+          exportedOnly: !!params.exportedOnly,
+        }, projectFiles(context));
+
+        return {
+          success: true,
+          output: symbols.length > 0 ? formatSymbols(symbols) : `No symbols matching "${params.query}"`,
+          data: { symbols },
+        };
+      },
+      requiresApproval: false,
+      readOnly: true,
+    });
+
+    this.register({
+      name: 'find_references',
+      description: 'Find the definition and every use of a symbol name in the project\'s TS/JS files (whole word, case-sensitive). Output is "path:line: text".',
+      parameters: [
+        { name: 'name', type: 'string', description: 'Exact symbol name', required: true },
+        { name: 'maxResults', type: 'number', description: `Stop after this many uses (default: ${DEFAULT_MAX_RESULTS})`, required: false },
+      ],
+      execute: async (params, context) => {
+        const { definitions, results } = await symbolIndex.findReferences(
+          String(params.name || ''),
+          Number(params.maxResults) || undefined,
+          projectFiles(context)
+        );
+        const defined = definitions.length > 0
+          ? `Defined at:\n${formatSymbols(definitions)}`
+          : `No declaration of "${params.name}" found in the project`;
+
+        return {
+          success: true,
+          output: `${defined}\n\nReferences:\n${formatSearchResults(results)}`,
+          data: {
+            definitions,
+            matchCount: results.matchCount,
+            truncated: results.truncated,
+            results: results.files.flatMap((file) => file.matches.map((m) => `${file.path}:${m.line}: ${m.text.trim()}`)),
+          },
+        };
+      },
+      requiresApproval: false,
+      readOnly: true,
     });
 
     // Code generation helpers
@@ -596,10 +1010,10 @@ class ToolRegistry {
         { name: 'type', type: 'string', description: 'Component type: "react" or "react-native"', required: false, default: 'react-native' },
         { name: 'path', type: 'string', description: 'File path (default: components/Name.tsx)', required: false },
       ],
-      execute: async (params) => {
+      execute: async (params, context) => {
         const { name, type, path } = params;
         const isRN = type === 'react-native';
-        const filePath = resolvePath(path || `${fileManager.getProjectRoot()}/components/${name}.tsx`);
+        const filePath = resolvePath(path || `components/${name}.tsx`);
 
         const template = isRN
           ? `import React from 'react';
@@ -632,7 +1046,7 @@ export function ${name}() {
 }
 `;
 
-        await fileManager.writeFile(filePath, template);
+        await projectFiles(context).writeFile(filePath, template);
         return {
           success: true,
           output: `Created ${type} component: ${filePath}`,
@@ -677,6 +1091,7 @@ export function ${name}() {
         }
       },
       requiresApproval: false,
+      readOnly: true,
     });
 
     this.register({
@@ -687,10 +1102,10 @@ export function ${name}() {
         { name: 'version', type: 'string', description: 'Version (default: latest)', required: false },
         { name: 'type', type: 'string', description: '"dependencies" or "devDependencies"', required: false, default: 'dependencies' },
       ],
-      execute: async (params) => {
+      execute: async (params, context) => {
         try {
-          const packageJsonPath = `${fileManager.getProjectRoot()}/package.json`;
-          const packageJson = JSON.parse(await fileManager.readFile(packageJsonPath));
+          const packageJsonPath = resolvePath('package.json');
+          const packageJson = JSON.parse(await projectFiles(context).readFile(packageJsonPath));
 
           const depType = params.type === 'devDependencies' ? 'devDependencies' : 'dependencies';
           packageJson[depType] = packageJson[depType] || {};
@@ -701,7 +1116,7 @@ export function ${name}() {
             packageJson[depType][params.package] = 'latest';
           }
 
-          await fileManager.writeFile(packageJsonPath, JSON.stringify(packageJson, null, 2));
+          await projectFiles(context).writeFile(packageJsonPath, JSON.stringify(packageJson, null, 2));
 
           return {
             success: true,
@@ -728,7 +1143,7 @@ export function ${name}() {
         { name: 'version', type: 'string', description: 'Specific version (default: latest)', required: false },
         { name: 'type', type: 'string', description: '"dependencies" or "devDependencies"', required: false, default: 'dependencies' },
       ],
-      execute: async (params) => {
+      execute: async (params, context) => {
         try {
           // First, get package info from npm registry
           const response = await fetch(`https://registry.npmjs.org/${params.package}`);
@@ -743,14 +1158,14 @@ export function ${name}() {
           const version = params.version || data['dist-tags']?.latest || 'latest';
 
           // Update package.json
-          const packageJsonPath = `${fileManager.getProjectRoot()}/package.json`;
-          const packageJson = JSON.parse(await fileManager.readFile(packageJsonPath));
+          const packageJsonPath = resolvePath('package.json');
+          const packageJson = JSON.parse(await projectFiles(context).readFile(packageJsonPath));
 
           const depType = params.type === 'devDependencies' ? 'devDependencies' : 'dependencies';
           packageJson[depType] = packageJson[depType] || {};
           packageJson[depType][params.package] = version;
 
-          await fileManager.writeFile(packageJsonPath, JSON.stringify(packageJson, null, 2));
+          await projectFiles(context).writeFile(packageJsonPath, JSON.stringify(packageJson, null, 2));
 
           // Get latest version info for display
           const latestInfo = data.versions?.[version] || {};
@@ -795,6 +1210,7 @@ export function ${name}() {
         }
       },
       requiresApproval: true,
+      usesDisk: true,
     });
 
     this.register({
@@ -842,6 +1258,8 @@ export function ${name}() {
         }
       },
       requiresApproval: false,
+      readOnly: true,
+      usesDisk: true,
     });
 
     this.register({
@@ -852,7 +1270,8 @@ export function ${name}() {
       ],
       execute: async (params) => {
         try {
-          const files = Array.isArray(params.files) ? params.files : [params.files];
+          const files = (Array.isArray(params.files) ? params.files : [params.files])
+            .map((file: string) => (file === '.' ? file : resolveProjectPath(file).relative || '.'));
           await gitService.add(files);
           const fileCount = files.length === 1 && files[0] === '.' ? 'all' : files.length;
           return {
@@ -860,15 +1279,17 @@ export function ${name}() {
             output: `Staged ${fileCount === 'all' ? 'all files' : fileCount + ' file(s)'}`,
             data: { files, count: fileCount },
           };
-        } catch (error) {
+        } catch (error: any) {
           return {
             success: false,
             output: '',
             error: error instanceof Error ? error.message : String(error),
+            data: isPathError(error) ? { code: error.code, path: error.path } : undefined,
           };
         }
       },
       requiresApproval: false,
+      usesDisk: true,
     });
 
     this.register({
@@ -899,6 +1320,7 @@ export function ${name}() {
         }
       },
       requiresApproval: true,
+      usesDisk: true,
     });
 
     this.register({
@@ -927,6 +1349,8 @@ export function ${name}() {
         }
       },
       requiresApproval: false,
+      readOnly: true,
+      usesDisk: true,
     });
 
     this.register({
@@ -952,6 +1376,7 @@ export function ${name}() {
         }
       },
       requiresApproval: true,
+      usesDisk: true,
     });
 
     this.register({
@@ -983,6 +1408,7 @@ export function ${name}() {
         }
       },
       requiresApproval: true,
+      usesDisk: true,
     });
 
     this.register({
@@ -1019,6 +1445,7 @@ export function ${name}() {
         }
       },
       requiresApproval: true,
+      usesDisk: true,
     });
 
     this.register({
@@ -1032,6 +1459,8 @@ export function ${name}() {
       ],
       execute: async (params) => {
         try {
+          // With "Lock Secrets" on, every agent push needs biometrics or the device passcode
+          await secrets.requireUnlock('Authenticate to let the agent push');
           await gitService.push({
             remote: params.remote,
             ref: params.ref,
@@ -1051,6 +1480,7 @@ export function ${name}() {
         }
       },
       requiresApproval: true,
+      usesDisk: true,
     });
 
 
@@ -1060,13 +1490,13 @@ export function ${name}() {
       parameters: [
         { name: 'name', type: 'string', description: 'Project name', required: true },
       ],
-      execute: async (params) => {
+      execute: async (params, context) => {
         const folders = ['components', 'utils', 'constants', 'hooks', 'services', 'types'];
         const created: string[] = [];
 
         for (const folder of folders) {
           try {
-            await fileManager.createFolder(`${fileManager.getProjectRoot()}/${folder}`);
+            await projectFiles(context).createFolder(resolvePath(folder));
             created.push(folder);
           } catch (e) {
             // Folder might exist
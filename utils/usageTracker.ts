@@ -0,0 +1,149 @@
+/**
+ * Usage Tracker
+ * Accumulates provider-reported token counts and estimated cost per chat and per day
+ */
+
+import { MODEL_PRICING } from '../constants/Models';
+import type { AIUsage } from './aiService';
+import { storage, UsageStats, UsageTotals } from './storage';
+
+// Daily totals older than this are dropped when new usage is recorded
+const USAGE_RETENTION_DAYS = 90;
+
+export interface UsageSummary {
+  chat: UsageTotals | null;
+  today: UsageTotals;
+  last7Days: UsageTotals;
+}
+
+export const emptyUsageTotals = (): UsageTotals => ({
+  promptTokens: 0,
+  completionTokens: 0,
+  cost: 0,
+  requests: 0,
+  unpricedRequests: 0,
+});
+
+/**
+ * Local calendar date as YYYY-MM-DD
+ */
+export const getDayKey = (date: Date = new Date()) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Whether usage of the model can be costed; the model pickers mark the ones that can't
+ */
+export const hasKnownPrice = (model: string) => !!MODEL_PRICING[model];
+
+/**
+ * Estimated cost in USD, or null when the model has no price entry
+ */
+export function estimateCost(model: string, usage: AIUsage): number | null {
+  const price = MODEL_PRICING[model];
+  if (!price) return null;
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+const addUsage = (totals: UsageTotals, usage: AIUsage, cost: number | null): UsageTotals => ({
+  promptTokens: totals.promptTokens + usage.promptTokens,
+  completionTokens: totals.completionTokens + usage.completionTokens,
+  cost: totals.cost + (cost ?? 0),
+  requests: totals.requests + 1,
+  unpricedRequests: totals.unpricedRequests + (cost === null ? 1 : 0),
+});
+
+const sumTotals = (list: UsageTotals[]): UsageTotals =>
+  list.reduce((sum, totals) => ({
+    promptTokens: sum.promptTokens + totals.promptTokens,
+    completionTokens: sum.completionTokens + totals.completionTokens,
+    cost: sum.cost + totals.cost,
+    requests: sum.requests + totals.requests,
+    unpricedRequests: sum.unpricedRequests + (totals.unpricedRequests || 0),
+  }), emptyUsageTotals());
+
+const formatTokens = (count: number) => {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1000) return `${(count / 1000).toFixed(1)}k`;
+  return String(count);
+};
+
+/**
+ * One-line description for settings, e.g. "12.4k in · 3.1k out · ~$0.08 · 6 requests"
+ */
+export const formatUsage = (totals: UsageTotals | null) => {
+  if (!totals || totals.requests === 0) return 'No usage yet';
+  const cost = totals.cost < 0.01 && totals.cost > 0 ? '<$0.01' : `$${totals.cost.toFixed(2)}`;
+  const parts = [
+    `${formatTokens(totals.promptTokens)} in`,
+    `${formatTokens(totals.completionTokens)} out`,
+    `~${cost}${totals.unpricedRequests > 0 ? '+' : ''}`,
+    `${totals.requests} request${totals.requests === 1 ? '' : 's'}`,
+  ];
+  return parts.join(' · ');
+};
+
+class UsageTracker {
+  private activeChatId: string | null = null;
+  // Records are applied one at a time so concurrent calls don't overwrite each other
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Chat that subsequent AI calls are billed to (set when a message is sent)
+   */
+  setActiveChat(chatId: string | null) {
+    this.activeChatId = chatId;
+  }
+
+  record(model: string, usage: AIUsage): Promise<void> {
+    const chatId = this.activeChatId;
+    const cost = estimateCost(model, usage);
+    console.log('[Usage]', model, usage.promptTokens, 'in /', usage.completionTokens, 'out', cost === null ? '(unpriced)' : `$${cost.toFixed(4)}`);
+
+    this.queue = this.queue
+      .then(async () => {
+        const stats = await storage.getUsageStats();
+        const day = getDayKey();
+        stats.days[day] = addUsage(stats.days[day] || emptyUsageTotals(), usage, cost);
+        if (chatId) {
+          stats.chats[chatId] = addUsage(stats.chats[chatId] || emptyUsageTotals(), usage, cost);
+        }
+
+        const cutoff = new Date();
+        cutoff.setDate(cutoff.getDate() - USAGE_RETENTION_DAYS);
+        const cutoffKey = getDayKey(cutoff);
+        Object.keys(stats.days).forEach((key) => {
+          if (key < cutoffKey) delete stats.days[key];
+        });
+
+        await storage.setUsageStats(stats);
+      })
+      .catch((error) => {
+        console.error('[Usage] Failed to record usage:', error);
+      });
+    return this.queue;
+  }
+
+  async getSummary(chatId: string | null): Promise<UsageSummary> {
+    await this.queue;
+    const stats: UsageStats = await storage.getUsageStats();
+
+    const weekStart = new Date();
+    weekStart.setDate(weekStart.getDate() - 6);
+    const weekStartKey = getDayKey(weekStart);
+
+    return {
+      chat: chatId ? stats.chats[chatId] || emptyUsageTotals() : null,
+      today: stats.days[getDayKey()] || emptyUsageTotals(),
+      last7Days: sumTotals(Object.entries(stats.days).filter(([key]) => key >= weekStartKey).map(([, totals]) => totals)),
+    };
+  }
+
+  async reset(): Promise<void> {
+    await this.queue;
+    await storage.setUsageStats({ chats: {}, days: {} });
+  }
+}
+
+export const usageTracker = new UsageTracker();